@@ -19,6 +19,11 @@ export const config = {
     serviceRoleKey: process.env.SUPABASE_SERVICE_ROLE_KEY!,
   },
 
+  // File storage (Supabase Storage)
+  storage: {
+    bucket: process.env.STORAGE_BUCKET || 'loqi-uploads',
+  },
+
   // AI Configuration
   ai: {
     anthropic: {
@@ -32,6 +37,24 @@ export const config = {
     },
   },
 
+  // OCR for uploaded note images
+  ocr: {
+    engine: process.env.OCR_ENGINE || 'tesseract', // tesseract, stub
+    tesseractPath: process.env.TESSERACT_PATH || 'tesseract',
+    languages: process.env.OCR_LANGUAGES || 'eng',
+    timeoutMs: parseInt(process.env.OCR_TIMEOUT_MS || '60000', 10), // Per image
+  },
+
+  // Speech-to-text for lecture recordings
+  transcription: {
+    engine: process.env.STT_ENGINE || 'whisper', // whisper, stub
+    whisperPath: process.env.WHISPER_PATH || 'whisper-cli', // whisper.cpp CLI
+    whisperModel: process.env.WHISPER_MODEL || 'models/ggml-base.en.bin',
+    ffmpegPath: process.env.FFMPEG_PATH || 'ffmpeg',
+    language: process.env.STT_LANGUAGE || 'auto',
+    timeoutMs: parseInt(process.env.STT_TIMEOUT_MS || '3600000', 10), // Per ffmpeg/whisper run
+  },
+
   // Inngest
   inngest: {
     eventKey: process.env.INNGEST_EVENT_KEY,
@@ -43,14 +66,17 @@ export const config = {
     free: {
       aiQueriesPerMonth: 50,
       storageBytes: 100 * 1024 * 1024, // 100MB
+      trashRetentionDays: 30,
     },
     basic: {
       aiQueriesPerMonth: 200,
       storageBytes: 500 * 1024 * 1024, // 500MB
+      trashRetentionDays: 60,
     },
     pro: {
       aiQueriesPerMonth: 1000,
       storageBytes: 5 * 1024 * 1024 * 1024, // 5GB
+      trashRetentionDays: 90,
     },
   },
 } as const;
@@ -1,6 +1,16 @@
 export * from './users';
+export * from './notebooks';
 export * from './notes';
 export * from './tags';
+export * from './note-links';
+export * from './note-blocks';
+export * from './note-shares';
+export * from './note-permissions';
+export * from './note-attachments';
+export * from './note-templates';
+export * from './note-imports';
+export * from './note-exports';
+export * from './transcriptions';
 export * from './quizzes';
 export * from './review-schedules';
 export * from './ai-logs';
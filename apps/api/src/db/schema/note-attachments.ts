@@ -0,0 +1,35 @@
+import { pgTable, uuid, text, timestamp, integer, real } from 'drizzle-orm/pg-core';
+import { users } from './users';
+import { notes } from './notes';
+
+/**
+ * Note attachments table - images uploaded to a note (e.g. photos of handwritten pages)
+ * OCR text of each image is stored here; the note's ocrText combines all of them
+ */
+export const noteAttachments = pgTable('note_attachments', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  noteId: uuid('note_id').notNull().references(() => notes.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }), // Note owner
+  uploadedBy: uuid('uploaded_by').notNull().references(() => users.id, { onDelete: 'cascade' }),
+
+  // File
+  fileName: text('file_name').notNull(),
+  mimeType: text('mime_type').notNull(),
+  sizeBytes: integer('size_bytes').notNull(),
+  storagePath: text('storage_path').notNull(),
+
+  // OCR
+  ocrStatus: text('ocr_status').notNull().default('pending'), // pending, processing, completed, failed
+  ocrText: text('ocr_text'),
+  ocrConfidence: real('ocr_confidence'),
+  ocrEngine: text('ocr_engine'),
+  ocrError: text('ocr_error'),
+  processedAt: timestamp('processed_at', { withTimezone: true }),
+
+  // Timestamps
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+});
+
+export type NoteAttachment = typeof noteAttachments.$inferSelect;
+export type NewNoteAttachment = typeof noteAttachments.$inferInsert;
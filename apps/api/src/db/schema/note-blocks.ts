@@ -0,0 +1,37 @@
+import { pgTable, uuid, text, timestamp, integer, primaryKey } from 'drizzle-orm/pg-core';
+import { users } from './users';
+import { notes } from './notes';
+
+/**
+ * Note blocks table - paragraphs, list items and headings of a note with persistent ids
+ * Rebuilt whenever the content changes; ids are carried over to the matching blocks
+ * of the new content, so `![[note#^block]]` references and chunk citations keep working.
+ */
+export const noteBlocks = pgTable(
+  'note_blocks',
+  {
+    noteId: uuid('note_id').notNull().references(() => notes.id, { onDelete: 'cascade' }),
+    blockId: text('block_id').notNull(), // Short id used after '#^' in references
+    userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }), // Note owner
+
+    // Content
+    type: text('type').notNull(), // heading, paragraph, listItem
+    markdown: text('markdown').notNull(),
+    text: text('text').notNull(), // Without Markdown markers, used to match blocks across edits
+
+    // Position in the note's Markdown
+    position: integer('position').notNull(),
+    startLine: integer('start_line').notNull(),
+    endLine: integer('end_line').notNull(),
+
+    // Timestamps
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.noteId, table.blockId] }),
+  })
+);
+
+export type NoteBlock = typeof noteBlocks.$inferSelect;
+export type NewNoteBlock = typeof noteBlocks.$inferInsert;
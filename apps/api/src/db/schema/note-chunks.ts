@@ -42,6 +42,9 @@ export const noteChunks = pgTable('note_chunks', {
   // Position
   chunkIndex: integer('chunk_index').notNull(),
 
+  // Note blocks (paragraphs, list items, headings) the chunk was cut from, for citations
+  blockIds: text('block_ids').array().notNull().default([]),
+
   // Timestamps
   createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
@@ -0,0 +1,32 @@
+import { pgTable, uuid, text, timestamp, integer, jsonb } from 'drizzle-orm/pg-core';
+import { users } from './users';
+
+/**
+ * Note exports table - tracks Markdown/JSON zip exports of a user's notes
+ * The archive is downloaded with `downloadToken` until `expiresAt`
+ */
+export const noteExports = pgTable('note_exports', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+
+  // Filters the export was requested with (tagIds, courseId, from, to, dateField)
+  filters: jsonb('filters').notNull().default({}),
+
+  // Status
+  status: text('status').notNull().default('pending'), // pending, processing, completed, failed
+  error: text('error'),
+  noteCount: integer('note_count').notNull().default(0),
+
+  // Download
+  storagePath: text('storage_path'),
+  downloadToken: text('download_token').notNull().unique(),
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+
+  // Timestamps
+  completedAt: timestamp('completed_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+});
+
+export type NoteExport = typeof noteExports.$inferSelect;
+export type NewNoteExport = typeof noteExports.$inferInsert;
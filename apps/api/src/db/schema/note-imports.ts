@@ -0,0 +1,36 @@
+import { pgTable, uuid, text, timestamp, integer, jsonb } from 'drizzle-orm/pg-core';
+import { users } from './users';
+
+/**
+ * Note imports table - tracks bulk imports of Markdown folders / Obsidian vaults
+ * The uploaded zip lives in storage at `storagePath` until the import finishes,
+ * along with the per-batch archives split from it (`batchPaths`)
+ */
+export const noteImports = pgTable('note_imports', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+
+  fileName: text('file_name').notNull(),
+  storagePath: text('storage_path').notNull(),
+  batchPaths: jsonb('batch_paths').notNull().default([]), // string[]
+
+  // Status
+  status: text('status').notNull().default('pending'), // pending, processing, completed, failed
+  error: text('error'),
+
+  // Progress
+  totalFiles: integer('total_files').notNull().default(0),
+  processedFiles: integer('processed_files').notNull().default(0),
+  createdNotes: integer('created_notes').notNull().default(0),
+  skippedFiles: integer('skipped_files').notNull().default(0),
+  fileErrors: jsonb('file_errors').notNull().default([]), // [{ path, message }]
+
+  // Timestamps
+  startedAt: timestamp('started_at', { withTimezone: true }),
+  completedAt: timestamp('completed_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+});
+
+export type NoteImport = typeof noteImports.$inferSelect;
+export type NewNoteImport = typeof noteImports.$inferInsert;
@@ -0,0 +1,30 @@
+import { pgTable, uuid, text, timestamp, integer } from 'drizzle-orm/pg-core';
+import { users } from './users';
+import { notes } from './notes';
+
+/**
+ * Note links table - stores [[wiki-style]] references between notes
+ * Rebuilt from the source note's content on every create/update
+ */
+export const noteLinks = pgTable('note_links', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  sourceNoteId: uuid('source_note_id').notNull().references(() => notes.id, { onDelete: 'cascade' }),
+
+  // Resolved target (null while the referenced note doesn't exist)
+  targetNoteId: uuid('target_note_id').references(() => notes.id, { onDelete: 'set null' }),
+
+  // Reference as written: note title or note id, without the #anchor or |alias
+  targetRef: text('target_ref').notNull(),
+  anchor: text('anchor'),
+  alias: text('alias'),
+
+  // Character offset of the link in the source content
+  position: integer('position').notNull(),
+
+  // Timestamps
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+});
+
+export type NoteLink = typeof noteLinks.$inferSelect;
+export type NewNoteLink = typeof noteLinks.$inferInsert;
@@ -0,0 +1,51 @@
+import { pgTable, uuid, text, timestamp, boolean, uniqueIndex } from 'drizzle-orm/pg-core';
+import { users } from './users';
+import { notes } from './notes';
+import { notebooks } from './notebooks';
+
+/**
+ * Note permissions table - grants another user access to a note or a whole notebook
+ * Exactly one of noteId / notebookId is set; notebook grants cover nested notebooks
+ */
+export const notePermissions = pgTable('note_permissions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  ownerId: uuid('owner_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+
+  // Shared resource
+  noteId: uuid('note_id').references(() => notes.id, { onDelete: 'cascade' }),
+  notebookId: uuid('notebook_id').references(() => notebooks.id, { onDelete: 'cascade' }),
+
+  role: text('role').notNull().default('viewer'), // viewer, commenter, editor
+
+  // Collaborator opt-in to include the shared notes in their AI retrieval
+  includeInSearch: boolean('include_in_search').notNull().default(false),
+
+  // Timestamps
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => ({
+  noteUserIdx: uniqueIndex('note_permissions_note_user_idx').on(table.noteId, table.userId),
+  notebookUserIdx: uniqueIndex('note_permissions_notebook_user_idx').on(table.notebookId, table.userId),
+}));
+
+/**
+ * Note comments table - discussion on a note by its owner and collaborators
+ */
+export const noteComments = pgTable('note_comments', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  noteId: uuid('note_id').notNull().references(() => notes.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+
+  body: text('body').notNull(),
+
+  // Timestamps
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  deletedAt: timestamp('deleted_at', { withTimezone: true }),
+});
+
+export type NotePermission = typeof notePermissions.$inferSelect;
+export type NewNotePermission = typeof notePermissions.$inferInsert;
+export type NoteComment = typeof noteComments.$inferSelect;
+export type NewNoteComment = typeof noteComments.$inferInsert;
@@ -0,0 +1,27 @@
+import { pgTable, uuid, text, timestamp, integer } from 'drizzle-orm/pg-core';
+import { users } from './users';
+import { notes } from './notes';
+
+/**
+ * Note shares table - public read-only links to a single note
+ * Anyone with the token can read the note until it expires or is revoked
+ */
+export const noteShares = pgTable('note_shares', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  noteId: uuid('note_id').notNull().references(() => notes.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+
+  token: text('token').notNull().unique(),
+  expiresAt: timestamp('expires_at', { withTimezone: true }),
+  revokedAt: timestamp('revoked_at', { withTimezone: true }),
+
+  // Usage
+  viewCount: integer('view_count').notNull().default(0),
+  lastViewedAt: timestamp('last_viewed_at', { withTimezone: true }),
+
+  // Timestamps
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+});
+
+export type NoteShare = typeof noteShares.$inferSelect;
+export type NewNoteShare = typeof noteShares.$inferInsert;
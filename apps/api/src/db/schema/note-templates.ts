@@ -0,0 +1,26 @@
+import { pgTable, uuid, text, timestamp } from 'drizzle-orm/pg-core';
+import { users } from './users';
+
+/**
+ * Note templates table - user-defined templates for new notes
+ * Built-in templates (Cornell, lecture outline, lab report) live in code, not here
+ */
+export const noteTemplates = pgTable('note_templates', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+
+  name: text('name').notNull(),
+  description: text('description'),
+
+  // Template bodies with {{variable}} placeholders
+  title: text('title').notNull().default('{{date}}'),
+  content: text('content').notNull(),
+
+  // Timestamps
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  deletedAt: timestamp('deleted_at', { withTimezone: true }),
+});
+
+export type NoteTemplate = typeof noteTemplates.$inferSelect;
+export type NewNoteTemplate = typeof noteTemplates.$inferInsert;
@@ -0,0 +1,27 @@
+import { pgTable, uuid, text, timestamp, integer } from 'drizzle-orm/pg-core';
+import type { AnyPgColumn } from 'drizzle-orm/pg-core';
+import { users } from './users';
+
+/**
+ * Notebooks table - nested folders for organizing notes (e.g. Semester > Course)
+ * Siblings are ordered by `position`
+ */
+export const notebooks = pgTable('notebooks', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  parentId: uuid('parent_id').references((): AnyPgColumn => notebooks.id, { onDelete: 'cascade' }),
+
+  // Notebook info
+  name: text('name').notNull(),
+  color: text('color'),
+  icon: text('icon'),
+  position: integer('position').notNull().default(0),
+
+  // Timestamps
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  deletedAt: timestamp('deleted_at', { withTimezone: true }),
+});
+
+export type Notebook = typeof notebooks.$inferSelect;
+export type NewNotebook = typeof notebooks.$inferInsert;
@@ -1,9 +1,22 @@
-import { pgTable, uuid, text, timestamp, integer, boolean } from 'drizzle-orm/pg-core';
+import {
+  pgTable,
+  uuid,
+  text,
+  timestamp,
+  integer,
+  boolean,
+  primaryKey,
+  uniqueIndex,
+} from 'drizzle-orm/pg-core';
 import { users } from './users';
+import { notebooks } from './notebooks';
+import { courses } from './courses';
 
 export const notes = pgTable('notes', {
   id: uuid('id').primaryKey().defaultRandom(),
   userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  notebookId: uuid('notebook_id').references(() => notebooks.id, { onDelete: 'set null' }),
+  courseId: uuid('course_id').references(() => courses.id, { onDelete: 'set null' }),
 
   // Content
   title: text('title').notNull().default('Untitled'),
@@ -18,6 +31,11 @@ export const notes = pgTable('notes', {
   wordCount: integer('word_count').notNull().default(0),
   readingTimeMinutes: integer('reading_time_minutes').notNull().default(0),
 
+  // Organization (not versioned)
+  isPinned: boolean('is_pinned').notNull().default(false),
+  isFavorite: boolean('is_favorite').notNull().default(false),
+  archivedAt: timestamp('archived_at', { withTimezone: true }),
+
   // Sync & Versioning
   version: integer('version').notNull().default(1),
   clientId: text('client_id'),
@@ -32,7 +50,10 @@ export const notes = pgTable('notes', {
   createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
   deletedAt: timestamp('deleted_at', { withTimezone: true }),
-});
+}, (table) => ({
+  // One note per device-side id, so concurrent sync pushes can't create it twice
+  userClientIdx: uniqueIndex('notes_user_client_idx').on(table.userId, table.clientId),
+}));
 
 export const noteConflicts = pgTable('note_conflicts', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -40,7 +61,7 @@ export const noteConflicts = pgTable('note_conflicts', {
   userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
 
   // Conflicting version details
-  conflictingContent: text('conflicting_content').notNull(),
+  conflictingContent: text('conflicting_content'), // null when the edit left content unchanged
   conflictingTitle: text('conflicting_title'),
   conflictingClientId: text('conflicting_client_id'),
   conflictingClientUpdatedAt: timestamp('conflicting_client_updated_at', { withTimezone: true }),
@@ -56,7 +77,35 @@ export const noteConflicts = pgTable('note_conflicts', {
   createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
 });
 
+export const noteRevisions = pgTable('note_revisions', {
+  noteId: uuid('note_id').notNull().references(() => notes.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  version: integer('version').notNull(),
+
+  // Snapshot of the note at this version
+  title: text('title').notNull(),
+  content: text('content').notNull(),
+  ocrText: text('ocr_text'),
+
+  // Timestamps
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.noteId, table.version] }),
+}));
+
+// Purged notes, kept so sync pulls can still report them as deleted
+export const noteTombstones = pgTable('note_tombstones', {
+  noteId: uuid('note_id').primaryKey(), // No reference, the note row is gone
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  clientId: text('client_id'),
+  deletedAt: timestamp('deleted_at', { withTimezone: true }).notNull(),
+  purgedAt: timestamp('purged_at', { withTimezone: true }).notNull().defaultNow(),
+});
+
 export type Note = typeof notes.$inferSelect;
 export type NewNote = typeof notes.$inferInsert;
 export type NoteConflict = typeof noteConflicts.$inferSelect;
 export type NewNoteConflict = typeof noteConflicts.$inferInsert;
+export type NoteRevision = typeof noteRevisions.$inferSelect;
+export type NewNoteRevision = typeof noteRevisions.$inferInsert;
+export type NoteTombstone = typeof noteTombstones.$inferSelect;
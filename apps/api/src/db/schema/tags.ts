@@ -1,10 +1,16 @@
 import { pgTable, uuid, text, timestamp, integer, primaryKey } from 'drizzle-orm/pg-core';
+import type { AnyPgColumn } from 'drizzle-orm/pg-core';
 import { users } from './users';
 import { notes } from './notes';
 
+/**
+ * Tags table - optionally nested (e.g. CS > Algorithms > Graphs)
+ * Names stay unique per user, so a tag can be found by name wherever it sits.
+ */
 export const tags = pgTable('tags', {
   id: uuid('id').primaryKey().defaultRandom(),
   userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  parentId: uuid('parent_id').references((): AnyPgColumn => tags.id, { onDelete: 'cascade' }),
 
   name: text('name').notNull(),
   color: text('color').notNull().default('#3B82F6'),
@@ -27,7 +33,21 @@ export const noteTags = pgTable('note_tags', {
   pk: primaryKey({ columns: [table.noteId, table.tagId] }),
 }));
 
+/**
+ * Former names of merged tags, so imports using an old name land on the merged tag
+ */
+export const tagAliases = pgTable('tag_aliases', {
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  alias: text('alias').notNull(),
+  tagId: uuid('tag_id').notNull().references(() => tags.id, { onDelete: 'cascade' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.userId, table.alias] }),
+}));
+
 export type Tag = typeof tags.$inferSelect;
 export type NewTag = typeof tags.$inferInsert;
 export type NoteTag = typeof noteTags.$inferSelect;
 export type NewNoteTag = typeof noteTags.$inferInsert;
+export type TagAlias = typeof tagAliases.$inferSelect;
+export type NewTagAlias = typeof tagAliases.$inferInsert;
@@ -0,0 +1,44 @@
+import { pgTable, uuid, text, timestamp, integer, real, jsonb } from 'drizzle-orm/pg-core';
+import { users } from './users';
+import { notes } from './notes';
+import { courses } from './courses';
+
+/**
+ * Transcriptions table - lecture recordings turned into notes by the transcription job
+ * The uploaded audio lives in storage at `storagePath` until the job finishes
+ */
+export const transcriptions = pgTable('transcriptions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+
+  // Target: append to noteId, or create a note (noteId is set once it exists)
+  noteId: uuid('note_id').references(() => notes.id, { onDelete: 'set null' }),
+  courseId: uuid('course_id').references(() => courses.id, { onDelete: 'set null' }),
+  title: text('title'),
+
+  // Upload
+  fileName: text('file_name').notNull(),
+  mimeType: text('mime_type').notNull(),
+  sizeBytes: integer('size_bytes').notNull(),
+  storagePath: text('storage_path').notNull(),
+
+  // Status
+  status: text('status').notNull().default('pending'), // pending, processing, completed, failed
+  progress: integer('progress').notNull().default(0), // 0-100
+  error: text('error'),
+
+  // Result
+  engine: text('engine'),
+  durationSeconds: real('duration_seconds'),
+  segments: jsonb('segments'), // [{ start, end, text }], kept until the note is written
+  segmentCount: integer('segment_count').notNull().default(0),
+
+  // Timestamps
+  startedAt: timestamp('started_at', { withTimezone: true }),
+  completedAt: timestamp('completed_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+});
+
+export type Transcription = typeof transcriptions.$inferSelect;
+export type NewTranscription = typeof transcriptions.$inferInsert;
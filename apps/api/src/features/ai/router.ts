@@ -15,6 +15,8 @@ const AskInputSchema = z.object({
   filters: z
     .object({
       courseId: z.string().optional(),
+      tagIds: z.array(z.string().uuid()).optional(),
+      includeDescendantTags: z.boolean().optional(),
       dateRange: z
         .object({
           start: z.date(),
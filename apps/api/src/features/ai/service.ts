@@ -79,8 +79,10 @@ export async function askQuestion(userId: string, input: AskInput): Promise<AskR
     // Step 5: Map retrieved chunks to cited chunks format
     const citedChunks: CitedChunk[] = retrievalResult.chunks.map((chunk) => ({
       id: chunk.id,
+      noteId: chunk.noteId,
       noteTitle: chunk.noteTitle,
       sectionPath: chunk.sectionPath,
+      blockIds: chunk.blockIds,
       courseTag: chunk.courseTag,
       contentRaw: chunk.contentRaw,
       similarity: chunk.similarity,
@@ -19,8 +19,10 @@ export interface AskInput {
  */
 export interface CitedChunk {
   id: string;
+  noteId: string;
   noteTitle: string;
   sectionPath: string[];
+  blockIds: string[]; // Link to `note#^blockId` for the exact paragraph
   courseTag: string | null;
   contentRaw: string;
   similarity: number;
@@ -1,4 +1,4 @@
-import { eq, and, isNull, gte, lte, inArray, type SQL } from 'drizzle-orm';
+import { eq, and, isNull, gte, lte, inArray, sql, type SQL } from 'drizzle-orm';
 import type {
   CreateAssignmentInput,
   UpdateAssignmentInput,
@@ -11,6 +11,15 @@ import type {
 } from '@loqi-notes/shared-types';
 import { assignments, assignmentNotes, courses } from '../../db/schema';
 import { NotFoundError } from '../../utils/errors';
+import { publishScheduleChange } from '../../lib/realtime';
+import {
+  encodeSortCursor,
+  decodeSortCursor,
+  keysetCondition,
+  orderBySortKeys,
+  buildCursorPage,
+  type SortKey,
+} from '../../utils/cursor';
 
 type ConditionBuilder<T> = (value: NonNullable<T>) => SQL;
 
@@ -44,6 +53,8 @@ export async function createAssignment(
     })
     .returning();
 
+  publishScheduleChange(userId, 'assignment', assignment.id, 'created');
+
   return assignment;
 }
 
@@ -67,6 +78,16 @@ export async function listAssignments(
     ...filterConditions,
   ];
 
+  // Assignments are listed by due date; the id breaks ties so the cursor is exact
+  const sortKeys: SortKey[] = [
+    { expression: sql`date_trunc('milliseconds', ${assignments.dueDate})`, order: 'asc' },
+    { expression: assignments.id, order: 'asc' },
+  ];
+
+  const pageConditions = input.cursor
+    ? [...conditions, keysetCondition(sortKeys, decodeSortCursor(input.cursor, 'dueDate:asc', 2))]
+    : conditions;
+
   const result = await db
     .select({
       assignment: assignments,
@@ -79,15 +100,42 @@ export async function listAssignments(
     })
     .from(assignments)
     .leftJoin(courses, eq(assignments.courseId, courses.id))
-    .where(and(...conditions))
-    .orderBy(assignments.dueDate)
-    .limit(input.limit)
-    .offset(input.offset);
+    .where(and(...pageConditions))
+    .orderBy(...orderBySortKeys(sortKeys))
+    .limit(input.limit + 1)
+    .offset(input.cursor ? 0 : input.offset);
 
-  return result.map((r: any) => ({
+  const page = buildCursorPage(result, input.limit, (r: any) =>
+    encodeSortCursor('dueDate:asc', [r.assignment.dueDate.toISOString(), r.assignment.id])
+  );
+
+  const rows = page.rows.map((r: any) => ({
     ...r.assignment,
     course: r.course,
   }));
+
+  // Callers that don't pass a cursor keep getting a plain array
+  if (input.cursor === undefined) {
+    return rows;
+  }
+
+  let total: number | undefined;
+  if (input.includeTotal) {
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(assignments)
+      .where(and(...conditions));
+    total = Number(count);
+  }
+
+  return {
+    data: rows,
+    total,
+    limit: input.limit,
+    offset: input.offset,
+    hasMore: page.hasMore,
+    nextCursor: page.nextCursor,
+  };
 }
 
 export async function getAssignmentById(
@@ -165,6 +213,8 @@ export async function updateAssignment(
     throw new NotFoundError('Assignment', id);
   }
 
+  publishScheduleChange(userId, 'assignment', updated.id, 'updated');
+
   return updated;
 }
 
@@ -192,6 +242,8 @@ export async function deleteAssignment(
     throw new NotFoundError('Assignment', assignmentId);
   }
 
+  publishScheduleChange(userId, 'assignment', assignmentId, 'deleted');
+
   return { success: true };
 }
 
@@ -219,6 +271,8 @@ export async function updateAssignmentStatus(
     throw new NotFoundError('Assignment', input.id);
   }
 
+  publishScheduleChange(userId, 'assignment', updated.id, 'updated');
+
   return updated;
 }
 
@@ -254,6 +308,8 @@ export async function markComplete(
     throw new NotFoundError('Assignment', assignmentId);
   }
 
+  publishScheduleChange(userId, 'assignment', updated.id, 'updated');
+
   return updated;
 }
 
@@ -283,6 +339,8 @@ export async function recordGrade(
     throw new NotFoundError('Assignment', input.id);
   }
 
+  publishScheduleChange(userId, 'assignment', updated.id, 'updated');
+
   return updated;
 }
 
@@ -8,6 +8,7 @@ import type {
 } from '@loqi-notes/shared-types';
 import { courses, classSchedules } from '../../db/schema';
 import { NotFoundError } from '../../utils/errors';
+import { publishScheduleChange } from '../../lib/realtime';
 
 export async function createCourse(
   userId: string,
@@ -22,6 +23,8 @@ export async function createCourse(
     })
     .returning();
 
+  publishScheduleChange(userId, 'course', course.id, 'created');
+
   return course;
 }
 
@@ -103,6 +106,8 @@ export async function updateCourse(
     throw new NotFoundError('Course', id);
   }
 
+  publishScheduleChange(userId, 'course', updated.id, 'updated');
+
   return updated;
 }
 
@@ -130,6 +135,8 @@ export async function deleteCourse(
     throw new NotFoundError('Course', courseId);
   }
 
+  publishScheduleChange(userId, 'course', courseId, 'deleted');
+
   return { success: true };
 }
 
@@ -159,6 +166,8 @@ export async function addClassSchedule(
     })
     .returning();
 
+  publishScheduleChange(userId, 'classSchedule', schedule.id, 'created');
+
   return schedule;
 }
 
@@ -187,6 +196,8 @@ export async function updateClassSchedule(
     throw new NotFoundError('ClassSchedule', id);
   }
 
+  publishScheduleChange(userId, 'classSchedule', updated.id, 'updated');
+
   return updated;
 }
 
@@ -209,6 +220,8 @@ export async function removeClassSchedule(
     throw new NotFoundError('ClassSchedule', scheduleId);
   }
 
+  publishScheduleChange(userId, 'classSchedule', scheduleId, 'deleted');
+
   return { success: true };
 }
 
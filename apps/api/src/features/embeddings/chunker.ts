@@ -31,23 +31,40 @@ export function freeEncoder(): void {
 }
 
 /**
- * Parse markdown and extract sections with headers
+ * A heading and the lines under it, up to the next heading of any level
+ * Content before the first heading is a level 0 section with no header text.
  */
-interface Section {
+export interface MarkdownSection {
   headerLevel: number;
   headerText: string;
   content: string;
   startLine: number;
 }
 
-function parseMarkdownSections(markdown: string): Section[] {
+/**
+ * Parse markdown and extract sections with headers
+ * Lines inside fenced code blocks are never headers (e.g. `# comment` in a script).
+ */
+export function parseMarkdownSections(markdown: string): MarkdownSection[] {
   const lines = markdown.split('\n');
-  const sections: Section[] = [];
-  let currentSection: Section | null = null;
+  const sections: MarkdownSection[] = [];
+  let currentSection: MarkdownSection | null = null;
+  let openFence: string | null = null;
 
   for (let i = 0; i < lines.length; i++) {
     const line = lines[i];
-    const headerMatch = line.match(/^(#{1,6})\s+(.+)$/);
+    const fenceMatch = line.match(/^\s{0,3}(`{3,}|~{3,})/);
+
+    if (fenceMatch) {
+      const marker = fenceMatch[1];
+      if (!openFence) {
+        openFence = marker;
+      } else if (marker[0] === openFence[0] && marker.length >= openFence.length) {
+        openFence = null;
+      }
+    }
+
+    const headerMatch = fenceMatch || openFence ? null : line.match(/^(#{1,6})\s+(.+)$/);
 
     if (headerMatch) {
       // Save previous section if exists
@@ -57,7 +74,8 @@ function parseMarkdownSections(markdown: string): Section[] {
 
       // Start new section
       const level = headerMatch[1].length;
-      const text = headerMatch[2].trim();
+      // Closing hashes (`## Title ##`) aren't part of the heading text
+      const text = headerMatch[2].replace(/\s+#+\s*$/, '').trim();
       currentSection = {
         headerLevel: level,
         headerText: text,
@@ -94,15 +112,16 @@ function parseMarkdownSections(markdown: string): Section[] {
 /**
  * Build section path from hierarchy
  */
-function buildSectionPath(sections: Section[], currentIndex: number): string[] {
+export function buildSectionPath(sections: MarkdownSection[], currentIndex: number): string[] {
   const path: string[] = [];
-  const currentLevel = sections[currentIndex].headerLevel;
+  let ancestorLevel = sections[currentIndex].headerLevel;
 
-  // Work backwards to build hierarchy
-  for (let i = currentIndex; i >= 0; i--) {
+  // Work backwards to build hierarchy - only the nearest heading above each level is an ancestor
+  for (let i = currentIndex - 1; i >= 0 && ancestorLevel > 1; i--) {
     const section = sections[i];
-    if (section.headerLevel < currentLevel && section.headerText) {
+    if (section.headerLevel < ancestorLevel && section.headerText) {
       path.unshift(section.headerText);
+      ancestorLevel = section.headerLevel;
     }
   }
 
@@ -4,5 +4,12 @@
  * Exports chunking functionality for use in the RAG pipeline
  */
 
-export { chunkMarkdown, countTokens, freeEncoder } from './chunker';
+export {
+  chunkMarkdown,
+  countTokens,
+  freeEncoder,
+  parseMarkdownSections,
+  buildSectionPath,
+} from './chunker';
+export type { MarkdownSection } from './chunker';
 export type { Chunk, ChunkMetadata, ChunkerInput, ChunkerOptions } from './types';
@@ -0,0 +1,142 @@
+/**
+ * Export Archive
+ *
+ * Builds the zip produced by notes.export:
+ * - notes/<Title>.md - one Markdown file per note with YAML front matter
+ *   (id, title, tags, courses, timestamps)
+ * - manifest.json - machine-readable index of the exported notes
+ *
+ * Front matter tags use the same `tags: [...]` form the vault importer reads,
+ * so an export can be imported again.
+ */
+
+import { zipSync, strToU8 } from 'fflate';
+
+export const MANIFEST_VERSION = 1;
+
+export interface ExportCourse {
+  id: string;
+  name: string;
+  code: string | null;
+}
+
+export interface ExportNote {
+  id: string;
+  title: string;
+  content: string;
+  ocrText: string | null;
+  wordCount: number;
+  version: number;
+  tags: string[];
+  courses: ExportCourse[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ExportManifest {
+  version: number;
+  exportedAt: string;
+  filters: Record<string, unknown>;
+  noteCount: number;
+  notes: {
+    id: string;
+    title: string;
+    path: string;
+    tags: string[];
+    courses: ExportCourse[];
+    wordCount: number;
+    version: number;
+    createdAt: string;
+    updatedAt: string;
+  }[];
+}
+
+// Characters that are invalid in file names on common file systems
+const UNSAFE_FILE_NAME_CHARS = /[\\/:*?"<>|\p{Cc}]/gu;
+
+/**
+ * Turn a note title into a unique, file-system safe Markdown file name
+ */
+export function toExportFileName(title: string, usedNames: Set<string>): string {
+  const base =
+    title.replace(UNSAFE_FILE_NAME_CHARS, ' ').replace(/\s+/g, ' ').trim().slice(0, 100) ||
+    'Untitled';
+
+  let name = `${base}.md`;
+  for (let suffix = 2; usedNames.has(name.toLowerCase()); suffix++) {
+    name = `${base} (${suffix}).md`;
+  }
+
+  usedNames.add(name.toLowerCase());
+  return name;
+}
+
+// JSON strings are valid YAML double-quoted scalars
+function yamlString(value: string): string {
+  return JSON.stringify(value);
+}
+
+function yamlList(values: string[]): string {
+  return `[${values.map(yamlString).join(', ')}]`;
+}
+
+/**
+ * Render a note as Markdown with YAML front matter
+ */
+export function renderNoteMarkdown(note: ExportNote): string {
+  const frontMatter = [
+    `id: ${yamlString(note.id)}`,
+    `title: ${yamlString(note.title)}`,
+    `tags: ${yamlList(note.tags)}`,
+    `courses: ${yamlList(note.courses.map((course) => course.code || course.name))}`,
+    `created: ${note.createdAt.toISOString()}`,
+    `updated: ${note.updatedAt.toISOString()}`,
+  ];
+
+  const sections = [note.content.trim()];
+  if (note.ocrText?.trim()) {
+    sections.push(`## Handwriting (OCR)\n\n${note.ocrText.trim()}`);
+  }
+
+  return `---\n${frontMatter.join('\n')}\n---\n\n${sections.filter(Boolean).join('\n\n')}\n`;
+}
+
+/**
+ * Build the export zip for a set of notes
+ */
+export function buildExportArchive(
+  notes: ExportNote[],
+  filters: Record<string, unknown>,
+  exportedAt: Date
+): Uint8Array {
+  const usedNames = new Set<string>();
+  const files: Record<string, Uint8Array> = {};
+  const manifest: ExportManifest = {
+    version: MANIFEST_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    filters,
+    noteCount: notes.length,
+    notes: [],
+  };
+
+  for (const note of notes) {
+    const path = `notes/${toExportFileName(note.title, usedNames)}`;
+    files[path] = strToU8(renderNoteMarkdown(note));
+
+    manifest.notes.push({
+      id: note.id,
+      title: note.title,
+      path,
+      tags: note.tags,
+      courses: note.courses,
+      wordCount: note.wordCount,
+      version: note.version,
+      createdAt: note.createdAt.toISOString(),
+      updatedAt: note.updatedAt.toISOString(),
+    });
+  }
+
+  files['manifest.json'] = strToU8(JSON.stringify(manifest, null, 2));
+
+  return zipSync(files, { level: 6, mtime: exportedAt });
+}
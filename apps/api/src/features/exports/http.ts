@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import { db } from '../../db';
+import { createSignedUrl } from '../../lib/storage';
+import { findExportByToken } from './service';
+
+// Long enough to start the download, short enough that a leaked URL is useless
+const SIGNED_URL_TTL_SECONDS = 60;
+
+/**
+ * GET /api/v1/exports/:token
+ * The download token is the credential, so links work outside the app.
+ * Redirects to a short-lived signed URL for the archive.
+ */
+export const exportsDownloadRouter: Router = Router();
+
+exportsDownloadRouter.get('/:token', async (req, res, next) => {
+  try {
+    const noteExport = await findExportByToken(req.params.token, db);
+    res.redirect(await createSignedUrl(noteExport.storagePath, SIGNED_URL_TTL_SECONDS));
+  } catch (error) {
+    next(error);
+  }
+});
@@ -0,0 +1,229 @@
+/**
+ * Note Exports
+ *
+ * notes.export writes the user's notes to a Markdown/JSON zip (see ./archive).
+ * Small exports are built right away; larger ones are handed to the export job.
+ * Either way the archive is fetched through GET /api/v1/exports/:token.
+ */
+
+import { randomBytes } from 'crypto';
+import { eq, and, isNull, inArray, gte, lte, asc, sql } from 'drizzle-orm';
+import { ExportNotesInputSchema } from '@loqi-notes/shared-types';
+import type { ExportNotesInput } from '@loqi-notes/shared-types';
+import { noteExports, notes, noteTags, courses } from '../../db/schema';
+import { NotFoundError } from '../../utils/errors';
+import { uploadFile } from '../../lib/storage';
+import { inngest } from '../../lib/inngest';
+import { logger } from '../../lib/logger';
+import { attachTags } from '../notes/service';
+import { buildExportArchive } from './archive';
+import type { ExportCourse, ExportNote } from './archive';
+
+// Exports with more notes than this are built by the background job
+export const INLINE_EXPORT_LIMIT = 200;
+
+const EXPORT_TTL_DAYS = 7;
+
+function downloadUrl(noteExport: any): string | null {
+  const ready = noteExport.status === 'completed' && noteExport.expiresAt > new Date();
+  return ready ? `/api/v1/exports/${noteExport.downloadToken}` : null;
+}
+
+function formatExport(noteExport: any) {
+  return {
+    id: noteExport.id,
+    userId: noteExport.userId,
+    filters: noteExport.filters,
+    status: noteExport.status,
+    error: noteExport.error,
+    noteCount: noteExport.noteCount,
+    downloadToken: noteExport.downloadToken,
+    downloadUrl: downloadUrl(noteExport),
+    expiresAt: noteExport.expiresAt,
+    completedAt: noteExport.completedAt,
+    createdAt: noteExport.createdAt,
+    updatedAt: noteExport.updatedAt,
+  };
+}
+
+// Exports cover the user's own notes only, shared notes stay with their owner
+function buildExportConditions(userId: string, filters: ExportNotesInput, db: any) {
+  const conditions = [eq(notes.userId, userId), isNull(notes.deletedAt)];
+
+  if (filters.tagIds && filters.tagIds.length > 0) {
+    const noteIdsWithTags = db
+      .selectDistinct({ noteId: noteTags.noteId })
+      .from(noteTags)
+      .where(inArray(noteTags.tagId, filters.tagIds));
+    conditions.push(inArray(notes.id, noteIdsWithTags));
+  }
+
+  if (filters.courseId) {
+    conditions.push(eq(notes.courseId, filters.courseId));
+  }
+
+  const dateColumn = filters.dateField === 'createdAt' ? notes.createdAt : notes.updatedAt;
+  if (filters.from) {
+    conditions.push(gte(dateColumn, filters.from));
+  }
+  if (filters.to) {
+    conditions.push(lte(dateColumn, filters.to));
+  }
+
+  return and(...conditions);
+}
+
+async function attachCourses(notesList: any[], db: any) {
+  const courseIds = Array.from(
+    new Set(notesList.map((note) => note.courseId).filter(Boolean))
+  ) as string[];
+  const rows =
+    courseIds.length > 0
+      ? await db
+          .select({ id: courses.id, name: courses.name, code: courses.code })
+          .from(courses)
+          .where(and(inArray(courses.id, courseIds), isNull(courses.deletedAt)))
+      : [];
+  const courseById = new Map<string, ExportCourse>(rows.map((row: any) => [row.id, row]));
+
+  return notesList.map((note) => {
+    const course = note.courseId ? courseById.get(note.courseId) : undefined;
+    return { ...note, courses: course ? [course] : [] };
+  });
+}
+
+async function loadExportNotes(
+  userId: string,
+  filters: ExportNotesInput,
+  db: any
+): Promise<ExportNote[]> {
+  const rows = await db
+    .select()
+    .from(notes)
+    .where(buildExportConditions(userId, filters, db))
+    .orderBy(asc(notes.createdAt));
+
+  const withCourses = await attachCourses(await attachTags(rows, db), db);
+
+  return withCourses.map((note: any) => ({
+    id: note.id,
+    title: note.title,
+    content: note.content,
+    ocrText: note.ocrText,
+    wordCount: note.wordCount,
+    version: note.version,
+    tags: note.tags.map((tag: any) => tag.name),
+    courses: note.courses,
+    createdAt: note.createdAt,
+    updatedAt: note.updatedAt,
+  }));
+}
+
+/**
+ * Build the archive for an export, upload it and mark the export completed
+ */
+export async function generateExport(exportId: string, db: any) {
+  const noteExport = await db.query.noteExports.findFirst({
+    where: eq(noteExports.id, exportId),
+  });
+
+  if (!noteExport) {
+    throw new NotFoundError('Export', exportId);
+  }
+
+  await db
+    .update(noteExports)
+    .set({ status: 'processing', updatedAt: new Date() })
+    .where(eq(noteExports.id, exportId));
+
+  const filters = ExportNotesInputSchema.parse(noteExport.filters);
+  const exportNotes = await loadExportNotes(noteExport.userId, filters, db);
+  const archive = buildExportArchive(exportNotes, noteExport.filters, new Date());
+
+  const storagePath = `exports/${noteExport.userId}/${exportId}.zip`;
+  await uploadFile(storagePath, Buffer.from(archive), 'application/zip');
+
+  const [completed] = await db
+    .update(noteExports)
+    .set({
+      status: 'completed',
+      storagePath,
+      noteCount: exportNotes.length,
+      completedAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(eq(noteExports.id, exportId))
+    .returning();
+
+  logger.info({ exportId, noteCount: exportNotes.length }, 'Generated note export');
+
+  return completed;
+}
+
+export async function failExport(exportId: string, error: string, db: any) {
+  await db
+    .update(noteExports)
+    .set({ status: 'failed', error, updatedAt: new Date() })
+    .where(eq(noteExports.id, exportId));
+}
+
+export async function exportNotes(userId: string, input: ExportNotesInput, db: any) {
+  const [{ count }] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(notes)
+    .where(buildExportConditions(userId, input, db));
+
+  const [noteExport] = await db
+    .insert(noteExports)
+    .values({
+      userId,
+      // Stored as JSON; dates become ISO strings and are coerced back by the schema
+      filters: JSON.parse(JSON.stringify(input)),
+      noteCount: count,
+      downloadToken: randomBytes(32).toString('base64url'),
+      expiresAt: new Date(Date.now() + EXPORT_TTL_DAYS * 24 * 60 * 60 * 1000),
+    })
+    .returning();
+
+  if (count > INLINE_EXPORT_LIMIT) {
+    await inngest.send({
+      name: 'exports/requested',
+      data: { exportId: noteExport.id, userId },
+    });
+    return formatExport(noteExport);
+  }
+
+  try {
+    return formatExport(await generateExport(noteExport.id, db));
+  } catch (error) {
+    await failExport(noteExport.id, error instanceof Error ? error.message : 'Unknown error', db);
+    throw error;
+  }
+}
+
+export async function getExport(userId: string, exportId: string, db: any) {
+  const noteExport = await db.query.noteExports.findFirst({
+    where: and(eq(noteExports.id, exportId), eq(noteExports.userId, userId)),
+  });
+
+  if (!noteExport) {
+    throw new NotFoundError('Export', exportId);
+  }
+
+  return formatExport(noteExport);
+}
+
+/**
+ * Look up a completed, unexpired export by its download token
+ */
+export async function findExportByToken(downloadToken: string, db: any) {
+  const noteExport = await db.query.noteExports.findFirst({
+    where: eq(noteExports.downloadToken, downloadToken),
+  });
+
+  if (!noteExport || !downloadUrl(noteExport) || !noteExport.storagePath) {
+    throw new NotFoundError('Export');
+  }
+
+  return noteExport;
+}
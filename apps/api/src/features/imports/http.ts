@@ -0,0 +1,38 @@
+import express, { Router } from 'express';
+import { db } from '../../db';
+import { requireAuth } from '../../middleware/auth';
+import { ValidationError } from '../../utils/errors';
+import { createImport } from './service';
+
+const ZIP_CONTENT_TYPES = [
+  'application/zip',
+  'application/x-zip-compressed',
+  'application/octet-stream',
+];
+
+/**
+ * POST /api/v1/imports
+ * Body is the raw zip; the original file name can be sent in X-File-Name.
+ * Responds 202 with the import record - poll imports.getStatus for progress.
+ */
+export const importsUploadRouter: Router = Router();
+
+importsUploadRouter.post(
+  '/',
+  requireAuth,
+  express.raw({ type: ZIP_CONTENT_TYPES, limit: '100mb' }),
+  async (req, res, next) => {
+    try {
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        throw new ValidationError('Request body must be a zip archive');
+      }
+
+      const fileName = (req.header('x-file-name') || 'import.zip').slice(0, 255);
+      const noteImport = await createImport(res.locals.user.id, fileName, req.body, db);
+
+      res.status(202).json(noteImport);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
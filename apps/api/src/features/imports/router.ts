@@ -0,0 +1,16 @@
+import { router, protectedProcedure } from '../../trpc';
+import { GetNoteImportInputSchema, ListNoteImportsInputSchema } from '@loqi-notes/shared-types';
+import { getImportStatus, listImports } from './service';
+
+/**
+ * Zip uploads go through the REST route in ./http; these procedures report progress
+ */
+export const importsRouter = router({
+  getStatus: protectedProcedure.input(GetNoteImportInputSchema).query(async ({ input, ctx }) => {
+    return getImportStatus(ctx.user.id, input.id, ctx.db);
+  }),
+
+  list: protectedProcedure.input(ListNoteImportsInputSchema).query(async ({ input, ctx }) => {
+    return listImports(ctx.user.id, input, ctx.db);
+  }),
+});
@@ -0,0 +1,338 @@
+/**
+ * Note Imports
+ *
+ * Bulk import of zipped Markdown folders and Obsidian vaults. The upload is
+ * stored and processed in batches by the import job; each Markdown file goes
+ * through createNote so links, revisions and embeddings behave like any other note.
+ */
+
+import { randomUUID } from 'crypto';
+import { eq, and, inArray, desc, sql } from 'drizzle-orm';
+import { unzipSync, zipSync } from 'fflate';
+import type { ListNoteImportsInput } from '@loqi-notes/shared-types';
+import { noteImports, notes } from '../../db/schema';
+import { NotFoundError, ValidationError } from '../../utils/errors';
+import { uploadFile, downloadFile, deleteFiles } from '../../lib/storage';
+import { inngest } from '../../lib/inngest';
+import { logger } from '../../lib/logger';
+import { createNote } from '../notes/service';
+import { findOrCreateTags } from '../tags/service';
+import { classifyVaultEntries, findVaultRoot, parseVaultFile } from './vault';
+
+export const MAX_IMPORT_FILES = 5000;
+
+// Caps on the uncompressed sizes the zip declares, checked before anything is inflated
+export const MAX_IMPORT_FILE_BYTES = 5 * 1024 * 1024;
+export const MAX_IMPORT_TOTAL_BYTES = 100 * 1024 * 1024;
+
+export const IMPORT_BATCH_SIZE = 25;
+
+export interface ImportBatch {
+  storagePath: string;
+  paths: string[];
+}
+
+// Local file header signature: "PK\x03\x04"
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+
+function isZip(data: Buffer): boolean {
+  return ZIP_SIGNATURE.every((byte, index) => data[index] === byte);
+}
+
+function entryPath(name: string): string {
+  return name.replace(/\\/g, '/');
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${bytes / (1024 * 1024)} MB`;
+}
+
+/**
+ * Inflate the given files from an archive
+ * Entries declaring more than the per-file cap are never inflated.
+ */
+function extractFiles(archive: Uint8Array, paths: string[]): Record<string, Uint8Array> {
+  const wanted = new Set(paths);
+  const files = unzipSync(archive, {
+    filter: (file) =>
+      wanted.has(entryPath(file.name)) && file.originalSize <= MAX_IMPORT_FILE_BYTES,
+  });
+
+  return Object.fromEntries(Object.entries(files).map(([name, data]) => [entryPath(name), data]));
+}
+
+/**
+ * Client id for notes created by an import, so retried batches don't duplicate notes
+ */
+function importClientId(importId: string, path: string): string {
+  return `import:${importId}:${path}`;
+}
+
+// The storage path is internal to the import job and never returned to clients
+function formatImport(noteImport: any) {
+  return {
+    id: noteImport.id,
+    userId: noteImport.userId,
+    fileName: noteImport.fileName,
+    status: noteImport.status,
+    error: noteImport.error,
+    totalFiles: noteImport.totalFiles,
+    processedFiles: noteImport.processedFiles,
+    createdNotes: noteImport.createdNotes,
+    skippedFiles: noteImport.skippedFiles,
+    fileErrors: noteImport.fileErrors,
+    startedAt: noteImport.startedAt,
+    completedAt: noteImport.completedAt,
+    createdAt: noteImport.createdAt,
+    updatedAt: noteImport.updatedAt,
+  };
+}
+
+async function findImport(importId: string, db: any) {
+  const noteImport = await db.query.noteImports.findFirst({
+    where: eq(noteImports.id, importId),
+  });
+
+  if (!noteImport) {
+    throw new NotFoundError('Import', importId);
+  }
+
+  return noteImport;
+}
+
+/**
+ * Store an uploaded zip and queue it for processing
+ */
+export async function createImport(userId: string, fileName: string, data: Buffer, db: any) {
+  if (!isZip(data)) {
+    throw new ValidationError('Upload must be a zip archive');
+  }
+
+  const id = randomUUID();
+  const storagePath = `imports/${userId}/${id}.zip`;
+
+  await uploadFile(storagePath, data, 'application/zip');
+
+  const [noteImport] = await db
+    .insert(noteImports)
+    .values({ id, userId, fileName, storagePath })
+    .returning();
+
+  await inngest.send({
+    name: 'imports/requested',
+    data: { importId: id, userId },
+  });
+
+  return formatImport(noteImport);
+}
+
+export async function getImportStatus(userId: string, importId: string, db: any) {
+  const noteImport = await db.query.noteImports.findFirst({
+    where: and(eq(noteImports.id, importId), eq(noteImports.userId, userId)),
+  });
+
+  if (!noteImport) {
+    throw new NotFoundError('Import', importId);
+  }
+
+  return formatImport(noteImport);
+}
+
+export async function listImports(userId: string, input: ListNoteImportsInput, db: any) {
+  const rows = await db
+    .select()
+    .from(noteImports)
+    .where(eq(noteImports.userId, userId))
+    .orderBy(desc(noteImports.createdAt))
+    .limit(input.limit);
+
+  return rows.map(formatImport);
+}
+
+/**
+ * List the Markdown files in an import's zip, split them into per-batch archives
+ * and mark the import as processing
+ * The upload is downloaded once here, so batches only fetch their own small archive.
+ */
+export async function prepareImport(importId: string, db: any) {
+  const noteImport = await findImport(importId, db);
+  const archive = new Uint8Array(await downloadFile(noteImport.storagePath));
+
+  // Only the central directory is read here
+  const entrySizes = new Map<string, number>();
+  unzipSync(archive, {
+    filter: (file) => {
+      entrySizes.set(entryPath(file.name), file.originalSize);
+      return false;
+    },
+  });
+
+  const { markdown, skipped } = classifyVaultEntries(Array.from(entrySizes.keys()));
+
+  if (markdown.length === 0) {
+    throw new ValidationError('The zip archive contains no Markdown files');
+  }
+
+  if (markdown.length > MAX_IMPORT_FILES) {
+    throw new ValidationError(`Imports are limited to ${MAX_IMPORT_FILES} Markdown files`, {
+      totalFiles: markdown.length,
+    });
+  }
+
+  const oversized = markdown.filter((path) => entrySizes.get(path)! > MAX_IMPORT_FILE_BYTES);
+  const paths = markdown.filter((path) => entrySizes.get(path)! <= MAX_IMPORT_FILE_BYTES);
+
+  const totalBytes = paths.reduce((sum, path) => sum + entrySizes.get(path)!, 0);
+  if (totalBytes > MAX_IMPORT_TOTAL_BYTES) {
+    throw new ValidationError(
+      `Imports are limited to ${formatMegabytes(MAX_IMPORT_TOTAL_BYTES)} of Markdown`,
+      { totalBytes }
+    );
+  }
+
+  const batches: ImportBatch[] = [];
+  for (let start = 0; start < paths.length; start += IMPORT_BATCH_SIZE) {
+    const batchPaths = paths.slice(start, start + IMPORT_BATCH_SIZE);
+    const storagePath = `imports/${noteImport.userId}/${importId}/batch-${batches.length}.zip`;
+
+    await uploadFile(
+      storagePath,
+      Buffer.from(zipSync(extractFiles(archive, batchPaths))),
+      'application/zip'
+    );
+    batches.push({ storagePath, paths: batchPaths });
+  }
+
+  // Oversized files count as processed right away, with an error each
+  await db
+    .update(noteImports)
+    .set({
+      status: 'processing',
+      totalFiles: markdown.length,
+      processedFiles: oversized.length,
+      skippedFiles: skipped.length,
+      fileErrors: oversized.map((path) => ({
+        path,
+        message: `File is larger than ${formatMegabytes(MAX_IMPORT_FILE_BYTES)}`,
+      })),
+      batchPaths: batches.map((batch) => batch.storagePath),
+      startedAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(eq(noteImports.id, importId));
+
+  return { batches, vaultRoot: findVaultRoot(markdown) };
+}
+
+/**
+ * Create notes for a batch of Markdown files from its archive
+ * Files that already produced a note (retried batch) are counted but not re-created.
+ */
+export async function importFiles(
+  importId: string,
+  batch: ImportBatch,
+  vaultRoot: string,
+  db: any
+) {
+  const noteImport = await findImport(importId, db);
+  const userId = noteImport.userId;
+  const { paths } = batch;
+
+  const archive = await downloadFile(batch.storagePath);
+  const filesByPath = new Map(Object.entries(extractFiles(new Uint8Array(archive), paths)));
+
+  const existing = await db
+    .select({ clientId: notes.clientId })
+    .from(notes)
+    .where(
+      and(
+        eq(notes.userId, userId),
+        inArray(
+          notes.clientId,
+          paths.map((path) => importClientId(importId, path))
+        )
+      )
+    );
+  const alreadyImported = new Set(existing.map((note: any) => note.clientId));
+
+  const decoder = new TextDecoder('utf-8');
+  const fileErrors: { path: string; message: string }[] = [];
+  let createdNotes = 0;
+  let skippedFiles = 0;
+
+  for (const path of paths) {
+    const clientId = importClientId(importId, path);
+    if (alreadyImported.has(clientId)) {
+      createdNotes++;
+      continue;
+    }
+
+    const data = filesByPath.get(path);
+    if (!data) {
+      fileErrors.push({ path, message: 'File not found in archive' });
+      continue;
+    }
+
+    try {
+      const draft = parseVaultFile(path, decoder.decode(data).replace(/^\uFEFF/, ''), vaultRoot);
+      if (!draft.content) {
+        skippedFiles++;
+        continue;
+      }
+
+      const tagIds = await findOrCreateTags(userId, draft.tagNames, db);
+
+      await createNote(
+        userId,
+        {
+          title: draft.title,
+          content: draft.content,
+          hasHandwriting: false,
+          clientId,
+          tagIds,
+        },
+        db
+      );
+      createdNotes++;
+    } catch (error) {
+      logger.warn({ error, importId, path }, 'Failed to import file');
+      fileErrors.push({
+        path,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  await db
+    .update(noteImports)
+    .set({
+      processedFiles: sql`${noteImports.processedFiles} + ${paths.length}`,
+      createdNotes: sql`${noteImports.createdNotes} + ${createdNotes}`,
+      skippedFiles: sql`${noteImports.skippedFiles} + ${skippedFiles}`,
+      fileErrors: sql`${noteImports.fileErrors} || ${JSON.stringify(fileErrors)}::jsonb`,
+      updatedAt: new Date(),
+    })
+    .where(eq(noteImports.id, importId));
+
+  return { createdNotes, skippedFiles, failedFiles: fileErrors.length };
+}
+
+/**
+ * Mark an import as finished and remove the uploaded zip and its batch archives
+ */
+export async function finishImport(importId: string, error: string | null, db: any) {
+  const [noteImport] = await db
+    .update(noteImports)
+    .set({
+      status: error ? 'failed' : 'completed',
+      error,
+      completedAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(eq(noteImports.id, importId))
+    .returning();
+
+  if (noteImport) {
+    await deleteFiles([noteImport.storagePath, ...(noteImport.batchPaths as string[])]);
+  }
+}
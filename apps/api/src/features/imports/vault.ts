@@ -0,0 +1,146 @@
+/**
+ * Markdown Vault Parsing
+ *
+ * Turns the entries of an uploaded zip (plain Markdown folder or Obsidian vault)
+ * into note drafts:
+ * - Each .md file becomes a note titled after the file name
+ * - The folder path becomes a tag (e.g. "CS/Algorithms")
+ * - Front-matter `tags:` become tags as well
+ * - [[wikilinks]] are kept in the content and resolved by the notes service
+ */
+
+export interface NoteDraft {
+  path: string;
+  title: string;
+  content: string;
+  tagNames: string[];
+}
+
+export interface FrontMatter {
+  tags: string[];
+}
+
+const MARKDOWN_EXTENSIONS = /\.(md|markdown)$/i;
+
+// Vault metadata and OS junk that should never become notes
+const IGNORED_SEGMENTS = new Set(['__MACOSX', '.obsidian', '.trash', '.git']);
+
+function isIgnoredPath(path: string): boolean {
+  return path
+    .split('/')
+    .some((segment) => IGNORED_SEGMENTS.has(segment) || segment.startsWith('.'));
+}
+
+/**
+ * Split zip entry paths into importable Markdown files and skipped files
+ * Directory entries are dropped; paths are normalized to forward slashes.
+ */
+export function classifyVaultEntries(entryPaths: string[]): {
+  markdown: string[];
+  skipped: string[];
+} {
+  const markdown: string[] = [];
+  const skipped: string[] = [];
+
+  for (const rawPath of entryPaths) {
+    const path = rawPath.replace(/\\/g, '/');
+    if (path.endsWith('/') || isIgnoredPath(path)) continue;
+
+    if (MARKDOWN_EXTENSIONS.test(path)) {
+      markdown.push(path);
+    } else {
+      skipped.push(path);
+    }
+  }
+
+  markdown.sort();
+  return { markdown, skipped };
+}
+
+/**
+ * Find the single top-level folder most zips wrap the vault in
+ * Returns '' when files live at the root or in several top-level folders.
+ */
+export function findVaultRoot(paths: string[]): string {
+  if (paths.length === 0) return '';
+
+  const [first] = paths;
+  const slash = first.indexOf('/');
+  if (slash === -1) return '';
+
+  const root = first.slice(0, slash + 1);
+  return paths.every((path) => path.startsWith(root)) ? root : '';
+}
+
+function parseTagValue(value: string): string[] {
+  const trimmed = value.trim();
+  const list = trimmed.startsWith('[') && trimmed.endsWith(']') ? trimmed.slice(1, -1) : trimmed;
+  return list.split(',').map(cleanTag).filter(Boolean);
+}
+
+function cleanTag(tag: string): string {
+  return tag
+    .trim()
+    .replace(/^["']|["']$/g, '')
+    .replace(/^#/, '')
+    .trim();
+}
+
+/**
+ * Parse YAML front matter delimited by --- lines
+ * Only the keys the importer needs are read; everything else is ignored.
+ */
+export function parseFrontMatter(text: string): { frontMatter: FrontMatter; body: string } {
+  const normalized = text.replace(/\r\n/g, '\n');
+  const match = normalized.match(/^---\n([\s\S]*?)\n(?:---|\.\.\.)[ \t]*(?:\n|$)/);
+
+  if (!match) {
+    return { frontMatter: { tags: [] }, body: normalized };
+  }
+
+  const tags: string[] = [];
+  let currentKey: string | null = null;
+
+  for (const line of match[1].split('\n')) {
+    const listItem = line.match(/^\s*-\s+(.*)$/);
+    if (listItem && currentKey) {
+      if (currentKey === 'tags' || currentKey === 'tag') {
+        tags.push(...parseTagValue(listItem[1]));
+      }
+      continue;
+    }
+
+    const keyValue = line.match(/^([\w-]+):\s*(.*)$/);
+    if (keyValue) {
+      currentKey = keyValue[1].toLowerCase();
+      if ((currentKey === 'tags' || currentKey === 'tag') && keyValue[2]) {
+        tags.push(...parseTagValue(keyValue[2]));
+      }
+    }
+  }
+
+  return {
+    frontMatter: { tags },
+    body: normalized.slice(match[0].length),
+  };
+}
+
+/**
+ * Build a note draft from a Markdown file in the vault
+ */
+export function parseVaultFile(path: string, text: string, vaultRoot: string): NoteDraft {
+  const relativePath = path.startsWith(vaultRoot) ? path.slice(vaultRoot.length) : path;
+  const segments = relativePath.split('/');
+  const fileName = segments.pop() ?? relativePath;
+  const folder = segments.join('/');
+
+  const { frontMatter, body } = parseFrontMatter(text);
+  const tagNames = [...(folder ? [folder] : []), ...frontMatter.tags];
+
+  return {
+    path,
+    title: fileName.replace(MARKDOWN_EXTENSIONS, '').trim() || 'Untitled',
+    content: body.trim(),
+    tagNames: Array.from(new Set(tagNames)),
+  };
+}
@@ -0,0 +1,60 @@
+import { z } from 'zod';
+import { router, protectedProcedure } from '../../trpc';
+import {
+  createNotebook,
+  listNotebooks,
+  findNotebook,
+  updateNotebook,
+  moveNotebook,
+  reorderNotebooks,
+  deleteNotebook,
+  moveNotesToNotebook,
+} from './service';
+import {
+  CreateNotebookInputSchema,
+  UpdateNotebookInputSchema,
+  MoveNotebookInputSchema,
+  ReorderNotebooksInputSchema,
+  DeleteNotebookInputSchema,
+  MoveNotesToNotebookInputSchema,
+} from '@loqi-notes/shared-types';
+
+export const notebooksRouter = router({
+  create: protectedProcedure.input(CreateNotebookInputSchema).mutation(async ({ input, ctx }) => {
+    return createNotebook(ctx.user.id, input, ctx.db);
+  }),
+
+  list: protectedProcedure.query(async ({ ctx }) => {
+    return listNotebooks(ctx.user.id, ctx.db);
+  }),
+
+  getById: protectedProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .query(async ({ input, ctx }) => {
+      return findNotebook(ctx.user.id, input.id, ctx.db);
+    }),
+
+  update: protectedProcedure.input(UpdateNotebookInputSchema).mutation(async ({ input, ctx }) => {
+    return updateNotebook(ctx.user.id, input, ctx.db);
+  }),
+
+  move: protectedProcedure.input(MoveNotebookInputSchema).mutation(async ({ input, ctx }) => {
+    return moveNotebook(ctx.user.id, input, ctx.db);
+  }),
+
+  reorder: protectedProcedure
+    .input(ReorderNotebooksInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      return reorderNotebooks(ctx.user.id, input, ctx.db);
+    }),
+
+  delete: protectedProcedure.input(DeleteNotebookInputSchema).mutation(async ({ input, ctx }) => {
+    return deleteNotebook(ctx.user.id, input, ctx.db);
+  }),
+
+  moveNotes: protectedProcedure
+    .input(MoveNotesToNotebookInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      return moveNotesToNotebook(ctx.user.id, input, ctx.db);
+    }),
+});
@@ -0,0 +1,338 @@
+import { eq, and, isNull, inArray, asc, sql } from 'drizzle-orm';
+import type {
+  CreateNotebookInput,
+  UpdateNotebookInput,
+  MoveNotebookInput,
+  ReorderNotebooksInput,
+  DeleteNotebookInput,
+  MoveNotesToNotebookInput,
+} from '@loqi-notes/shared-types';
+import { notebooks, notes } from '../../db/schema';
+import { NotFoundError, ValidationError } from '../../utils/errors';
+import { publishNoteChange } from '../../lib/realtime';
+import { trashNotes, bulkMoveToNotebook } from '../notes/bulk';
+
+export async function findNotebook(userId: string, notebookId: string, db: any) {
+  const notebook = await db.query.notebooks.findFirst({
+    where: and(
+      eq(notebooks.id, notebookId),
+      eq(notebooks.userId, userId),
+      isNull(notebooks.deletedAt)
+    ),
+  });
+
+  if (!notebook) {
+    throw new NotFoundError('Notebook', notebookId);
+  }
+
+  return notebook;
+}
+
+/**
+ * Ids of a notebook and all notebooks nested under it
+ * The walk follows the root's owner, so it also covers notebooks shared with the
+ * caller; callers check access to the root themselves.
+ */
+export async function getNotebookSubtreeIds(notebookId: string, db: any): Promise<string[]> {
+  const rows = await db.execute(sql`
+    WITH RECURSIVE subtree AS (
+      SELECT id, user_id FROM ${notebooks}
+      WHERE id = ${notebookId} AND deleted_at IS NULL
+      UNION ALL
+      SELECT child.id, child.user_id FROM ${notebooks} child
+      INNER JOIN subtree ON child.parent_id = subtree.id AND child.user_id = subtree.user_id
+      WHERE child.deleted_at IS NULL
+    )
+    SELECT id FROM subtree
+  `);
+
+  return rows.map((row: any) => row.id);
+}
+
+/**
+ * Move restored notes out of notebooks that were deleted while they were in the trash
+ * Each note goes to the closest ancestor notebook that still exists, or the top level.
+ */
+export async function moveOutOfDeletedNotebooks(
+  userId: string,
+  restoredNotes: { id: string; notebookId: string | null }[],
+  db: any
+) {
+  const notebookIds = Array.from(
+    new Set(restoredNotes.map((note) => note.notebookId).filter((id): id is string => !!id))
+  );
+  if (notebookIds.length === 0) {
+    return;
+  }
+
+  // Walk up from each notebook until a live one is found
+  const rows = await db.execute(sql`
+    WITH RECURSIVE chain AS (
+      SELECT id AS start_id, id, parent_id, deleted_at, 0 AS depth FROM ${notebooks}
+      WHERE id IN ${notebookIds} AND user_id = ${userId}
+      UNION ALL
+      SELECT chain.start_id, nb.id, nb.parent_id, nb.deleted_at, chain.depth + 1
+      FROM ${notebooks} nb
+      INNER JOIN chain ON nb.id = chain.parent_id
+      WHERE chain.deleted_at IS NOT NULL
+    )
+    SELECT DISTINCT ON (start_id) start_id, id FROM chain
+    WHERE deleted_at IS NULL
+    ORDER BY start_id, depth
+  `);
+  const liveNotebookById = new Map<string, string>(rows.map((row: any) => [row.start_id, row.id]));
+
+  for (const notebookId of notebookIds) {
+    const target = liveNotebookById.get(notebookId) ?? null;
+    if (target === notebookId) continue;
+
+    const noteIds = restoredNotes
+      .filter((note) => note.notebookId === notebookId)
+      .map((note) => note.id);
+
+    await db
+      .update(notes)
+      .set({ notebookId: target, updatedAt: new Date() })
+      .where(and(eq(notes.userId, userId), inArray(notes.id, noteIds)));
+  }
+}
+
+function parentCondition(parentId: string | null) {
+  return parentId ? eq(notebooks.parentId, parentId) : isNull(notebooks.parentId);
+}
+
+async function listSiblingIds(userId: string, parentId: string | null, db: any) {
+  const rows = await db
+    .select({ id: notebooks.id })
+    .from(notebooks)
+    .where(
+      and(eq(notebooks.userId, userId), parentCondition(parentId), isNull(notebooks.deletedAt))
+    )
+    .orderBy(asc(notebooks.position), asc(notebooks.createdAt));
+
+  return rows.map((row: any) => row.id as string);
+}
+
+async function writePositions(orderedIds: string[], db: any) {
+  for (const [position, id] of orderedIds.entries()) {
+    await db.update(notebooks).set({ position, updatedAt: new Date() }).where(eq(notebooks.id, id));
+  }
+}
+
+export async function createNotebook(userId: string, input: CreateNotebookInput, db: any) {
+  const parentId = input.parentId ?? null;
+  if (parentId) {
+    await findNotebook(userId, parentId, db);
+  }
+
+  const siblings = await listSiblingIds(userId, parentId, db);
+
+  const [notebook] = await db
+    .insert(notebooks)
+    .values({
+      userId,
+      parentId,
+      name: input.name,
+      color: input.color,
+      icon: input.icon,
+      position: siblings.length,
+    })
+    .returning();
+
+  return notebook;
+}
+
+/**
+ * All notebooks as a flat list ordered by position; clients build the tree from parentId
+ */
+export async function listNotebooks(userId: string, db: any) {
+  const notebooksList = await db
+    .select()
+    .from(notebooks)
+    .where(and(eq(notebooks.userId, userId), isNull(notebooks.deletedAt)))
+    .orderBy(asc(notebooks.position), asc(notebooks.createdAt));
+
+  const counts = await db
+    .select({ notebookId: notes.notebookId, count: sql<number>`count(*)::int` })
+    .from(notes)
+    .where(and(eq(notes.userId, userId), isNull(notes.deletedAt)))
+    .groupBy(notes.notebookId);
+  const countByNotebook = new Map(counts.map((row: any) => [row.notebookId, row.count]));
+
+  return notebooksList.map((notebook: any) => ({
+    ...notebook,
+    notesCount: countByNotebook.get(notebook.id) ?? 0,
+  }));
+}
+
+export async function updateNotebook(userId: string, input: UpdateNotebookInput, db: any) {
+  const { id, ...updateData } = input;
+
+  const [updated] = await db
+    .update(notebooks)
+    .set({
+      ...updateData,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(notebooks.id, id), eq(notebooks.userId, userId), isNull(notebooks.deletedAt)))
+    .returning();
+
+  if (!updated) {
+    throw new NotFoundError('Notebook', id);
+  }
+
+  return updated;
+}
+
+export async function moveNotebook(userId: string, input: MoveNotebookInput, db: any) {
+  const { id, parentId } = input;
+
+  return db.transaction(async (tx: any) => {
+    await findNotebook(userId, id, tx);
+
+    if (parentId) {
+      await findNotebook(userId, parentId, tx);
+
+      const subtree = await getNotebookSubtreeIds(id, tx);
+      if (subtree.includes(parentId)) {
+        throw new ValidationError('A notebook cannot be moved into itself or one of its children');
+      }
+    }
+
+    const siblings = (await listSiblingIds(userId, parentId, tx)).filter(
+      (siblingId: string) => siblingId !== id
+    );
+    const position = Math.min(input.position ?? siblings.length, siblings.length);
+    siblings.splice(position, 0, id);
+
+    await tx.update(notebooks).set({ parentId, updatedAt: new Date() }).where(eq(notebooks.id, id));
+    await writePositions(siblings, tx);
+
+    return findNotebook(userId, id, tx);
+  });
+}
+
+/**
+ * Reorder the children of a notebook (or the top level)
+ * Siblings missing from `orderedIds` keep their relative order after the listed ones.
+ */
+export async function reorderNotebooks(userId: string, input: ReorderNotebooksInput, db: any) {
+  return db.transaction(async (tx: any) => {
+    const siblings = await listSiblingIds(userId, input.parentId, tx);
+    const siblingSet = new Set(siblings);
+
+    const unknown = input.orderedIds.find((id) => !siblingSet.has(id));
+    if (unknown) {
+      throw new ValidationError('Only notebooks with the same parent can be reordered', {
+        notebookId: unknown,
+      });
+    }
+
+    const listed = Array.from(new Set(input.orderedIds));
+    const listedSet = new Set(listed);
+    const ordered = [...listed, ...siblings.filter((id: string) => !listedSet.has(id))];
+
+    await writePositions(ordered, tx);
+
+    return { success: true, orderedIds: ordered };
+  });
+}
+
+/**
+ * Delete a notebook, either moving its contents up a level or trashing the whole subtree
+ * Moved and trashed notes are published once the transaction has committed.
+ */
+export async function deleteNotebook(userId: string, input: DeleteNotebookInput, db: any) {
+  const { result, movedIds, trashedIds } = await db.transaction(async (tx: any) => {
+    const notebook = await findNotebook(userId, input.id, tx);
+
+    if (input.mode === 'reparent') {
+      // Children and notes move up one level, after the parent's existing children
+      const parentSiblings = (await listSiblingIds(userId, notebook.parentId, tx)).filter(
+        (id: string) => id !== notebook.id
+      );
+      const children = await listSiblingIds(userId, notebook.id, tx);
+
+      await tx
+        .update(notebooks)
+        .set({ parentId: notebook.parentId, updatedAt: new Date() })
+        .where(and(eq(notebooks.parentId, notebook.id), isNull(notebooks.deletedAt)));
+      await writePositions([...parentSiblings, ...children], tx);
+
+      const movedNotes = await tx
+        .update(notes)
+        .set({ notebookId: notebook.parentId, updatedAt: new Date() })
+        .where(and(eq(notes.userId, userId), eq(notes.notebookId, notebook.id)))
+        .returning({ id: notes.id });
+
+      await tx
+        .update(notebooks)
+        .set({ deletedAt: new Date(), updatedAt: new Date() })
+        .where(eq(notebooks.id, notebook.id));
+
+      return {
+        result: {
+          success: true,
+          deletedNotebooks: 1,
+          deletedNotes: 0,
+          movedNotes: movedNotes.length,
+        },
+        movedIds: movedNotes.map((note: any) => note.id),
+        trashedIds: [],
+      };
+    }
+
+    // Cascade: trash the whole subtree and every live note in it
+    const subtree = await getNotebookSubtreeIds(notebook.id, tx);
+    const notesInSubtree = await tx
+      .select({ id: notes.id })
+      .from(notes)
+      .where(
+        and(eq(notes.userId, userId), inArray(notes.notebookId, subtree), isNull(notes.deletedAt))
+      );
+
+    const deleted =
+      notesInSubtree.length > 0
+        ? await trashNotes(
+            userId,
+            notesInSubtree.map((note: any) => note.id),
+            tx
+          )
+        : { result: { succeeded: 0 }, trashedIds: [] };
+
+    await tx
+      .update(notebooks)
+      .set({ deletedAt: new Date(), updatedAt: new Date() })
+      .where(inArray(notebooks.id, subtree));
+
+    return {
+      result: {
+        success: true,
+        deletedNotebooks: subtree.length,
+        deletedNotes: deleted.result.succeeded,
+        movedNotes: 0,
+      },
+      movedIds: [],
+      trashedIds: deleted.trashedIds,
+    };
+  });
+
+  movedIds.forEach((noteId: string) => publishNoteChange(userId, 'updated', noteId));
+  trashedIds.forEach((noteId: string) => publishNoteChange(userId, 'deleted', noteId));
+
+  return result;
+}
+
+export async function moveNotesToNotebook(
+  userId: string,
+  input: MoveNotesToNotebookInput,
+  db: any
+) {
+  if (input.notebookId) {
+    await findNotebook(userId, input.notebookId, db);
+  }
+
+  const result = await bulkMoveToNotebook(userId, input, db);
+
+  return { success: true, movedCount: result.succeeded, ...result };
+}
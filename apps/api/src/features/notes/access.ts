@@ -0,0 +1,135 @@
+/**
+ * Note Access
+ *
+ * Resolves what a user may do with a note: owners have full access, other
+ * users get the highest role granted to them in note_permissions, either on
+ * the note itself or on its notebook (or any notebook above it).
+ *
+ * Reading a note, its history, outline, blocks and links works for every role,
+ * and shared notes show up in listing, search and sync pulls. Some operations
+ * deliberately stay with the owner and only look at the owner's notes:
+ * deleting, restoring and purging (trash and bulk actions), tagging, moving
+ * between notebooks, sharing, sync pushes and account exports.
+ */
+
+import { eq, or, sql } from 'drizzle-orm';
+import type { AnyColumn } from 'drizzle-orm';
+import type { NoteRole } from '@loqi-notes/shared-types';
+import { notes, notebooks, notePermissions } from '../../db/schema';
+import { NotFoundError, ForbiddenError } from '../../utils/errors';
+
+export type NoteAccessRole = NoteRole | 'owner';
+
+const ROLE_RANK: Record<NoteAccessRole, number> = {
+  viewer: 1,
+  commenter: 2,
+  editor: 3,
+  owner: 4,
+};
+
+export function hasRole(role: NoteAccessRole, minRole: NoteAccessRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[minRole];
+}
+
+/**
+ * Subquery of the ids of notes shared with a user, for `notes.id IN (...)` filters
+ * With `searchableOnly`, only grants the user opted into AI retrieval count.
+ */
+export function sharedNoteIdsQuery(userId: string, options: { searchableOnly?: boolean } = {}) {
+  const searchable = options.searchableOnly ? sql`AND p.include_in_search` : sql``;
+
+  return sql`(
+    WITH RECURSIVE shared_notebooks AS (
+      SELECT p.notebook_id AS id FROM ${notePermissions} p
+      WHERE p.user_id = ${userId} AND p.notebook_id IS NOT NULL ${searchable}
+      UNION
+      SELECT nb.id FROM ${notebooks} nb
+      INNER JOIN shared_notebooks ON nb.parent_id = shared_notebooks.id
+      WHERE nb.deleted_at IS NULL
+    )
+    SELECT p.note_id FROM ${notePermissions} p
+    WHERE p.user_id = ${userId} AND p.note_id IS NOT NULL ${searchable}
+    UNION
+    SELECT n.id FROM ${notes} n
+    INNER JOIN shared_notebooks ON n.notebook_id = shared_notebooks.id
+  )`;
+}
+
+/**
+ * Condition matching notes the user owns or that were shared with them
+ * `id` and `ownerId` are the columns of the notes table (or an alias of it) to check.
+ */
+export function accessibleNoteCondition(
+  userId: string,
+  columns: { id: AnyColumn; ownerId: AnyColumn }
+) {
+  return or(
+    sql`${columns.ownerId} = ${userId}`,
+    sql`${columns.id} IN ${sharedNoteIdsQuery(userId)}`
+  )!;
+}
+
+/**
+ * Load a note the user can access, with their role on it
+ * Notes the user can't see at all are reported as not found.
+ */
+export async function getNoteAccess(userId: string, noteId: string, db: any) {
+  const note = await db.query.notes.findFirst({
+    where: eq(notes.id, noteId),
+  });
+
+  if (!note) {
+    throw new NotFoundError('Note', noteId);
+  }
+
+  if (note.userId === userId) {
+    return { note, role: 'owner' as NoteAccessRole };
+  }
+
+  if (note.deletedAt) {
+    throw new NotFoundError('Note', noteId);
+  }
+
+  const grants = await db.execute(sql`
+    WITH RECURSIVE ancestors AS (
+      SELECT id, parent_id FROM ${notebooks}
+      WHERE id = ${note.notebookId} AND deleted_at IS NULL
+      UNION ALL
+      SELECT nb.id, nb.parent_id FROM ${notebooks} nb
+      INNER JOIN ancestors ON nb.id = ancestors.parent_id
+      WHERE nb.deleted_at IS NULL
+    )
+    SELECT role FROM ${notePermissions}
+    WHERE user_id = ${userId}
+      AND (note_id = ${note.id} OR notebook_id IN (SELECT id FROM ancestors))
+  `);
+
+  const roles = grants.map((grant: any) => grant.role as NoteRole);
+  if (roles.length === 0) {
+    throw new NotFoundError('Note', noteId);
+  }
+
+  const role = roles.reduce((best: NoteAccessRole, current: NoteAccessRole) =>
+    hasRole(current, best) ? current : best
+  );
+
+  return { note, role };
+}
+
+/**
+ * Load a note and check the user has at least `minRole` on it
+ */
+export async function requireNoteAccess(
+  userId: string,
+  noteId: string,
+  minRole: NoteAccessRole,
+  db: any
+) {
+  const access = await getNoteAccess(userId, noteId, db);
+
+  if (!hasRole(access.role, minRole)) {
+    throw new ForbiddenError(`This action requires ${minRole} access to the note`);
+  }
+
+  return access;
+}
@@ -0,0 +1,228 @@
+/**
+ * Note Attachments
+ *
+ * Images uploaded to a note, typically photos or scans of handwritten pages.
+ * Each upload is OCR'd by the OCR job; once a note has attachments, its
+ * ocrText is the combined text of all of them and is embedded with the note.
+ */
+
+import { randomUUID } from 'crypto';
+import { eq, and, asc } from 'drizzle-orm';
+import { noteAttachments, notes } from '../../db/schema';
+import { NotFoundError, ValidationError } from '../../utils/errors';
+import { uploadFile, downloadFile, deleteFiles } from '../../lib/storage';
+import { inngest } from '../../lib/inngest';
+import { logger } from '../../lib/logger';
+import type { OcrEngine } from '../../lib/ocr';
+import { requireNoteAccess } from './access';
+import { emitNoteEvent } from './service';
+
+export const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+
+// Image types Tesseract can read, with the extension used in storage
+export const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/tiff': 'tiff',
+  'image/bmp': 'bmp',
+  'image/gif': 'gif',
+};
+
+// The storage path is internal and never returned to clients
+function formatAttachment(attachment: any) {
+  return {
+    id: attachment.id,
+    noteId: attachment.noteId,
+    uploadedBy: attachment.uploadedBy,
+    fileName: attachment.fileName,
+    mimeType: attachment.mimeType,
+    sizeBytes: attachment.sizeBytes,
+    ocrStatus: attachment.ocrStatus,
+    ocrText: attachment.ocrText,
+    ocrConfidence: attachment.ocrConfidence,
+    ocrError: attachment.ocrError,
+    processedAt: attachment.processedAt,
+    createdAt: attachment.createdAt,
+  };
+}
+
+async function findAttachment(attachmentId: string, db: any) {
+  const attachment = await db.query.noteAttachments.findFirst({
+    where: eq(noteAttachments.id, attachmentId),
+  });
+
+  if (!attachment) {
+    throw new NotFoundError('Attachment', attachmentId);
+  }
+
+  return attachment;
+}
+
+/**
+ * Store an uploaded image and queue it for OCR
+ * Owners and editors can attach images.
+ */
+export async function createImageAttachment(
+  userId: string,
+  noteId: string,
+  file: { fileName: string; mimeType: string; data: Buffer },
+  db: any
+) {
+  const { note } = await requireNoteAccess(userId, noteId, 'editor', db);
+
+  if (note.deletedAt) {
+    throw new ValidationError('Cannot attach images to a deleted note');
+  }
+
+  const extension = IMAGE_EXTENSIONS[file.mimeType];
+  if (!extension) {
+    throw new ValidationError('Unsupported image type', {
+      mimeType: file.mimeType,
+      supported: Object.keys(IMAGE_EXTENSIONS),
+    });
+  }
+
+  if (file.data.length > MAX_IMAGE_BYTES) {
+    throw new ValidationError(`Images can be at most ${MAX_IMAGE_BYTES / 1024 / 1024}MB`);
+  }
+
+  const id = randomUUID();
+  const storagePath = `attachments/${note.userId}/${note.id}/${id}.${extension}`;
+
+  await uploadFile(storagePath, file.data, file.mimeType);
+
+  let attachment: any;
+  try {
+    [attachment] = await db
+      .insert(noteAttachments)
+      .values({
+        id,
+        noteId: note.id,
+        userId: note.userId,
+        uploadedBy: userId,
+        fileName: file.fileName,
+        mimeType: file.mimeType,
+        sizeBytes: file.data.length,
+        storagePath,
+      })
+      .returning();
+  } catch (error) {
+    // Without a row nothing would ever delete the image
+    try {
+      await deleteFiles([storagePath]);
+    } catch (cleanupError) {
+      logger.warn({ error: cleanupError, storagePath }, 'Failed to delete attachment upload');
+    }
+    throw error;
+  }
+
+  await inngest.send({
+    name: 'attachments/ocr-requested',
+    data: { attachmentId: id, noteId: note.id, userId: note.userId },
+  });
+
+  return formatAttachment(attachment);
+}
+
+export async function listAttachments(userId: string, noteId: string, db: any) {
+  await requireNoteAccess(userId, noteId, 'viewer', db);
+
+  const attachments = await db
+    .select()
+    .from(noteAttachments)
+    .where(eq(noteAttachments.noteId, noteId))
+    .orderBy(asc(noteAttachments.createdAt));
+
+  return attachments.map(formatAttachment);
+}
+
+/**
+ * Rebuild a note's ocrText from its OCR'd attachments and re-embed it if it changed
+ */
+async function refreshNoteOcrText(noteId: string, db: any) {
+  const recognized = await db
+    .select({ ocrText: noteAttachments.ocrText })
+    .from(noteAttachments)
+    .where(and(eq(noteAttachments.noteId, noteId), eq(noteAttachments.ocrStatus, 'completed')))
+    .orderBy(asc(noteAttachments.createdAt));
+
+  const texts = recognized.map((row: any) => row.ocrText?.trim()).filter(Boolean);
+  const ocrText = texts.length > 0 ? texts.join('\n\n') : null;
+
+  const current = await db.query.notes.findFirst({
+    where: eq(notes.id, noteId),
+  });
+
+  if (!current || current.ocrText === ocrText) {
+    return current;
+  }
+
+  // Derived from the images, so it doesn't bump the version the editor is working against
+  const [note] = await db
+    .update(notes)
+    .set({ ocrText, hasHandwriting: ocrText !== null, updatedAt: new Date() })
+    .where(eq(notes.id, noteId))
+    .returning();
+
+  if (!note.deletedAt) {
+    emitNoteEvent('notes/updated', note, note.userId);
+  }
+
+  return note;
+}
+
+export async function deleteAttachment(userId: string, attachmentId: string, db: any) {
+  const attachment = await findAttachment(attachmentId, db);
+  await requireNoteAccess(userId, attachment.noteId, 'editor', db);
+
+  await db.delete(noteAttachments).where(eq(noteAttachments.id, attachmentId));
+  await deleteFiles([attachment.storagePath]);
+
+  await refreshNoteOcrText(attachment.noteId, db);
+
+  return { success: true };
+}
+
+/**
+ * Run OCR on an attachment and fold the text into its note
+ */
+export async function runAttachmentOcr(attachmentId: string, engine: OcrEngine, db: any) {
+  const attachment = await findAttachment(attachmentId, db);
+
+  await db
+    .update(noteAttachments)
+    .set({ ocrStatus: 'processing', ocrError: null, updatedAt: new Date() })
+    .where(eq(noteAttachments.id, attachmentId));
+
+  const image = await downloadFile(attachment.storagePath);
+  const result = await engine.recognize(image, attachment.mimeType);
+
+  await db
+    .update(noteAttachments)
+    .set({
+      ocrStatus: 'completed',
+      ocrText: result.text,
+      ocrConfidence: result.confidence,
+      ocrEngine: engine.name,
+      processedAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(eq(noteAttachments.id, attachmentId));
+
+  logger.info(
+    { attachmentId, noteId: attachment.noteId, engine: engine.name, length: result.text.length },
+    'Recognized text in note attachment'
+  );
+
+  await refreshNoteOcrText(attachment.noteId, db);
+
+  return { attachmentId, noteId: attachment.noteId, characters: result.text.length };
+}
+
+export async function failAttachmentOcr(attachmentId: string, error: string, db: any) {
+  await db
+    .update(noteAttachments)
+    .set({ ocrStatus: 'failed', ocrError: error, updatedAt: new Date() })
+    .where(eq(noteAttachments.id, attachmentId));
+}
@@ -0,0 +1,360 @@
+/**
+ * Note Blocks
+ *
+ * Every paragraph, list item and heading of a note gets a short block id that
+ * `![[note#^block]]` references, deep links and chunk citations point at.
+ * - Ids typed in the content (`Some paragraph ^my-id`) are always used as-is
+ * - Other ids are carried over to the matching block of the new content on
+ *   every edit: unchanged blocks keep theirs, and so do edited blocks that
+ *   stay mostly the same and don't move past an unchanged block
+ */
+
+import { randomBytes } from 'crypto';
+import { eq, asc } from 'drizzle-orm';
+import type { GetNoteBlockInput, NoteBlockType } from '@loqi-notes/shared-types';
+import { noteBlocks } from '../../db/schema';
+import { NotFoundError } from '../../utils/errors';
+import { diffLineArrays } from './diff';
+import { toMarkdown, stripBlockIds } from './normalize';
+import { requireNoteAccess } from './access';
+
+export interface ParsedBlock {
+  type: NoteBlockType;
+  markdown: string;
+  text: string;
+  startLine: number;
+  endLine: number; // Exclusive
+  explicitId: string | null;
+}
+
+interface IdentifiedBlock {
+  blockId: string;
+  type: string;
+  text: string;
+}
+
+// `^id` at the end of a block's last line, as in Obsidian
+const BLOCK_ID_MARKER_PATTERN = / \^([A-Za-z0-9-]{1,64})[ \t]*$/;
+
+const FENCE_PATTERN = /^\s{0,3}(`{3,}|~{3,})/;
+const HEADING_PATTERN = /^#{1,6}\s+\S/;
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d{1,9}[.)])\s+/;
+
+// Edited blocks keep their id when at least this share of their words is unchanged
+const SIMILARITY_THRESHOLD = 0.5;
+
+const BLOCK_ID_LENGTH = 6;
+const BLOCK_ID_ALPHABET = 'abcdefghijklmnopqrstuvwxyz0123456789';
+
+/**
+ * Block text without Markdown markers and with collapsed whitespace
+ */
+function blockText(type: NoteBlockType, lines: string[]): string {
+  return lines
+    .map((line, index) => {
+      let text = line.replace(BLOCK_ID_MARKER_PATTERN, '');
+      if (index === 0 && type === 'heading') {
+        text = text.replace(/^#{1,6}\s+/, '').replace(/\s+#+\s*$/, '');
+      } else if (index === 0 && type === 'listItem') {
+        text = text.replace(LIST_ITEM_PATTERN, '').replace(/^\[[ xX]\]\s+/, '');
+      } else {
+        text = text.replace(/^\s*(>\s?)+/, '');
+      }
+      return text;
+    })
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Split Markdown into paragraphs, list items and headings, in order
+ * Fenced code blocks are skipped; nested list items are blocks of their own.
+ */
+export function parseBlocks(markdown: string): ParsedBlock[] {
+  const lines = markdown.split('\n');
+  const blocks: ParsedBlock[] = [];
+  let current: { type: NoteBlockType; startLine: number; lines: string[] } | null = null;
+
+  const flush = () => {
+    if (!current) return;
+
+    const lastLine = current.lines[current.lines.length - 1];
+    const idMatch = lastLine.match(BLOCK_ID_MARKER_PATTERN);
+    const text = blockText(current.type, current.lines);
+
+    if (text) {
+      blocks.push({
+        type: current.type,
+        markdown: current.lines.join('\n'),
+        text,
+        startLine: current.startLine,
+        endLine: current.startLine + current.lines.length,
+        explicitId: idMatch ? idMatch[1] : null,
+      });
+    }
+
+    current = null;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fenceMatch = line.match(FENCE_PATTERN);
+    if (fenceMatch) {
+      flush();
+      const marker = fenceMatch[1];
+      const closing = new RegExp(
+        `^\\s{0,3}${marker[0] === '`' ? '`' : '~'}{${marker.length},}\\s*$`
+      );
+      while (i + 1 < lines.length && !closing.test(lines[i + 1])) {
+        i++;
+      }
+      i++;
+      continue;
+    }
+
+    if (!line.trim()) {
+      flush();
+      continue;
+    }
+
+    if (HEADING_PATTERN.test(line)) {
+      flush();
+      current = { type: 'heading', startLine: i, lines: [line] };
+      flush();
+      continue;
+    }
+
+    if (LIST_ITEM_PATTERN.test(line)) {
+      flush();
+      current = { type: 'listItem', startLine: i, lines: [line] };
+      continue;
+    }
+
+    // Continuation of a paragraph or list item (including lazy continuation lines)
+    if (current) {
+      current.lines.push(line);
+    } else {
+      current = { type: 'paragraph', startLine: i, lines: [line] };
+    }
+  }
+
+  flush();
+
+  return blocks;
+}
+
+function similarity(a: string, b: string): number {
+  const wordsA = new Set(a.toLowerCase().split(' ').filter(Boolean));
+  const wordsB = new Set(b.toLowerCase().split(' ').filter(Boolean));
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+
+  let shared = 0;
+  for (const word of wordsA) {
+    if (wordsB.has(word)) shared++;
+  }
+
+  return shared / Math.max(wordsA.size, wordsB.size);
+}
+
+function generateBlockId(taken: Set<string>): string {
+  for (;;) {
+    const bytes = randomBytes(BLOCK_ID_LENGTH);
+    const id = Array.from(bytes, (byte) => BLOCK_ID_ALPHABET[byte % BLOCK_ID_ALPHABET.length]).join(
+      ''
+    );
+    if (!taken.has(id)) {
+      taken.add(id);
+      return id;
+    }
+  }
+}
+
+/**
+ * Pick an id for each parsed block, reusing ids of the previous version's blocks
+ */
+export function assignBlockIds(previous: IdentifiedBlock[], blocks: ParsedBlock[]): string[] {
+  const ids: (string | undefined)[] = Array.from({ length: blocks.length }, () => undefined);
+  const taken = new Set<string>();
+
+  // Typed ids win; a duplicate typed id only counts the first time
+  blocks.forEach((block, index) => {
+    if (block.explicitId && !taken.has(block.explicitId)) {
+      ids[index] = block.explicitId;
+      taken.add(block.explicitId);
+    }
+  });
+
+  const candidates = previous.filter((block) => !taken.has(block.blockId));
+  const key = (block: { type: string; text: string }) => `${block.type}:${block.text}`;
+  const hunks = diffLineArrays(candidates.map(key), blocks.map(key));
+
+  let previousIndex = 0;
+  let nextIndex = 0;
+  let removed: number[] = [];
+  let added: number[] = [];
+
+  const reuse = (blockIndex: number, candidateIndex: number) => {
+    if (ids[blockIndex] === undefined) {
+      ids[blockIndex] = candidates[candidateIndex].blockId;
+      taken.add(candidates[candidateIndex].blockId);
+    }
+  };
+
+  // Within a changed region, an added block takes the id of a similar removed one, in order
+  const pairChanged = () => {
+    let searchFrom = 0;
+    for (const blockIndex of added) {
+      for (let k = searchFrom; k < removed.length; k++) {
+        const candidate = candidates[removed[k]];
+        if (
+          candidate.type === blocks[blockIndex].type &&
+          similarity(candidate.text, blocks[blockIndex].text) >= SIMILARITY_THRESHOLD
+        ) {
+          reuse(blockIndex, removed[k]);
+          searchFrom = k + 1;
+          break;
+        }
+      }
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const hunk of hunks) {
+    for (let line = 0; line < hunk.lines.length; line++) {
+      if (hunk.type === 'equal') {
+        if (removed.length > 0 || added.length > 0) pairChanged();
+        reuse(nextIndex++, previousIndex++);
+      } else if (hunk.type === 'removed') {
+        removed.push(previousIndex++);
+      } else {
+        added.push(nextIndex++);
+      }
+    }
+  }
+  pairChanged();
+
+  return ids.map((id) => id ?? generateBlockId(taken));
+}
+
+/**
+ * Rebuild a note's blocks from its Markdown, keeping ids of matching blocks
+ */
+export async function syncNoteBlocks(note: any, db: any): Promise<void> {
+  const previous = await db
+    .select({ blockId: noteBlocks.blockId, type: noteBlocks.type, text: noteBlocks.text })
+    .from(noteBlocks)
+    .where(eq(noteBlocks.noteId, note.id))
+    .orderBy(asc(noteBlocks.position));
+
+  const blocks = parseBlocks(toMarkdown(note.content));
+  const ids = assignBlockIds(previous, blocks);
+
+  await db.delete(noteBlocks).where(eq(noteBlocks.noteId, note.id));
+
+  if (blocks.length === 0) {
+    return;
+  }
+
+  await db.insert(noteBlocks).values(
+    blocks.map((block, index) => ({
+      noteId: note.id,
+      blockId: ids[index],
+      userId: note.userId,
+      type: block.type,
+      markdown: block.markdown,
+      text: block.text,
+      position: index,
+      startLine: block.startLine,
+      endLine: block.endLine,
+    }))
+  );
+}
+
+/**
+ * Blocks each chunk was cut from, matched by text since the chunker doesn't keep offsets
+ * A block belongs to a chunk when the chunk contains it, or when the chunk is a
+ * piece of a block that was too long to embed in one go.
+ */
+export function mapChunksToBlocks(
+  chunks: string[],
+  blocks: { blockId: string; markdown: string }[]
+): string[][] {
+  const normalize = (text: string) => stripBlockIds(text).replace(/\s+/g, ' ').trim();
+  const normalizedBlocks = blocks.map((block) => ({
+    blockId: block.blockId,
+    markdown: normalize(block.markdown),
+  }));
+
+  return chunks.map((chunk) => {
+    const content = normalize(chunk);
+    const opening = content.slice(0, 80);
+
+    return normalizedBlocks
+      .filter(
+        (block) =>
+          block.markdown && (content.includes(block.markdown) || block.markdown.includes(opening))
+      )
+      .map((block) => block.blockId);
+  });
+}
+
+function formatBlock(block: any) {
+  return {
+    blockId: block.blockId,
+    noteId: block.noteId,
+    type: block.type,
+    markdown: block.markdown,
+    text: block.text,
+    position: block.position,
+  };
+}
+
+/**
+ * A note's blocks in document order
+ * Notes written before blocks were tracked get theirs on first read.
+ */
+async function loadBlocks(note: any, db: any) {
+  const query = () =>
+    db
+      .select()
+      .from(noteBlocks)
+      .where(eq(noteBlocks.noteId, note.id))
+      .orderBy(asc(noteBlocks.position));
+
+  const blocks = await query();
+  if (blocks.length > 0 || !note.content) {
+    return blocks;
+  }
+
+  await syncNoteBlocks(note, db);
+  return query();
+}
+
+export async function listBlocks(userId: string, noteId: string, db: any) {
+  const { note } = await requireNoteAccess(userId, noteId, 'viewer', db);
+  const blocks = await loadBlocks(note, db);
+
+  return blocks.map(formatBlock);
+}
+
+/**
+ * One block with its neighbours' ids, for `![[note#^block]]` embeds and deep links
+ */
+export async function getBlock(userId: string, input: GetNoteBlockInput, db: any) {
+  const { note } = await requireNoteAccess(userId, input.id, 'viewer', db);
+  const blocks = await loadBlocks(note, db);
+
+  const index = blocks.findIndex((block: any) => block.blockId === input.blockId);
+  if (index === -1) {
+    throw new NotFoundError('Block', input.blockId);
+  }
+
+  return {
+    ...formatBlock(blocks[index]),
+    previousBlockId: blocks[index - 1]?.blockId ?? null,
+    nextBlockId: blocks[index + 1]?.blockId ?? null,
+  };
+}
@@ -0,0 +1,310 @@
+/**
+ * Bulk Note Operations
+ *
+ * Multi-select actions from the notes list. Each operation runs in a single
+ * transaction and reports an outcome per requested id; notes that don't exist
+ * or don't apply (e.g. restoring a live note) are reported instead of failing
+ * the whole batch. Connected devices are told about changed notes only once the
+ * transaction has committed.
+ */
+
+import { eq, and, isNull, inArray, sql } from 'drizzle-orm';
+import type {
+  BulkNoteIdsInput,
+  BulkNoteTagsInput,
+  BulkLinkToAssignmentInput,
+  MoveNotesToNotebookInput,
+  BulkNoteResult,
+  BulkOperationResult,
+} from '@loqi-notes/shared-types';
+import { notes, noteTags, tags, users, assignments, assignmentNotes } from '../../db/schema';
+import { NotFoundError } from '../../utils/errors';
+import { publishNoteChange } from '../../lib/realtime';
+import { recountTags } from '../tags/service';
+import { moveOutOfDeletedNotebooks } from '../notebooks/service';
+
+/**
+ * Load the requested notes and decide which ones the operation applies to
+ * `skipReason` returns a message for notes that should be skipped. Bulk actions
+ * are owner-only (see access.ts), so shared notes are reported as not found.
+ */
+async function partitionNotes(
+  userId: string,
+  ids: string[],
+  skipReason: (note: any) => string | null,
+  tx: any
+) {
+  const uniqueIds = Array.from(new Set(ids));
+  const found = await tx
+    .select({ id: notes.id, notebookId: notes.notebookId, deletedAt: notes.deletedAt })
+    .from(notes)
+    .where(and(eq(notes.userId, userId), inArray(notes.id, uniqueIds)));
+  const foundById = new Map<string, any>(found.map((note: any) => [note.id, note]));
+
+  const results = new Map<string, BulkNoteResult>();
+  const targets: any[] = [];
+
+  for (const id of uniqueIds) {
+    const note = foundById.get(id);
+    const reason = note ? skipReason(note) : null;
+
+    if (!note) {
+      results.set(id, { id, status: 'not_found' });
+    } else if (reason) {
+      results.set(id, { id, status: 'skipped', message: reason });
+    } else {
+      results.set(id, { id, status: 'success' });
+      targets.push(note);
+    }
+  }
+
+  return { uniqueIds, targets, targetIds: targets.map((note) => note.id as string), results };
+}
+
+function summarize(uniqueIds: string[], results: Map<string, BulkNoteResult>): BulkOperationResult {
+  const ordered = uniqueIds.map((id) => results.get(id)!);
+
+  return {
+    results: ordered,
+    succeeded: ordered.filter((result) => result.status === 'success').length,
+    skipped: ordered.filter((result) => result.status === 'skipped').length,
+    notFound: ordered.filter((result) => result.status === 'not_found').length,
+  };
+}
+
+const skipTrashed = (note: any) => (note.deletedAt ? 'Note is in the trash' : null);
+
+async function tagIdsForNotes(noteIds: string[], tx: any): Promise<string[]> {
+  if (noteIds.length === 0) {
+    return [];
+  }
+
+  const rows = await tx
+    .selectDistinct({ tagId: noteTags.tagId })
+    .from(noteTags)
+    .where(inArray(noteTags.noteId, noteIds));
+
+  return rows.map((row: any) => row.tagId);
+}
+
+async function assertTagsExist(userId: string, tagIds: string[], tx: any) {
+  const found = await tx
+    .select({ id: tags.id })
+    .from(tags)
+    .where(and(eq(tags.userId, userId), inArray(tags.id, tagIds), isNull(tags.deletedAt)));
+  const foundIds = new Set(found.map((tag: any) => tag.id));
+
+  const missing = tagIds.find((tagId) => !foundIds.has(tagId));
+  if (missing) {
+    throw new NotFoundError('Tag', missing);
+  }
+}
+
+function publishChanges(
+  userId: string,
+  type: 'deleted' | 'restored' | 'updated',
+  noteIds: string[]
+) {
+  noteIds.forEach((noteId) => publishNoteChange(userId, type, noteId));
+}
+
+/**
+ * Move notes to the trash within the caller's transaction
+ * The trashed ids are returned for the caller to publish once it commits.
+ */
+export async function trashNotes(userId: string, ids: string[], tx: any) {
+  const { uniqueIds, targetIds, results } = await partitionNotes(
+    userId,
+    ids,
+    (note) => (note.deletedAt ? 'Note is already deleted' : null),
+    tx
+  );
+
+  if (targetIds.length > 0) {
+    await tx
+      .update(notes)
+      .set({ deletedAt: new Date(), updatedAt: new Date() })
+      .where(inArray(notes.id, targetIds));
+
+    await tx
+      .update(users)
+      .set({
+        notesCount: sql`GREATEST(${users.notesCount} - ${targetIds.length}, 0)`,
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, userId));
+
+    await recountTags(await tagIdsForNotes(targetIds, tx), tx);
+  }
+
+  return { result: summarize(uniqueIds, results), trashedIds: targetIds };
+}
+
+export async function bulkDeleteNotes(userId: string, input: BulkNoteIdsInput, db: any) {
+  const { result, trashedIds } = await db.transaction((tx: any) =>
+    trashNotes(userId, input.ids, tx)
+  );
+
+  publishChanges(userId, 'deleted', trashedIds);
+
+  return result;
+}
+
+export async function bulkRestoreNotes(userId: string, input: BulkNoteIdsInput, db: any) {
+  const { result, targetIds } = await db.transaction(async (tx: any) => {
+    const { uniqueIds, targets, targetIds, results } = await partitionNotes(
+      userId,
+      input.ids,
+      (note) => (note.deletedAt ? null : 'Note is not deleted'),
+      tx
+    );
+
+    if (targetIds.length > 0) {
+      await tx
+        .update(notes)
+        .set({ deletedAt: null, updatedAt: new Date() })
+        .where(inArray(notes.id, targetIds));
+
+      await moveOutOfDeletedNotebooks(userId, targets, tx);
+
+      await tx
+        .update(users)
+        .set({
+          notesCount: sql`${users.notesCount} + ${targetIds.length}`,
+          updatedAt: new Date(),
+        })
+        .where(eq(users.id, userId));
+
+      await recountTags(await tagIdsForNotes(targetIds, tx), tx);
+    }
+
+    return { result: summarize(uniqueIds, results), targetIds };
+  });
+
+  publishChanges(userId, 'restored', targetIds);
+
+  return result;
+}
+
+export async function bulkAddTags(userId: string, input: BulkNoteTagsInput, db: any) {
+  const tagIds = Array.from(new Set(input.tagIds));
+
+  const { result, targetIds } = await db.transaction(async (tx: any) => {
+    await assertTagsExist(userId, tagIds, tx);
+
+    const { uniqueIds, targetIds, results } = await partitionNotes(
+      userId,
+      input.ids,
+      skipTrashed,
+      tx
+    );
+
+    if (targetIds.length > 0) {
+      await tx
+        .insert(noteTags)
+        .values(targetIds.flatMap((noteId) => tagIds.map((tagId) => ({ noteId, tagId }))))
+        .onConflictDoNothing();
+
+      await recountTags(tagIds, tx);
+    }
+
+    return { result: summarize(uniqueIds, results), targetIds };
+  });
+
+  publishChanges(userId, 'updated', targetIds);
+
+  return result;
+}
+
+export async function bulkRemoveTags(userId: string, input: BulkNoteTagsInput, db: any) {
+  const tagIds = Array.from(new Set(input.tagIds));
+
+  const { result, targetIds } = await db.transaction(async (tx: any) => {
+    await assertTagsExist(userId, tagIds, tx);
+
+    const { uniqueIds, targetIds, results } = await partitionNotes(
+      userId,
+      input.ids,
+      skipTrashed,
+      tx
+    );
+
+    if (targetIds.length > 0) {
+      await tx
+        .delete(noteTags)
+        .where(and(inArray(noteTags.noteId, targetIds), inArray(noteTags.tagId, tagIds)));
+
+      await recountTags(tagIds, tx);
+    }
+
+    return { result: summarize(uniqueIds, results), targetIds };
+  });
+
+  publishChanges(userId, 'updated', targetIds);
+
+  return result;
+}
+
+/**
+ * Move notes into a notebook, or out of any with a null notebookId
+ * The caller checks the notebook; trashed notes are skipped.
+ */
+export async function bulkMoveToNotebook(userId: string, input: MoveNotesToNotebookInput, db: any) {
+  const { result, targetIds } = await db.transaction(async (tx: any) => {
+    const { uniqueIds, targetIds, results } = await partitionNotes(
+      userId,
+      input.noteIds,
+      skipTrashed,
+      tx
+    );
+
+    if (targetIds.length > 0) {
+      await tx
+        .update(notes)
+        .set({ notebookId: input.notebookId, updatedAt: new Date() })
+        .where(inArray(notes.id, targetIds));
+    }
+
+    return { result: summarize(uniqueIds, results), targetIds };
+  });
+
+  publishChanges(userId, 'updated', targetIds);
+
+  return result;
+}
+
+export async function bulkLinkToAssignment(
+  userId: string,
+  input: BulkLinkToAssignmentInput,
+  db: any
+) {
+  return db.transaction(async (tx: any) => {
+    const assignment = await tx.query.assignments.findFirst({
+      where: and(
+        eq(assignments.id, input.assignmentId),
+        eq(assignments.userId, userId),
+        isNull(assignments.deletedAt)
+      ),
+    });
+
+    if (!assignment) {
+      throw new NotFoundError('Assignment', input.assignmentId);
+    }
+
+    const { uniqueIds, targetIds, results } = await partitionNotes(
+      userId,
+      input.ids,
+      skipTrashed,
+      tx
+    );
+
+    if (targetIds.length > 0) {
+      await tx
+        .insert(assignmentNotes)
+        .values(targetIds.map((noteId) => ({ assignmentId: input.assignmentId, noteId })))
+        .onConflictDoNothing();
+    }
+
+    return summarize(uniqueIds, results);
+  });
+}
@@ -0,0 +1,277 @@
+/**
+ * Note Collaboration
+ *
+ * Owners share a note or a whole notebook with other users as viewer,
+ * commenter or editor (see access.ts for how roles resolve). Editors can
+ * change content and revert history; deleting, tagging, moving and sharing
+ * stay with the owner. Comments are open to commenters and above.
+ */
+
+import { eq, and, or, isNull, asc, desc, sql } from 'drizzle-orm';
+import type {
+  AddCollaboratorInput,
+  ListCollaboratorsInput,
+  UpdateCollaboratorInput,
+  SetSharedSearchInput,
+  AddNoteCommentInput,
+} from '@loqi-notes/shared-types';
+import { notes, notebooks, notePermissions, noteComments, users } from '../../db/schema';
+import { NotFoundError, ValidationError } from '../../utils/errors';
+import { findNotebook } from '../notebooks/service';
+import { requireNoteAccess } from './access';
+
+/**
+ * Check the user owns the note or notebook being shared
+ */
+async function findOwnedResource(
+  userId: string,
+  resource: { noteId?: string; notebookId?: string },
+  db: any
+) {
+  if (resource.notebookId) {
+    await findNotebook(userId, resource.notebookId, db);
+    return;
+  }
+
+  const note = await db.query.notes.findFirst({
+    where: and(eq(notes.id, resource.noteId!), eq(notes.userId, userId), isNull(notes.deletedAt)),
+  });
+
+  if (!note) {
+    throw new NotFoundError('Note', resource.noteId);
+  }
+}
+
+function resourceCondition(resource: { noteId?: string; notebookId?: string }) {
+  return resource.notebookId
+    ? eq(notePermissions.notebookId, resource.notebookId)
+    : eq(notePermissions.noteId, resource.noteId!);
+}
+
+const collaboratorFields = {
+  id: notePermissions.id,
+  noteId: notePermissions.noteId,
+  notebookId: notePermissions.notebookId,
+  userId: notePermissions.userId,
+  email: users.email,
+  displayName: users.displayName,
+  role: notePermissions.role,
+  createdAt: notePermissions.createdAt,
+  updatedAt: notePermissions.updatedAt,
+};
+
+/**
+ * Share a note or notebook with another user by email
+ * Sharing again with the same user updates their role.
+ */
+export async function addCollaborator(userId: string, input: AddCollaboratorInput, db: any) {
+  await findOwnedResource(userId, input, db);
+
+  const collaborator = await db.query.users.findFirst({
+    where: sql`lower(${users.email}) = ${input.email.toLowerCase()}`,
+  });
+
+  if (!collaborator) {
+    throw new NotFoundError('User', input.email);
+  }
+
+  if (collaborator.id === userId) {
+    throw new ValidationError('You cannot share a note with yourself');
+  }
+
+  const target = input.notebookId
+    ? [notePermissions.notebookId, notePermissions.userId]
+    : [notePermissions.noteId, notePermissions.userId];
+
+  const [permission] = await db
+    .insert(notePermissions)
+    .values({
+      ownerId: userId,
+      userId: collaborator.id,
+      noteId: input.noteId,
+      notebookId: input.notebookId,
+      role: input.role,
+    })
+    .onConflictDoUpdate({
+      target,
+      set: { role: input.role, updatedAt: new Date() },
+    })
+    .returning();
+
+  return {
+    ...permission,
+    email: collaborator.email,
+    displayName: collaborator.displayName,
+  };
+}
+
+export async function listCollaborators(userId: string, input: ListCollaboratorsInput, db: any) {
+  await findOwnedResource(userId, input, db);
+
+  return db
+    .select(collaboratorFields)
+    .from(notePermissions)
+    .innerJoin(users, eq(notePermissions.userId, users.id))
+    .where(and(eq(notePermissions.ownerId, userId), resourceCondition(input)))
+    .orderBy(asc(notePermissions.createdAt));
+}
+
+export async function updateCollaborator(userId: string, input: UpdateCollaboratorInput, db: any) {
+  const [updated] = await db
+    .update(notePermissions)
+    .set({ role: input.role, updatedAt: new Date() })
+    .where(and(eq(notePermissions.id, input.id), eq(notePermissions.ownerId, userId)))
+    .returning();
+
+  if (!updated) {
+    throw new NotFoundError('Collaborator', input.id);
+  }
+
+  return updated;
+}
+
+/**
+ * Remove a collaborator - either the owner revoking access or the collaborator leaving
+ */
+export async function removeCollaborator(userId: string, permissionId: string, db: any) {
+  const removed = await db
+    .delete(notePermissions)
+    .where(
+      and(
+        eq(notePermissions.id, permissionId),
+        or(eq(notePermissions.ownerId, userId), eq(notePermissions.userId, userId))
+      )
+    )
+    .returning({ id: notePermissions.id });
+
+  if (removed.length === 0) {
+    throw new NotFoundError('Collaborator', permissionId);
+  }
+
+  return { success: true };
+}
+
+/**
+ * Notes and notebooks other users have shared with this user
+ */
+export async function listSharedWithMe(userId: string, db: any) {
+  return db
+    .select({
+      id: notePermissions.id,
+      noteId: notePermissions.noteId,
+      noteTitle: notes.title,
+      notebookId: notePermissions.notebookId,
+      notebookName: notebooks.name,
+      role: notePermissions.role,
+      includeInSearch: notePermissions.includeInSearch,
+      ownerId: notePermissions.ownerId,
+      ownerEmail: users.email,
+      ownerName: users.displayName,
+      createdAt: notePermissions.createdAt,
+    })
+    .from(notePermissions)
+    .innerJoin(users, eq(notePermissions.ownerId, users.id))
+    .leftJoin(notes, eq(notePermissions.noteId, notes.id))
+    .leftJoin(notebooks, eq(notePermissions.notebookId, notebooks.id))
+    .where(
+      and(
+        eq(notePermissions.userId, userId),
+        // Hide grants on trashed notes and notebooks
+        isNull(notes.deletedAt),
+        isNull(notebooks.deletedAt)
+      )
+    )
+    .orderBy(desc(notePermissions.createdAt));
+}
+
+/**
+ * Opt shared notes in or out of the collaborator's own AI retrieval
+ */
+export async function setSharedSearch(userId: string, input: SetSharedSearchInput, db: any) {
+  const [updated] = await db
+    .update(notePermissions)
+    .set({ includeInSearch: input.includeInSearch, updatedAt: new Date() })
+    .where(and(eq(notePermissions.id, input.id), eq(notePermissions.userId, userId)))
+    .returning();
+
+  if (!updated) {
+    throw new NotFoundError('Shared note', input.id);
+  }
+
+  return updated;
+}
+
+const commentFields = {
+  id: noteComments.id,
+  noteId: noteComments.noteId,
+  userId: noteComments.userId,
+  authorName: users.displayName,
+  body: noteComments.body,
+  createdAt: noteComments.createdAt,
+  updatedAt: noteComments.updatedAt,
+};
+
+export async function listComments(userId: string, noteId: string, db: any) {
+  await requireNoteAccess(userId, noteId, 'viewer', db);
+
+  return db
+    .select(commentFields)
+    .from(noteComments)
+    .innerJoin(users, eq(noteComments.userId, users.id))
+    .where(and(eq(noteComments.noteId, noteId), isNull(noteComments.deletedAt)))
+    .orderBy(asc(noteComments.createdAt));
+}
+
+export async function addComment(userId: string, input: AddNoteCommentInput, db: any) {
+  const { note } = await requireNoteAccess(userId, input.noteId, 'commenter', db);
+
+  if (note.deletedAt) {
+    throw new ValidationError('Cannot comment on a deleted note');
+  }
+
+  const [comment] = await db
+    .insert(noteComments)
+    .values({ noteId: note.id, userId, body: input.body })
+    .returning();
+
+  const author = await db.query.users.findFirst({
+    where: eq(users.id, userId),
+  });
+
+  return {
+    id: comment.id,
+    noteId: comment.noteId,
+    userId: comment.userId,
+    authorName: author?.displayName ?? null,
+    body: comment.body,
+    createdAt: comment.createdAt,
+    updatedAt: comment.updatedAt,
+  };
+}
+
+/**
+ * Delete a comment - allowed for its author and the note's owner
+ */
+export async function deleteComment(userId: string, commentId: string, db: any) {
+  const comment = await db.query.noteComments.findFirst({
+    where: and(eq(noteComments.id, commentId), isNull(noteComments.deletedAt)),
+  });
+
+  if (!comment) {
+    throw new NotFoundError('Comment', commentId);
+  }
+
+  if (comment.userId !== userId) {
+    const { role } = await requireNoteAccess(userId, comment.noteId, 'viewer', db);
+    if (role !== 'owner') {
+      throw new NotFoundError('Comment', commentId);
+    }
+  }
+
+  await db
+    .update(noteComments)
+    .set({ deletedAt: new Date(), updatedAt: new Date() })
+    .where(eq(noteComments.id, commentId));
+
+  return { success: true };
+}
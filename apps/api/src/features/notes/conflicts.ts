@@ -0,0 +1,101 @@
+/**
+ * Note Conflicts
+ *
+ * Lists and resolves edits that were rejected by updateNote because
+ * they were based on a stale version. A conflict belongs to the user who made
+ * the edit, who needs editor access to the note to resolve it.
+ */
+
+import { eq, and, desc, inArray } from 'drizzle-orm';
+import type { ListNoteConflictsInput, ResolveNoteConflictInput } from '@loqi-notes/shared-types';
+import { notes, noteConflicts } from '../../db/schema';
+import { NotFoundError, ConflictError } from '../../utils/errors';
+import { logger } from '../../lib/logger';
+import { applyNoteUpdate, getNoteById } from './service';
+import { requireNoteAccess, accessibleNoteCondition } from './access';
+import type { NoteChanges } from './service';
+
+export async function listConflicts(userId: string, input: ListNoteConflictsInput, db: any) {
+  const conditions = [eq(noteConflicts.userId, userId)];
+
+  if (input.noteId) {
+    await requireNoteAccess(userId, input.noteId, 'editor', db);
+    conditions.push(eq(noteConflicts.noteId, input.noteId));
+  } else {
+    // Skip conflicts on notes the user has since lost access to
+    const accessibleNoteIds = db
+      .select({ id: notes.id })
+      .from(notes)
+      .where(accessibleNoteCondition(userId, { id: notes.id, ownerId: notes.userId }));
+    conditions.push(inArray(noteConflicts.noteId, accessibleNoteIds));
+  }
+
+  if (!input.includeResolved) {
+    conditions.push(eq(noteConflicts.resolved, false));
+  }
+
+  return db
+    .select()
+    .from(noteConflicts)
+    .where(and(...conditions))
+    .orderBy(desc(noteConflicts.createdAt));
+}
+
+export async function resolveConflict(userId: string, input: ResolveNoteConflictInput, db: any) {
+  const { conflictId, strategy } = input;
+
+  const conflict = await db.query.noteConflicts.findFirst({
+    where: and(eq(noteConflicts.id, conflictId), eq(noteConflicts.userId, userId)),
+  });
+
+  if (!conflict) {
+    throw new NotFoundError('Note conflict', conflictId);
+  }
+
+  if (conflict.resolved) {
+    throw new ConflictError('Note conflict is already resolved');
+  }
+
+  const { note } = await requireNoteAccess(userId, conflict.noteId, 'editor', db);
+
+  // keep_server leaves the note untouched; the other strategies write a new version
+  let changes: NoteChanges | null = null;
+
+  if (strategy === 'keep_client') {
+    // Fields the client didn't send are null and left as they are on the server
+    changes = {
+      content: conflict.conflictingContent ?? undefined,
+      title: conflict.conflictingTitle ?? undefined,
+      clientId: conflict.conflictingClientId ?? undefined,
+      clientUpdatedAt: conflict.conflictingClientUpdatedAt ?? undefined,
+    };
+  } else if (strategy === 'merged') {
+    changes = {
+      content: input.content,
+      title: input.title,
+    };
+  }
+
+  if (changes) {
+    // Revisions, links and embeddings always belong to the note's owner
+    await applyNoteUpdate(note.userId, note, changes, db);
+  }
+
+  const [resolved] = await db
+    .update(noteConflicts)
+    .set({
+      resolutionStrategy: strategy,
+      resolved: true,
+      resolvedAt: new Date(),
+      resolvedBy: userId,
+    })
+    .where(eq(noteConflicts.id, conflictId))
+    .returning();
+
+  logger.info({ conflictId, noteId: note.id, strategy }, 'Resolved note conflict');
+
+  return {
+    conflict: resolved,
+    note: await getNoteById(userId, note.id, db),
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * Line Diff
+ *
+ * Computes a line-level diff between two versions of note content.
+ * - Trims the common prefix/suffix before running LCS
+ * - Groups consecutive lines of the same kind into hunks
+ */
+
+export type DiffHunkType = 'equal' | 'added' | 'removed';
+
+export interface DiffHunk {
+  type: DiffHunkType;
+  lines: string[];
+}
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+}
+
+/**
+ * Split content into lines (normalizes CRLF)
+ */
+export function splitLines(content: string): string[] {
+  if (!content) return [];
+  return content.replace(/\r\n/g, '\n').split('\n');
+}
+
+function pushLine(hunks: DiffHunk[], type: DiffHunkType, line: string): void {
+  const last = hunks[hunks.length - 1];
+  if (last && last.type === type) {
+    last.lines.push(line);
+  } else {
+    hunks.push({ type, lines: [line] });
+  }
+}
+
+/**
+ * Diff two arrays of lines using a longest-common-subsequence table
+ */
+export function diffLineArrays(from: string[], to: string[]): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+
+  // Skip the common prefix and suffix so the LCS table stays small
+  let prefix = 0;
+  while (prefix < from.length && prefix < to.length && from[prefix] === to[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < from.length - prefix &&
+    suffix < to.length - prefix &&
+    from[from.length - 1 - suffix] === to[to.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  for (let i = 0; i < prefix; i++) {
+    pushLine(hunks, 'equal', from[i]);
+  }
+
+  const a = from.slice(prefix, from.length - suffix);
+  const b = to.slice(prefix, to.length - suffix);
+  const n = a.length;
+  const m = b.length;
+
+  // lcs[i * (m + 1) + j] = LCS length of a[i..] and b[j..]
+  const width = m + 1;
+  const lcs = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[i] === b[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      pushLine(hunks, 'equal', a[i]);
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      pushLine(hunks, 'removed', a[i]);
+      i++;
+    } else {
+      pushLine(hunks, 'added', b[j]);
+      j++;
+    }
+  }
+  while (i < n) {
+    pushLine(hunks, 'removed', a[i++]);
+  }
+  while (j < m) {
+    pushLine(hunks, 'added', b[j++]);
+  }
+
+  for (let k = from.length - suffix; k < from.length; k++) {
+    pushLine(hunks, 'equal', from[k]);
+  }
+
+  return hunks;
+}
+
+/**
+ * Diff two versions of note content line by line
+ */
+export function diffLines(from: string, to: string): DiffHunk[] {
+  return diffLineArrays(splitLines(from), splitLines(to));
+}
+
+/**
+ * Count added and removed lines in a diff
+ */
+export function getDiffStats(hunks: DiffHunk[]): DiffStats {
+  return hunks.reduce(
+    (stats, hunk) => {
+      if (hunk.type === 'added') stats.added += hunk.lines.length;
+      if (hunk.type === 'removed') stats.removed += hunk.lines.length;
+      return stats;
+    },
+    { added: 0, removed: 0 }
+  );
+}
@@ -0,0 +1,74 @@
+import express, { Router } from 'express';
+import { z } from 'zod';
+import { db } from '../../db';
+import { requireAuth } from '../../middleware/auth';
+import { ValidationError } from '../../utils/errors';
+import { getSharedNote } from './shares';
+import { renderSharedNotePage, renderNoteMarkdown } from './render';
+import { createImageAttachment, IMAGE_EXTENSIONS } from './attachments';
+
+/**
+ * GET /api/v1/shared/:token
+ * Public, unauthenticated view of a shared note.
+ * Serves a sanitized HTML page by default, or Markdown with ?format=md.
+ */
+export const sharedNotesRouter: Router = Router();
+
+sharedNotesRouter.get('/:token', async (req, res, next) => {
+  try {
+    const note = await getSharedNote(req.params.token, db);
+
+    res.set('Cache-Control', 'private, no-store');
+    res.set('X-Robots-Tag', 'noindex, nofollow');
+
+    if (req.query.format === 'md') {
+      res.type('text/markdown; charset=utf-8').send(renderNoteMarkdown(note));
+      return;
+    }
+
+    res.type('html').send(renderSharedNotePage(note));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/v1/notes/:noteId/attachments
+ * Body is the raw image with its Content-Type; the file name can be sent in X-File-Name.
+ * Responds 201 with the attachment - OCR runs in the background (see ocrStatus).
+ */
+export const noteAttachmentsUploadRouter: Router = Router();
+
+noteAttachmentsUploadRouter.post(
+  '/:noteId/attachments',
+  requireAuth,
+  express.raw({ type: Object.keys(IMAGE_EXTENSIONS), limit: '20mb' }),
+  async (req, res, next) => {
+    try {
+      if (!z.string().uuid().safeParse(req.params.noteId).success) {
+        throw new ValidationError('Invalid note id');
+      }
+
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        throw new ValidationError('Request body must be an image', {
+          supported: Object.keys(IMAGE_EXTENSIONS),
+        });
+      }
+
+      const attachment = await createImageAttachment(
+        res.locals.user.id,
+        req.params.noteId,
+        {
+          fileName: (req.header('x-file-name') || 'image').slice(0, 255),
+          mimeType: req.header('content-type')?.split(';')[0].trim().toLowerCase() ?? '',
+          data: req.body,
+        },
+        db
+      );
+
+      res.status(201).json(attachment);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
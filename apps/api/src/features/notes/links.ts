@@ -0,0 +1,240 @@
+/**
+ * Note Links
+ *
+ * Keeps the note_links table in sync with [[wiki links]] in note content
+ * and serves backlinks, outgoing links and the unresolved-links report.
+ */
+
+import { eq, and, isNull, inArray, sql, asc, desc } from 'drizzle-orm';
+import type { AnyColumn } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { notes, noteLinks } from '../../db/schema';
+import { parseWikiLinks, isNoteIdRef, normalizeLinkTitle } from './wikilinks';
+import { requireNoteAccess, accessibleNoteCondition } from './access';
+
+const sourceNotes = alias(notes, 'source_notes');
+const targetNotes = alias(notes, 'target_notes');
+
+/**
+ * normalizeLinkTitle in SQL, so titles and refs match the same way on both sides
+ */
+function normalizedTitleSql(column: AnyColumn) {
+  return sql`lower(trim(regexp_replace(${column}, '\\s+', ' ', 'g')))`;
+}
+
+/**
+ * Resolve link targets to note ids
+ * Ids must belong to the user; titles match case-insensitively against live notes,
+ * preferring the most recently updated note when titles collide.
+ */
+async function resolveTargets(
+  userId: string,
+  targetRefs: string[],
+  db: any
+): Promise<Map<string, string>> {
+  const resolved = new Map<string, string>();
+
+  const ids = targetRefs.filter(isNoteIdRef);
+  if (ids.length > 0) {
+    const rows = await db
+      .select({ id: notes.id })
+      .from(notes)
+      .where(and(eq(notes.userId, userId), inArray(notes.id, ids)));
+    for (const row of rows) {
+      resolved.set(row.id.toLowerCase(), row.id);
+    }
+  }
+
+  const titles = [
+    ...new Set(targetRefs.filter((ref) => !isNoteIdRef(ref)).map(normalizeLinkTitle)),
+  ];
+  if (titles.length > 0) {
+    const rows = await db
+      .select({ id: notes.id, title: notes.title })
+      .from(notes)
+      .where(
+        and(
+          eq(notes.userId, userId),
+          isNull(notes.deletedAt),
+          inArray(normalizedTitleSql(notes.title), titles)
+        )
+      )
+      .orderBy(desc(notes.updatedAt));
+    for (const row of rows) {
+      const key = normalizeLinkTitle(row.title);
+      if (!resolved.has(key)) {
+        resolved.set(key, row.id);
+      }
+    }
+  }
+
+  return resolved;
+}
+
+function linkKey(targetRef: string): string {
+  return isNoteIdRef(targetRef) ? targetRef.toLowerCase() : normalizeLinkTitle(targetRef);
+}
+
+/**
+ * Rebuild the outgoing links of a note from its content
+ * Links that already resolved keep their target, so renaming the target
+ * note doesn't break `[[Old Title]]` references.
+ */
+export async function syncNoteLinks(userId: string, note: any, db: any): Promise<void> {
+  const parsed = parseWikiLinks(note.content ?? '');
+
+  const existing = await db
+    .select({ targetRef: noteLinks.targetRef, targetNoteId: noteLinks.targetNoteId })
+    .from(noteLinks)
+    .where(eq(noteLinks.sourceNoteId, note.id));
+
+  const previousTargets = new Map<string, string>();
+  for (const link of existing) {
+    if (link.targetNoteId) {
+      previousTargets.set(linkKey(link.targetRef), link.targetNoteId);
+    }
+  }
+
+  const unresolvedRefs = parsed
+    .map((link) => link.targetRef)
+    .filter((ref) => !previousTargets.has(linkKey(ref)));
+  const resolved = await resolveTargets(userId, unresolvedRefs, db);
+
+  await db.delete(noteLinks).where(eq(noteLinks.sourceNoteId, note.id));
+
+  if (parsed.length === 0) {
+    return;
+  }
+
+  await db.insert(noteLinks).values(
+    parsed.map((link) => {
+      const key = linkKey(link.targetRef);
+      return {
+        userId,
+        sourceNoteId: note.id,
+        targetNoteId: previousTargets.get(key) ?? resolved.get(key) ?? null,
+        targetRef: link.targetRef,
+        anchor: link.anchor,
+        alias: link.alias,
+        position: link.position,
+      };
+    })
+  );
+}
+
+/**
+ * Point unresolved links at a note whose title now matches them
+ * Called when a note is created or renamed.
+ */
+export async function resolvePendingLinks(userId: string, note: any, db: any): Promise<void> {
+  await db
+    .update(noteLinks)
+    .set({ targetNoteId: note.id })
+    .where(
+      and(
+        eq(noteLinks.userId, userId),
+        isNull(noteLinks.targetNoteId),
+        eq(normalizedTitleSql(noteLinks.targetRef), normalizeLinkTitle(note.title))
+      )
+    );
+}
+
+/**
+ * Notes linking to a note, limited to the ones the user can open
+ */
+export async function getBacklinks(userId: string, noteId: string, db: any) {
+  await requireNoteAccess(userId, noteId, 'viewer', db);
+
+  return db
+    .select({
+      id: noteLinks.id,
+      sourceNoteId: noteLinks.sourceNoteId,
+      sourceTitle: sourceNotes.title,
+      targetRef: noteLinks.targetRef,
+      anchor: noteLinks.anchor,
+      alias: noteLinks.alias,
+      position: noteLinks.position,
+    })
+    .from(noteLinks)
+    .innerJoin(sourceNotes, eq(noteLinks.sourceNoteId, sourceNotes.id))
+    .where(
+      and(
+        eq(noteLinks.targetNoteId, noteId),
+        isNull(sourceNotes.deletedAt),
+        accessibleNoteCondition(userId, { id: sourceNotes.id, ownerId: sourceNotes.userId })
+      )
+    )
+    .orderBy(asc(sourceNotes.title), asc(noteLinks.position));
+}
+
+/**
+ * Links from a note; targets the user can't open are reported as unresolved
+ */
+export async function getOutgoingLinks(userId: string, noteId: string, db: any) {
+  await requireNoteAccess(userId, noteId, 'viewer', db);
+
+  const rows = await db
+    .select({
+      id: noteLinks.id,
+      targetNoteId: targetNotes.id,
+      targetTitle: targetNotes.title,
+      targetDeletedAt: targetNotes.deletedAt,
+      targetRef: noteLinks.targetRef,
+      anchor: noteLinks.anchor,
+      alias: noteLinks.alias,
+      position: noteLinks.position,
+    })
+    .from(noteLinks)
+    .leftJoin(
+      targetNotes,
+      and(
+        eq(noteLinks.targetNoteId, targetNotes.id),
+        accessibleNoteCondition(userId, { id: targetNotes.id, ownerId: targetNotes.userId })
+      )
+    )
+    .where(eq(noteLinks.sourceNoteId, noteId))
+    .orderBy(asc(noteLinks.position));
+
+  return rows.map(({ targetDeletedAt, ...link }: any) => ({
+    ...link,
+    resolved: Boolean(link.targetNoteId) && !targetDeletedAt,
+  }));
+}
+
+/**
+ * Links whose target doesn't exist (yet), grouped by the referenced title
+ */
+export async function getUnresolvedLinks(userId: string, db: any) {
+  const rows = await db
+    .select({
+      targetRef: noteLinks.targetRef,
+      sourceNoteId: noteLinks.sourceNoteId,
+      sourceTitle: sourceNotes.title,
+      position: noteLinks.position,
+    })
+    .from(noteLinks)
+    .innerJoin(sourceNotes, eq(noteLinks.sourceNoteId, sourceNotes.id))
+    .where(
+      and(
+        eq(noteLinks.userId, userId),
+        isNull(noteLinks.targetNoteId),
+        isNull(sourceNotes.deletedAt)
+      )
+    )
+    .orderBy(asc(noteLinks.targetRef), asc(sourceNotes.title));
+
+  const byRef = new Map<string, { targetRef: string; sources: any[] }>();
+  for (const row of rows) {
+    const key = linkKey(row.targetRef);
+    if (!byRef.has(key)) {
+      byRef.set(key, { targetRef: row.targetRef, sources: [] });
+    }
+    byRef.get(key)!.sources.push({
+      noteId: row.sourceNoteId,
+      title: row.sourceTitle,
+      position: row.position,
+    });
+  }
+
+  return Array.from(byRef.values());
+}
@@ -0,0 +1,196 @@
+/**
+ * Three-Way Merge
+ *
+ * Merges two edits of the same note made against a common base version.
+ * - Works line by line on top of the diff in ./diff
+ * - Non-overlapping edits from both sides are applied together
+ * - Identical edits on both sides are applied once
+ * - Overlapping, different edits are reported as conflicts
+ */
+
+import { diffLineArrays, splitLines } from './diff';
+
+export type MergeSource = 'server' | 'client' | 'both';
+
+/**
+ * A contiguous change to the base: base lines [baseStart, baseEnd) replaced by `lines`
+ */
+interface Edit {
+  baseStart: number;
+  baseEnd: number;
+  lines: string[];
+}
+
+export interface MergedRegion {
+  source: MergeSource;
+  baseStart: number; // First base line replaced (0-based)
+  baseEnd: number; // Base line after the replaced range (exclusive)
+  startLine: number; // First line of the region in the merged content (0-based)
+  lineCount: number; // Number of lines the region contributes to the merged content
+}
+
+export interface MergeConflictRegion {
+  baseStart: number;
+  baseEnd: number;
+  serverLines: string[];
+  clientLines: string[];
+}
+
+export interface MergeResult {
+  clean: boolean;
+  content: string;
+  regions: MergedRegion[];
+  conflicts: MergeConflictRegion[];
+}
+
+/**
+ * Turn a diff against the base into a list of replacement edits
+ */
+function collectEdits(base: string[], changed: string[]): Edit[] {
+  const edits: Edit[] = [];
+  let baseIndex = 0;
+  let current: Edit | null = null;
+
+  for (const hunk of diffLineArrays(base, changed)) {
+    if (hunk.type === 'equal') {
+      if (current) {
+        edits.push(current);
+        current = null;
+      }
+      baseIndex += hunk.lines.length;
+      continue;
+    }
+
+    if (!current) {
+      current = { baseStart: baseIndex, baseEnd: baseIndex, lines: [] };
+    }
+
+    if (hunk.type === 'removed') {
+      baseIndex += hunk.lines.length;
+      current.baseEnd = baseIndex;
+    } else {
+      current.lines.push(...hunk.lines);
+    }
+  }
+
+  if (current) {
+    edits.push(current);
+  }
+
+  return edits;
+}
+
+function isInsertion(edit: Edit): boolean {
+  return edit.baseStart === edit.baseEnd;
+}
+
+function isSameEdit(a: Edit, b: Edit): boolean {
+  return (
+    a.baseStart === b.baseStart &&
+    a.baseEnd === b.baseEnd &&
+    a.lines.length === b.lines.length &&
+    a.lines.every((line, i) => line === b.lines[i])
+  );
+}
+
+/**
+ * Two edits touch the same region when their base ranges overlap,
+ * when both insert at the same point, or when one inserts inside the other's range
+ */
+function editsOverlap(a: Edit, b: Edit): boolean {
+  if (isInsertion(a) && isInsertion(b)) {
+    return a.baseStart === b.baseStart;
+  }
+  return a.baseStart < b.baseEnd && b.baseStart < a.baseEnd;
+}
+
+/**
+ * Merge server and client edits made against the same base content
+ */
+export function mergeThreeWay(base: string, server: string, client: string): MergeResult {
+  const baseLines = splitLines(base);
+  const serverEdits = collectEdits(baseLines, splitLines(server));
+  const clientEdits = collectEdits(baseLines, splitLines(client));
+
+  const conflicts: MergeConflictRegion[] = [];
+  const sharedServerEdits = new Set<Edit>();
+  const sharedClientEdits = new Set<Edit>();
+
+  for (const serverEdit of serverEdits) {
+    for (const clientEdit of clientEdits) {
+      if (isSameEdit(serverEdit, clientEdit)) {
+        sharedServerEdits.add(serverEdit);
+        sharedClientEdits.add(clientEdit);
+      } else if (editsOverlap(serverEdit, clientEdit)) {
+        conflicts.push({
+          baseStart: Math.min(serverEdit.baseStart, clientEdit.baseStart),
+          baseEnd: Math.max(serverEdit.baseEnd, clientEdit.baseEnd),
+          serverLines: serverEdit.lines,
+          clientLines: clientEdit.lines,
+        });
+      }
+    }
+  }
+
+  if (conflicts.length > 0) {
+    return { clean: false, content: server, regions: [], conflicts };
+  }
+
+  const edits: Array<Edit & { source: MergeSource }> = [
+    ...serverEdits.map((edit) => ({
+      ...edit,
+      source: (sharedServerEdits.has(edit) ? 'both' : 'server') as MergeSource,
+    })),
+    ...clientEdits
+      .filter((edit) => !sharedClientEdits.has(edit))
+      .map((edit) => ({ ...edit, source: 'client' as MergeSource })),
+  ];
+
+  // Apply in base order; an insertion at the start of a replaced range goes first
+  edits.sort(
+    (a, b) => a.baseStart - b.baseStart || Number(!isInsertion(a)) - Number(!isInsertion(b))
+  );
+
+  const merged: string[] = [];
+  const regions: MergedRegion[] = [];
+  let baseIndex = 0;
+
+  for (const edit of edits) {
+    merged.push(...baseLines.slice(baseIndex, edit.baseStart));
+    regions.push({
+      source: edit.source,
+      baseStart: edit.baseStart,
+      baseEnd: edit.baseEnd,
+      startLine: merged.length,
+      lineCount: edit.lines.length,
+    });
+    merged.push(...edit.lines);
+    baseIndex = Math.max(baseIndex, edit.baseEnd);
+  }
+  merged.push(...baseLines.slice(baseIndex));
+
+  return {
+    clean: true,
+    content: merged.join('\n'),
+    regions,
+    conflicts: [],
+  };
+}
+
+/**
+ * Merge a single value (e.g. the title) edited on both sides
+ * Returns `{ clean: false }` when both sides changed it to different values
+ */
+export function mergeValue<T>(
+  base: T,
+  server: T,
+  client: T | undefined
+): { clean: true; value: T } | { clean: false } {
+  if (client === undefined || client === base || client === server) {
+    return { clean: true, value: server };
+  }
+  if (server === base) {
+    return { clean: true, value: client };
+  }
+  return { clean: false };
+}
@@ -0,0 +1,222 @@
+/**
+ * Note Content Normalization
+ *
+ * Note content is either Markdown or HTML from the rich-text editor. The
+ * derived fields (contentPlain, word counts) and the embedding chunker all
+ * work from Markdown, so editor HTML is converted first, keeping headings,
+ * lists, tables and code blocks intact.
+ */
+
+import TurndownService from 'turndown';
+import { marked } from 'marked';
+import type { Token } from 'marked';
+
+// Editor output always starts with a block element; Markdown with a bit of inline HTML doesn't
+const HTML_DOCUMENT_PATTERN =
+  /^<(p|div|h[1-6]|ul|ol|table|pre|blockquote|section|article|figure|hr|br)\b[^>]*>/i;
+
+const WIKI_LINK_PATTERN = /\\\[\\\[(.+?)\\\]\\\]/g;
+
+// `^block-id` at the end of a paragraph, list item or heading (see ./blocks)
+const BLOCK_ID_MARKERS_PATTERN = / \^[A-Za-z0-9-]{1,64}[ \t]*$/gm;
+
+function createTurndown(): TurndownService {
+  const service = new TurndownService({
+    headingStyle: 'atx',
+    hr: '---',
+    bulletListMarker: '-',
+    codeBlockStyle: 'fenced',
+    emDelimiter: '_',
+  });
+
+  // Turndown escapes brackets, which would break [[wiki links]] typed in the editor
+  const escape = service.escape.bind(service);
+  service.escape = (text: string) =>
+    escape(text).replace(
+      WIKI_LINK_PATTERN,
+      (_match, inner: string) => `[[${inner.replace(/\\([\\*_`[\]])/g, '$1')}]]`
+    );
+
+  service.addRule('strikethrough', {
+    filter: ['del', 's', 'strike' as keyof HTMLElementTagNameMap],
+    replacement: (content) => `~~${content}~~`,
+  });
+
+  service.addRule('taskListCheckbox', {
+    filter: (node) =>
+      node.nodeName === 'INPUT' && (node as HTMLInputElement).getAttribute('type') === 'checkbox',
+    replacement: (_content, node) =>
+      (node as HTMLInputElement).hasAttribute('checked') ? '[x] ' : '[ ] ',
+  });
+
+  // Single space after the marker; continuation lines line up with the item text
+  service.addRule('listItem', {
+    filter: 'li',
+    replacement: (content, node) => {
+      const parent = node.parentNode as HTMLElement;
+      let prefix = '- ';
+
+      if (parent.nodeName === 'OL') {
+        const start = Number(parent.getAttribute('start') ?? 1);
+        const index = Array.prototype.indexOf.call(parent.children, node);
+        prefix = `${start + index}. `;
+      }
+
+      const body = content
+        .replace(/^\n+/, '')
+        .replace(/\n+$/, '\n')
+        .replace(/\n(?!$)/g, `\n${' '.repeat(prefix.length)}`)
+        .replace(/^(\[[ x]\]) +/, '$1 ');
+
+      return prefix + body + (node.nextSibling && !body.endsWith('\n') ? '\n' : '');
+    },
+  });
+
+  service.addRule('tableSection', {
+    filter: ['thead', 'tbody', 'tfoot'],
+    replacement: (content) => content,
+  });
+
+  service.addRule('tableCell', {
+    filter: ['th', 'td'],
+    replacement: (content, node) => {
+      const cell = content.replace(/\s+/g, ' ').replace(/\|/g, '\\|').trim();
+      const isFirst = !(node as HTMLElement).previousElementSibling;
+      return `${isFirst ? '|' : ''} ${cell} |`;
+    },
+  });
+
+  // GFM tables need a header row, so the first row always becomes the header
+  service.addRule('tableRow', {
+    filter: 'tr',
+    replacement: (content, node) => {
+      const row = node as HTMLTableRowElement;
+      const table = row.closest('table');
+      const isHeader = table?.querySelector('tr') === row;
+      const separator = isHeader ? `\n|${' --- |'.repeat(Math.max(row.children.length, 1))}` : '';
+      return `\n${content}${separator}`;
+    },
+  });
+
+  service.addRule('table', {
+    filter: 'table',
+    replacement: (content) => `\n\n${content.trim()}\n\n`,
+  });
+
+  return service;
+}
+
+let turndown: TurndownService | null = null;
+
+export function isHtmlContent(content: string): boolean {
+  return HTML_DOCUMENT_PATTERN.test(content.trimStart());
+}
+
+export function htmlToMarkdown(html: string): string {
+  turndown ??= createTurndown();
+  return turndown.turndown(html).trim();
+}
+
+/**
+ * Markdown for a note's content, converting editor HTML when needed
+ */
+export function toMarkdown(content: string): string {
+  return isHtmlContent(content) ? htmlToMarkdown(content) : content;
+}
+
+/**
+ * Remove `^block-id` markers, which are references rather than content
+ */
+export function stripBlockIds(markdown: string): string {
+  return markdown.replace(BLOCK_ID_MARKERS_PATTERN, '');
+}
+
+/**
+ * Character for a numeric entity; like browsers, invalid code points become U+FFFD
+ */
+function fromCodePoint(code: number): string {
+  const isSurrogate = code >= 0xd800 && code <= 0xdfff;
+  return code > 0 && code <= 0x10ffff && !isSurrogate ? String.fromCodePoint(code) : '\uFFFD';
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#(\d+);/g, (_match, code: string) => fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_match, code: string) => fromCodePoint(parseInt(code, 16)))
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+function tokensToText(tokens: Token[]): string[] {
+  const blocks: string[] = [];
+
+  for (const token of tokens) {
+    switch (token.type) {
+      case 'space':
+      case 'hr':
+        break;
+      case 'code':
+        blocks.push(token.text);
+        break;
+      case 'html':
+        blocks.push(decodeEntities(token.text.replace(/<[^>]*>/g, ' ')));
+        break;
+      case 'list':
+        for (const item of token.items) {
+          blocks.push(...tokensToText(item.tokens));
+        }
+        break;
+      case 'table':
+        for (const row of [token.header, ...token.rows]) {
+          blocks.push(row.map((cell: any) => tokensToText(cell.tokens).join(' ')).join(' '));
+        }
+        break;
+      case 'image':
+        blocks.push(token.text);
+        break;
+      case 'br':
+        blocks.push('\n');
+        break;
+      case 'blockquote':
+        blocks.push(...tokensToText(token.tokens ?? []));
+        break;
+      default:
+        // Paragraphs, headings and inline formatting: their children are inline
+        if ('tokens' in token && token.tokens) {
+          blocks.push(tokensToText(token.tokens).join(''));
+        } else if ('text' in token) {
+          blocks.push(decodeEntities(token.text));
+        }
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Readable text without Markdown syntax, for full-text search and word counts
+ */
+export function markdownToPlainText(markdown: string): string {
+  return tokensToText(marked.lexer(stripBlockIds(markdown)))
+    .map((block) => block.replace(/[ \t]+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+export function countWords(text: string): number {
+  return text.trim().split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Everything derived from a note's content
+ */
+export function normalizeNoteContent(content: string) {
+  const markdown = toMarkdown(content);
+  const plain = markdownToPlainText(markdown);
+
+  return { markdown, plain, wordCount: countWords(plain) };
+}
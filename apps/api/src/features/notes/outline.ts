@@ -0,0 +1,182 @@
+/**
+ * Note Outline
+ *
+ * Heading tree for a note's table of contents, built with the same section
+ * parsing the embedding chunker uses. Anchors are slugs of the heading text,
+ * so they survive edits that don't rename or reorder the heading.
+ */
+
+import type { GetNoteSectionInput, NoteOutlineSection } from '@loqi-notes/shared-types';
+import { NotFoundError } from '../../utils/errors';
+import { parseMarkdownSections, buildSectionPath } from '../embeddings';
+import { toMarkdown, markdownToPlainText, countWords } from './normalize';
+import { requireNoteAccess } from './access';
+
+interface IndexedHeading {
+  anchor: string;
+  level: number;
+  title: string;
+  path: string[];
+  wordCount: number;
+  startLine: number;
+  // First line after the heading's own text, before any subsection
+  ownEndLine: number;
+  // First line after the heading's last subsection
+  endLine: number;
+}
+
+export function slugifyHeading(title: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s-]/gu, '')
+    .trim()
+    .replace(/\s+/g, '-');
+
+  return slug || 'section';
+}
+
+function headingTitle(headerText: string): string {
+  return markdownToPlainText(headerText) || headerText;
+}
+
+/**
+ * Every heading in document order with its anchor and line range
+ */
+function indexHeadings(markdown: string) {
+  const lines = markdown.split('\n');
+  const sections = parseMarkdownSections(markdown);
+  const anchorCounts = new Map<string, number>();
+  const headings: IndexedHeading[] = [];
+  let introWordCount = 0;
+
+  sections.forEach((section, index) => {
+    const wordCount = countWords(markdownToPlainText(section.content));
+
+    if (section.headerLevel === 0) {
+      introWordCount = wordCount;
+      return;
+    }
+
+    const title = headingTitle(section.headerText);
+    const slug = slugifyHeading(title);
+    const seen = anchorCounts.get(slug) ?? 0;
+    anchorCounts.set(slug, seen + 1);
+
+    const next = sections[index + 1];
+    const nextSibling = sections
+      .slice(index + 1)
+      .find((later) => later.headerLevel > 0 && later.headerLevel <= section.headerLevel);
+
+    headings.push({
+      anchor: seen === 0 ? slug : `${slug}-${seen}`,
+      level: section.headerLevel,
+      title,
+      path: buildSectionPath(sections, index).map(headingTitle),
+      wordCount,
+      startLine: section.startLine,
+      ownEndLine: next ? next.startLine : lines.length,
+      endLine: nextSibling ? nextSibling.startLine : lines.length,
+    });
+  });
+
+  return { lines, headings, introWordCount };
+}
+
+/**
+ * Nest headings under the nearest heading above them with a lower level
+ */
+export function buildOutline(markdown: string) {
+  const { headings, introWordCount } = indexHeadings(markdown);
+  const roots: NoteOutlineSection[] = [];
+  const stack: NoteOutlineSection[] = [];
+
+  for (const heading of headings) {
+    const node: NoteOutlineSection = {
+      anchor: heading.anchor,
+      level: heading.level,
+      title: heading.title,
+      path: heading.path,
+      wordCount: heading.wordCount,
+      totalWordCount: heading.wordCount,
+      children: [],
+    };
+
+    while (stack.length > 0 && stack[stack.length - 1].level >= node.level) {
+      stack.pop();
+    }
+
+    const parent = stack[stack.length - 1];
+    (parent ? parent.children : roots).push(node);
+
+    // Ancestors on the stack include this section in their totals
+    for (const ancestor of stack) {
+      ancestor.totalWordCount += node.wordCount;
+    }
+
+    stack.push(node);
+  }
+
+  return { sections: roots, introWordCount };
+}
+
+/**
+ * Markdown for one section, starting with its heading
+ */
+export function extractSection(markdown: string, anchor: string, includeSubsections: boolean) {
+  const { lines, headings } = indexHeadings(markdown);
+  const index = headings.findIndex((heading) => heading.anchor === anchor);
+
+  if (index === -1) {
+    return null;
+  }
+
+  const heading = headings[index];
+  const endLine = includeSubsections ? heading.endLine : heading.ownEndLine;
+  const content = lines.slice(heading.startLine, endLine).join('\n').trim();
+  const subsections = includeSubsections
+    ? headings.slice(index + 1).filter((later) => later.startLine < heading.endLine)
+    : [];
+
+  return {
+    anchor: heading.anchor,
+    level: heading.level,
+    title: heading.title,
+    path: heading.path,
+    content,
+    wordCount: subsections.reduce((total, later) => total + later.wordCount, heading.wordCount),
+    previousAnchor: headings[index - 1]?.anchor ?? null,
+    nextAnchor: headings[index + 1]?.anchor ?? null,
+  };
+}
+
+export async function getNoteOutline(userId: string, noteId: string, db: any) {
+  const { note } = await requireNoteAccess(userId, noteId, 'viewer', db);
+  const outline = buildOutline(toMarkdown(note.content));
+
+  return {
+    noteId: note.id,
+    version: note.version,
+    title: note.title,
+    wordCount: note.wordCount,
+    introWordCount: outline.introWordCount,
+    sections: outline.sections,
+  };
+}
+
+/**
+ * One section of a note as Markdown, for reading long notes a section at a time
+ */
+export async function getNoteSection(userId: string, input: GetNoteSectionInput, db: any) {
+  const { note } = await requireNoteAccess(userId, input.id, 'viewer', db);
+  const section = extractSection(toMarkdown(note.content), input.anchor, input.includeSubsections);
+
+  if (!section) {
+    throw new NotFoundError('Section', input.anchor);
+  }
+
+  return {
+    noteId: note.id,
+    version: note.version,
+    ...section,
+  };
+}
@@ -0,0 +1,110 @@
+/**
+ * Note Rendering
+ *
+ * Renders a note for public share links, either as a standalone HTML page or
+ * as Markdown. Note content may contain raw HTML from the editor, so rendered
+ * output is always sanitized. [[Wiki links]] point at notes the reader can't
+ * open, so they're flattened to their display text, and `^block-id` markers
+ * are dropped.
+ */
+
+import { marked } from 'marked';
+import sanitizeHtml from 'sanitize-html';
+import { parseWikiLinks } from './wikilinks';
+import { stripBlockIds } from './normalize';
+
+export interface RenderableNote {
+  title: string;
+  content: string;
+  updatedAt: Date;
+}
+
+const SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
+  allowedTags: [...sanitizeHtml.defaults.allowedTags, 'img', 'del', 'input'],
+  allowedAttributes: {
+    a: ['href', 'title'],
+    img: ['src', 'alt', 'title'],
+    input: ['type', 'checked', 'disabled'], // Task list checkboxes
+    code: ['class'],
+    th: ['align'],
+    td: ['align'],
+  },
+  allowedSchemes: ['http', 'https', 'mailto'],
+  allowedSchemesByTag: { img: ['https'] },
+  transformTags: {
+    a: sanitizeHtml.simpleTransform('a', { rel: 'noopener noreferrer nofollow' }),
+  },
+};
+
+/**
+ * Replace [[wiki links]] with their alias or target title
+ */
+export function flattenWikiLinks(content: string): string {
+  let result = '';
+  let cursor = 0;
+
+  for (const link of parseWikiLinks(content)) {
+    result += content.slice(cursor, link.position);
+    result += link.alias ?? link.targetRef;
+    cursor = link.position + link.raw.length;
+  }
+
+  return result + content.slice(cursor);
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Render note content (Markdown and/or editor HTML) to sanitized HTML
+ */
+export function renderNoteHtml(content: string): string {
+  const html = marked.parse(stripBlockIds(flattenWikiLinks(content)), {
+    async: false,
+    gfm: true,
+  }) as string;
+  return sanitizeHtml(html, SANITIZE_OPTIONS);
+}
+
+export function renderNoteMarkdown(note: RenderableNote): string {
+  return `# ${note.title}\n\n${stripBlockIds(flattenWikiLinks(note.content)).trim()}\n`;
+}
+
+/**
+ * Standalone HTML page for a shared note
+ */
+export function renderSharedNotePage(note: RenderableNote): string {
+  const title = escapeHtml(note.title);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex, nofollow">
+<title>${title}</title>
+<style>
+body { max-width: 46rem; margin: 2rem auto; padding: 0 1rem; font: 16px/1.6 system-ui, sans-serif; color: #1f2937; }
+pre { overflow-x: auto; padding: 0.75rem; background: #f3f4f6; border-radius: 6px; }
+img { max-width: 100%; }
+table { border-collapse: collapse; }
+th, td { border: 1px solid #d1d5db; padding: 0.25rem 0.5rem; }
+footer { margin-top: 3rem; color: #6b7280; font-size: 0.875rem; }
+</style>
+</head>
+<body>
+<article>
+<h1>${title}</h1>
+${renderNoteHtml(note.content)}
+</article>
+<footer>Last updated ${escapeHtml(note.updatedAt.toISOString().slice(0, 10))}</footer>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,145 @@
+/**
+ * Note Revisions
+ *
+ * History, diff and revert on top of the note_revisions snapshots
+ * written by applyNoteUpdate.
+ */
+
+import { eq, and, desc, sql } from 'drizzle-orm';
+import type {
+  NoteHistoryInput,
+  DiffNoteVersionsInput,
+  RevertNoteInput,
+} from '@loqi-notes/shared-types';
+import { noteRevisions } from '../../db/schema';
+import { NotFoundError, ValidationError } from '../../utils/errors';
+import { applyNoteUpdate, getNoteById } from './service';
+import { requireNoteAccess } from './access';
+import type { NoteAccessRole } from './access';
+import { diffLines, getDiffStats } from './diff';
+
+/**
+ * Load a note for history access: viewers can read history, reverting needs editor
+ */
+async function findNote(userId: string, noteId: string, minRole: NoteAccessRole, db: any) {
+  const { note } = await requireNoteAccess(userId, noteId, minRole, db);
+  return note;
+}
+
+async function loadRevision(note: any, version: number, db: any) {
+  const revision = await db.query.noteRevisions.findFirst({
+    where: and(eq(noteRevisions.noteId, note.id), eq(noteRevisions.version, version)),
+  });
+
+  if (revision) {
+    return revision;
+  }
+
+  // Notes that predate revision tracking only have their live row for the current version
+  if (version === note.version) {
+    return {
+      noteId: note.id,
+      userId: note.userId,
+      version: note.version,
+      title: note.title,
+      content: note.content,
+      ocrText: note.ocrText,
+      createdAt: note.updatedAt,
+    };
+  }
+
+  throw new NotFoundError('Note revision', `${note.id}@${version}`);
+}
+
+export async function getNoteHistory(userId: string, input: NoteHistoryInput, db: any) {
+  const { id, limit, offset } = input;
+  const note = await findNote(userId, id, 'viewer', db);
+
+  const revisionsList = await db
+    .select({
+      version: noteRevisions.version,
+      title: noteRevisions.title,
+      createdAt: noteRevisions.createdAt,
+    })
+    .from(noteRevisions)
+    .where(eq(noteRevisions.noteId, id))
+    .orderBy(desc(noteRevisions.version))
+    .limit(limit)
+    .offset(offset);
+
+  const countResult = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(noteRevisions)
+    .where(eq(noteRevisions.noteId, id));
+
+  const total = Number(countResult[0]?.count ?? 0);
+
+  return {
+    noteId: id,
+    currentVersion: note.version,
+    revisions: revisionsList,
+    total,
+    limit,
+    offset,
+    hasMore: offset + revisionsList.length < total,
+  };
+}
+
+export async function getNoteRevision(userId: string, noteId: string, version: number, db: any) {
+  const note = await findNote(userId, noteId, 'viewer', db);
+  return loadRevision(note, version, db);
+}
+
+export async function diffNoteVersions(userId: string, input: DiffNoteVersionsInput, db: any) {
+  const { id, fromVersion, toVersion } = input;
+  const note = await findNote(userId, id, 'viewer', db);
+
+  const [from, to] = await Promise.all([
+    loadRevision(note, fromVersion, db),
+    loadRevision(note, toVersion, db),
+  ]);
+
+  const hunks = diffLines(from.content, to.content);
+
+  return {
+    noteId: id,
+    fromVersion,
+    toVersion,
+    title: {
+      from: from.title,
+      to: to.title,
+      changed: from.title !== to.title,
+    },
+    ocrTextChanged: (from.ocrText ?? null) !== (to.ocrText ?? null),
+    hunks,
+    stats: getDiffStats(hunks),
+  };
+}
+
+/**
+ * Revert a note to an earlier version
+ * Writes the old snapshot as a new version so history stays linear.
+ */
+export async function revertNote(userId: string, input: RevertNoteInput, db: any) {
+  const { id, toVersion } = input;
+  const note = await findNote(userId, id, 'editor', db);
+
+  if (toVersion === note.version) {
+    throw new ValidationError(`Note is already at version ${toVersion}`);
+  }
+
+  const revision = await loadRevision(note, toVersion, db);
+
+  const updated = await applyNoteUpdate(
+    note.userId,
+    note,
+    {
+      title: revision.title,
+      content: revision.content,
+      ocrText: revision.ocrText,
+    },
+    db
+  );
+
+  return getNoteById(userId, updated.id, db);
+}
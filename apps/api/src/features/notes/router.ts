@@ -7,11 +7,67 @@ import {
   updateNote,
   deleteNote,
   restoreNote,
+  updateNoteState,
 } from './service';
+import { getNoteHistory, getNoteRevision, diffNoteVersions, revertNote } from './revisions';
+import { listConflicts, resolveConflict } from './conflicts';
+import { pullChanges, pushChanges } from './sync';
+import { getBacklinks, getOutgoingLinks, getUnresolvedLinks } from './links';
+import { listTrash, purgeNote, emptyTrash } from './trash';
+import { createShare, listShares, revokeShare } from './shares';
+import {
+  addCollaborator,
+  listCollaborators,
+  updateCollaborator,
+  removeCollaborator,
+  listSharedWithMe,
+  setSharedSearch,
+  listComments,
+  addComment,
+  deleteComment,
+} from './collaborators';
+import { listAttachments, deleteAttachment } from './attachments';
+import { getNoteOutline, getNoteSection } from './outline';
+import { listBlocks, getBlock } from './blocks';
+import {
+  bulkDeleteNotes,
+  bulkRestoreNotes,
+  bulkAddTags,
+  bulkRemoveTags,
+  bulkLinkToAssignment,
+} from './bulk';
+import { createNoteFromTemplate } from '../templates/service';
+import { exportNotes, getExport } from '../exports/service';
 import {
   CreateNoteInputSchema,
   UpdateNoteInputSchema,
+  UpdateNoteStateInputSchema,
   ListNotesInputSchema,
+  NoteHistoryInputSchema,
+  GetNoteRevisionInputSchema,
+  DiffNoteVersionsInputSchema,
+  RevertNoteInputSchema,
+  ListNoteConflictsInputSchema,
+  ResolveNoteConflictInputSchema,
+  SyncPullInputSchema,
+  SyncPushInputSchema,
+  CreateNoteFromTemplateInputSchema,
+  ExportNotesInputSchema,
+  GetNoteExportInputSchema,
+  ListTrashInputSchema,
+  BulkNoteIdsInputSchema,
+  BulkNoteTagsInputSchema,
+  BulkLinkToAssignmentInputSchema,
+  CreateNoteShareInputSchema,
+  ListNoteSharesInputSchema,
+  RevokeNoteShareInputSchema,
+  AddCollaboratorInputSchema,
+  ListCollaboratorsInputSchema,
+  UpdateCollaboratorInputSchema,
+  SetSharedSearchInputSchema,
+  AddNoteCommentInputSchema,
+  GetNoteSectionInputSchema,
+  GetNoteBlockInputSchema,
 } from '@loqi-notes/shared-types';
 
 export const notesRouter = router({
@@ -21,6 +77,12 @@ export const notesRouter = router({
       return createNote(ctx.user.id, input, ctx.db);
     }),
 
+  createFromTemplate: protectedProcedure
+    .input(CreateNoteFromTemplateInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      return createNoteFromTemplate(ctx.user.id, input, ctx.db);
+    }),
+
   list: protectedProcedure
     .input(ListNotesInputSchema)
     .query(async ({ input, ctx }) => {
@@ -50,4 +112,240 @@ export const notesRouter = router({
     .mutation(async ({ input, ctx }) => {
       return restoreNote(ctx.user.id, input.id, ctx.db);
     }),
+
+  setState: protectedProcedure
+    .input(UpdateNoteStateInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      return updateNoteState(ctx.user.id, input, ctx.db);
+    }),
+
+  history: protectedProcedure
+    .input(NoteHistoryInputSchema)
+    .query(async ({ input, ctx }) => {
+      return getNoteHistory(ctx.user.id, input, ctx.db);
+    }),
+
+  getRevision: protectedProcedure
+    .input(GetNoteRevisionInputSchema)
+    .query(async ({ input, ctx }) => {
+      return getNoteRevision(ctx.user.id, input.id, input.version, ctx.db);
+    }),
+
+  diff: protectedProcedure
+    .input(DiffNoteVersionsInputSchema)
+    .query(async ({ input, ctx }) => {
+      return diffNoteVersions(ctx.user.id, input, ctx.db);
+    }),
+
+  revert: protectedProcedure
+    .input(RevertNoteInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      return revertNote(ctx.user.id, input, ctx.db);
+    }),
+
+  listConflicts: protectedProcedure
+    .input(ListNoteConflictsInputSchema)
+    .query(async ({ input, ctx }) => {
+      return listConflicts(ctx.user.id, input, ctx.db);
+    }),
+
+  resolveConflict: protectedProcedure
+    .input(ResolveNoteConflictInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      return resolveConflict(ctx.user.id, input, ctx.db);
+    }),
+
+  sync: router({
+    pull: protectedProcedure
+      .input(SyncPullInputSchema)
+      .query(async ({ input, ctx }) => {
+        return pullChanges(ctx.user.id, input, ctx.db);
+      }),
+
+    push: protectedProcedure
+      .input(SyncPushInputSchema)
+      .mutation(async ({ input, ctx }) => {
+        return pushChanges(ctx.user.id, input, ctx.db);
+      }),
+  }),
+
+  backlinks: protectedProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .query(async ({ input, ctx }) => {
+      return getBacklinks(ctx.user.id, input.id, ctx.db);
+    }),
+
+  outgoingLinks: protectedProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .query(async ({ input, ctx }) => {
+      return getOutgoingLinks(ctx.user.id, input.id, ctx.db);
+    }),
+
+  unresolvedLinks: protectedProcedure.query(async ({ ctx }) => {
+    return getUnresolvedLinks(ctx.user.id, ctx.db);
+  }),
+
+  export: protectedProcedure
+    .input(ExportNotesInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      return exportNotes(ctx.user.id, input, ctx.db);
+    }),
+
+  getExport: protectedProcedure
+    .input(GetNoteExportInputSchema)
+    .query(async ({ input, ctx }) => {
+      return getExport(ctx.user.id, input.id, ctx.db);
+    }),
+
+  listTrash: protectedProcedure
+    .input(ListTrashInputSchema)
+    .query(async ({ input, ctx }) => {
+      return listTrash(ctx.user.id, input, ctx.db);
+    }),
+
+  purge: protectedProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      return purgeNote(ctx.user.id, input.id, ctx.db);
+    }),
+
+  emptyTrash: protectedProcedure.mutation(async ({ ctx }) => {
+    return emptyTrash(ctx.user.id, ctx.db);
+  }),
+
+  bulkDelete: protectedProcedure
+    .input(BulkNoteIdsInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      return bulkDeleteNotes(ctx.user.id, input, ctx.db);
+    }),
+
+  bulkRestore: protectedProcedure
+    .input(BulkNoteIdsInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      return bulkRestoreNotes(ctx.user.id, input, ctx.db);
+    }),
+
+  bulkAddTags: protectedProcedure
+    .input(BulkNoteTagsInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      return bulkAddTags(ctx.user.id, input, ctx.db);
+    }),
+
+  bulkRemoveTags: protectedProcedure
+    .input(BulkNoteTagsInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      return bulkRemoveTags(ctx.user.id, input, ctx.db);
+    }),
+
+  bulkLinkToAssignment: protectedProcedure
+    .input(BulkLinkToAssignmentInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      return bulkLinkToAssignment(ctx.user.id, input, ctx.db);
+    }),
+
+  share: protectedProcedure
+    .input(CreateNoteShareInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      return createShare(ctx.user.id, input, ctx.db);
+    }),
+
+  listShares: protectedProcedure
+    .input(ListNoteSharesInputSchema)
+    .query(async ({ input, ctx }) => {
+      return listShares(ctx.user.id, input, ctx.db);
+    }),
+
+  revokeShare: protectedProcedure
+    .input(RevokeNoteShareInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      return revokeShare(ctx.user.id, input.id, ctx.db);
+    }),
+
+  addCollaborator: protectedProcedure
+    .input(AddCollaboratorInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      return addCollaborator(ctx.user.id, input, ctx.db);
+    }),
+
+  listCollaborators: protectedProcedure
+    .input(ListCollaboratorsInputSchema)
+    .query(async ({ input, ctx }) => {
+      return listCollaborators(ctx.user.id, input, ctx.db);
+    }),
+
+  updateCollaborator: protectedProcedure
+    .input(UpdateCollaboratorInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      return updateCollaborator(ctx.user.id, input, ctx.db);
+    }),
+
+  removeCollaborator: protectedProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      return removeCollaborator(ctx.user.id, input.id, ctx.db);
+    }),
+
+  sharedWithMe: protectedProcedure.query(async ({ ctx }) => {
+    return listSharedWithMe(ctx.user.id, ctx.db);
+  }),
+
+  setSharedSearch: protectedProcedure
+    .input(SetSharedSearchInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      return setSharedSearch(ctx.user.id, input, ctx.db);
+    }),
+
+  listComments: protectedProcedure
+    .input(z.object({ noteId: z.string().uuid() }))
+    .query(async ({ input, ctx }) => {
+      return listComments(ctx.user.id, input.noteId, ctx.db);
+    }),
+
+  addComment: protectedProcedure
+    .input(AddNoteCommentInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      return addComment(ctx.user.id, input, ctx.db);
+    }),
+
+  deleteComment: protectedProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      return deleteComment(ctx.user.id, input.id, ctx.db);
+    }),
+
+  listAttachments: protectedProcedure
+    .input(z.object({ noteId: z.string().uuid() }))
+    .query(async ({ input, ctx }) => {
+      return listAttachments(ctx.user.id, input.noteId, ctx.db);
+    }),
+
+  deleteAttachment: protectedProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      return deleteAttachment(ctx.user.id, input.id, ctx.db);
+    }),
+
+  getOutline: protectedProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .query(async ({ input, ctx }) => {
+      return getNoteOutline(ctx.user.id, input.id, ctx.db);
+    }),
+
+  getSection: protectedProcedure
+    .input(GetNoteSectionInputSchema)
+    .query(async ({ input, ctx }) => {
+      return getNoteSection(ctx.user.id, input, ctx.db);
+    }),
+
+  listBlocks: protectedProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .query(async ({ input, ctx }) => {
+      return listBlocks(ctx.user.id, input.id, ctx.db);
+    }),
+
+  getBlock: protectedProcedure
+    .input(GetNoteBlockInputSchema)
+    .query(async ({ input, ctx }) => {
+      return getBlock(ctx.user.id, input, ctx.db);
+    }),
 });
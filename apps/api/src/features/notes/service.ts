@@ -1,40 +1,245 @@
-import { eq, and, isNull, desc, asc, sql, inArray } from 'drizzle-orm';
+import { eq, and, or, isNull, isNotNull, sql, inArray } from 'drizzle-orm';
 import type {
   CreateNoteInput,
   UpdateNoteInput,
+  UpdateNoteStateInput,
   ListNotesInput,
 } from '@loqi-notes/shared-types';
-import { notes, tags, noteTags, users } from '../../db/schema';
+import {
+  notes,
+  noteRevisions,
+  noteConflicts,
+  noteChunks,
+  tags,
+  noteTags,
+  users,
+  courses,
+} from '../../db/schema';
+import type { NewNote } from '../../db/schema';
 import { NotFoundError, ConflictError } from '../../utils/errors';
+import {
+  encodeSortCursor,
+  decodeSortCursor,
+  keysetCondition,
+  orderBySortKeys,
+  buildCursorPage,
+  type SortKey,
+} from '../../utils/cursor';
 import { inngest } from '../../lib/inngest';
+import { publishNoteChange } from '../../lib/realtime';
 import { logger } from '../../lib/logger';
-
-function calculateWordCount(content: string): number {
-  return content.trim().split(/\s+/).filter(Boolean).length;
-}
+import { mergeThreeWay, mergeValue } from './merge';
+import { normalizeNoteContent } from './normalize';
+import { syncNoteLinks, resolvePendingLinks } from './links';
+import { syncNoteBlocks } from './blocks';
+import {
+  findNotebook,
+  getNotebookSubtreeIds,
+  moveOutOfDeletedNotebooks,
+} from '../notebooks/service';
+import { taggedNoteIdsQuery } from '../tags/service';
+import { getNoteAccess, requireNoteAccess, sharedNoteIdsQuery } from './access';
+import type { MergeConflictRegion, MergedRegion } from './merge';
 
 function calculateReadingTime(wordCount: number): number {
   const wordsPerMinute = 200;
   return Math.ceil(wordCount / wordsPerMinute);
 }
 
-function stripHtml(html: string): string {
-  return html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+/**
+ * Fields that can change when a new version of a note is written
+ */
+export type NoteChanges = Partial<
+  Pick<
+    NewNote,
+    'title' | 'content' | 'ocrText' | 'hasHandwriting' | 'courseId' | 'clientId' | 'clientUpdatedAt'
+  >
+>;
+
+async function findCourse(userId: string, courseId: string, db: any) {
+  const course = await db.query.courses.findFirst({
+    where: and(eq(courses.id, courseId), eq(courses.userId, userId), isNull(courses.deletedAt)),
+  });
+
+  if (!course) {
+    throw new NotFoundError('Course', courseId);
+  }
+
+  return course;
+}
+
+export interface PendingNoteEvent {
+  name: 'notes/created' | 'notes/updated';
+  note: any;
+  userId: string;
+  reembed?: boolean;
+}
+
+/**
+ * Tell the owner's connected devices about the change and, unless `reembed` is
+ * false, emit an Inngest event so the embedding job picks up the note
+ * Fire and forget - don't await to avoid blocking the response
+ */
+export function emitNoteEvent(
+  name: 'notes/created' | 'notes/updated',
+  note: any,
+  userId: string,
+  reembed: boolean = true
+): void {
+  if (reembed) {
+    inngest
+      .send({
+        name,
+        data: {
+          noteId: note.id,
+          userId,
+          title: note.title,
+          content: note.content,
+          ocrText: note.ocrText ?? undefined,
+          courseTag: note.courseId ?? undefined,
+        },
+      })
+      .catch((error) => {
+        logger.error({ error, noteId: note.id }, `Failed to send ${name} event`);
+      });
+  }
+
+  publishNoteChange(
+    userId,
+    name === 'notes/created' ? 'created' : 'updated',
+    note.id,
+    note.version
+  );
+}
+
+/**
+ * Emit a note event now, or queue it for callers inside a transaction, who emit
+ * the queued events once it has committed
+ */
+function emitOrQueueNoteEvent(event: PendingNoteEvent, pendingEvents?: PendingNoteEvent[]) {
+  if (pendingEvents) {
+    pendingEvents.push(event);
+  } else {
+    emitNoteEvent(event.name, event.note, event.userId, event.reembed);
+  }
+}
+
+/**
+ * Store a snapshot of the note at its current version
+ * Existing snapshots are kept as-is, so this is safe to call more than once per version
+ */
+export async function snapshotRevision(note: any, db: any): Promise<void> {
+  await db
+    .insert(noteRevisions)
+    .values({
+      noteId: note.id,
+      userId: note.userId,
+      version: note.version,
+      title: note.title,
+      content: note.content,
+      ocrText: note.ocrText,
+    })
+    .onConflictDoNothing();
+}
+
+/**
+ * Write a new version of a note on top of `currentNote`
+ * Bumps the version, snapshots the result, publishes the change and re-embeds
+ * when content changed.
+ * Throws ConflictError if the note was modified since `currentNote` was read.
+ */
+export async function applyNoteUpdate(
+  userId: string,
+  currentNote: any,
+  changes: NoteChanges,
+  db: any,
+  pendingEvents?: PendingNoteEvent[]
+) {
+  // Notes created before revisions were recorded have no snapshot of their current version
+  await snapshotRevision(currentNote, db);
+
+  const updates: any = {
+    ...changes,
+    version: currentNote.version + 1,
+    updatedAt: new Date(),
+  };
+
+  if (changes.content) {
+    const { plain, wordCount } = normalizeNoteContent(changes.content);
+    updates.contentPlain = plain;
+    updates.wordCount = wordCount;
+    updates.readingTimeMinutes = calculateReadingTime(updates.wordCount);
+  }
+
+  const [updated] = await db
+    .update(notes)
+    .set(updates)
+    .where(
+      and(
+        eq(notes.id, currentNote.id),
+        eq(notes.userId, userId),
+        eq(notes.version, currentNote.version)
+      )
+    )
+    .returning();
+
+  if (!updated) {
+    throw new ConflictError(
+      `Note has been modified. Current version is newer than ${currentNote.version}`
+    );
+  }
+
+  await snapshotRevision(updated, db);
+
+  // Course only feeds retrieval filters, so existing chunks are retagged instead of re-embedded
+  if (updated.courseId !== currentNote.courseId) {
+    await db
+      .update(noteChunks)
+      .set({ courseTag: updated.courseId, updatedAt: new Date() })
+      .where(eq(noteChunks.noteId, updated.id));
+  }
+
+  // Keep [[wiki links]] from and to this note and its block ids up to date
+  if (changes.content !== undefined) {
+    await syncNoteLinks(userId, updated, db);
+    await syncNoteBlocks(updated, db);
+  }
+  if (updated.title !== currentNote.title) {
+    await resolvePendingLinks(userId, updated, db);
+  }
+
+  // Devices hear about every edit; embeddings are only regenerated when content changed
+  emitOrQueueNoteEvent(
+    { name: 'notes/updated', note: updated, userId, reembed: Boolean(changes.content) },
+    pendingEvents
+  );
+
+  return updated;
 }
 
 export async function createNote(
   userId: string,
   input: CreateNoteInput,
-  db: any
+  db: any,
+  pendingEvents?: PendingNoteEvent[]
 ) {
-  const contentPlain = stripHtml(input.content);
-  const wordCount = calculateWordCount(contentPlain);
+  if (input.notebookId) {
+    await findNotebook(userId, input.notebookId, db);
+  }
+
+  if (input.courseId) {
+    await findCourse(userId, input.courseId, db);
+  }
+
+  const { plain: contentPlain, wordCount } = normalizeNoteContent(input.content);
   const readingTimeMinutes = calculateReadingTime(wordCount);
 
   const [note] = await db
     .insert(notes)
     .values({
       userId,
+      notebookId: input.notebookId,
+      courseId: input.courseId,
       title: input.title,
       content: input.content,
       contentPlain,
@@ -75,34 +280,26 @@ export async function createNote(
     })
     .where(eq(users.id, userId));
 
+  // Record version 1 in the revision history
+  await snapshotRevision(note, db);
+
+  // Store outgoing [[wiki links]] and resolve links that were waiting for this title
+  await syncNoteLinks(userId, note, db);
+  await resolvePendingLinks(userId, note, db);
+  await syncNoteBlocks(note, db);
+
   // Emit Inngest event for embedding generation
-  // Fire and forget - don't await to avoid blocking the response
-  inngest
-    .send({
-      name: 'notes/created',
-      data: {
-        noteId: note.id,
-        userId,
-        title: note.title,
-        content: note.content,
-        courseTag: undefined, // TODO: Get from tags when course tags are implemented
-      },
-    })
-    .catch((error) => {
-      logger.error({ error, noteId: note.id }, 'Failed to send notes/created event');
-    });
+  emitOrQueueNoteEvent({ name: 'notes/created', note, userId }, pendingEvents);
 
   return getNoteById(userId, note.id, db);
 }
 
+/**
+ * Get a note the user owns or that was shared with them
+ * `role` tells clients what the user may do with it.
+ */
 export async function getNoteById(userId: string, noteId: string, db: any) {
-  const note = await db.query.notes.findFirst({
-    where: and(eq(notes.id, noteId), eq(notes.userId, userId)),
-  });
-
-  if (!note) {
-    throw new NotFoundError('Note', noteId);
-  }
+  const { note, role } = await getNoteAccess(userId, noteId, db);
 
   // Get tags for this note
   const noteTagsResult = await db
@@ -118,56 +315,15 @@ export async function getNoteById(userId: string, noteId: string, db: any) {
 
   return {
     ...note,
+    role,
     tags: noteTagsResult,
   };
 }
 
-export async function listNotes(userId: string, input: ListNotesInput, db: any) {
-  const { limit, offset, tagIds, searchQuery: _searchQuery, includeDeleted, sortBy, sortOrder } = input;
-  // Note: searchQuery is reserved for full-text search implementation (Phase 2)
-
-  // Build where conditions
-  const conditions = [eq(notes.userId, userId)];
-
-  if (!includeDeleted) {
-    conditions.push(isNull(notes.deletedAt));
-  }
-
-  // Build the base query
-  let query = db
-    .select()
-    .from(notes)
-    .where(and(...conditions));
-
-  // Filter by tags if provided
-  if (tagIds && tagIds.length > 0) {
-    const noteIdsWithTags = db
-      .selectDistinct({ noteId: noteTags.noteId })
-      .from(noteTags)
-      .where(inArray(noteTags.tagId, tagIds));
-
-    query = query.where(inArray(notes.id, noteIdsWithTags));
-  }
-
-  // Apply sorting
-  const sortColumn = sortBy === 'title' ? notes.title : sortBy === 'createdAt' ? notes.createdAt : notes.updatedAt;
-  const sortFn = sortOrder === 'asc' ? asc : desc;
-  query = query.orderBy(sortFn(sortColumn));
-
-  // Apply pagination
-  query = query.limit(limit).offset(offset);
-
-  const notesList = await query;
-
-  // Get total count
-  const countResult = await db
-    .select({ count: sql<number>`count(*)` })
-    .from(notes)
-    .where(and(...conditions));
-
-  const total = Number(countResult[0]?.count ?? 0);
-
-  // Get tags for each note
+/**
+ * Load the tags for a list of notes and attach them as `tags`
+ */
+export async function attachTags(notesList: any[], db: any) {
   const noteIds = notesList.map((n: any) => n.id);
   const allNoteTags = noteIds.length > 0
     ? await db
@@ -197,80 +353,322 @@ export async function listNotes(userId: string, input: ListNotesInput, db: any)
     return acc;
   }, {});
 
-  const notesWithTags = notesList.map((note: any) => ({
+  return notesList.map((note: any) => ({
     ...note,
     tags: tagsByNoteId[note.id] || [],
   }));
+}
+
+export async function listNotes(userId: string, input: ListNotesInput, db: any) {
+  const {
+    limit,
+    offset,
+    cursor,
+    includeTotal,
+    tagIds,
+    includeDescendantTags,
+    notebookId,
+    recursive,
+    courseId,
+    isPinned,
+    isFavorite,
+    archived,
+    searchQuery,
+    includeDeleted,
+    sortBy,
+    sortOrder,
+    scope,
+  } = input;
+
+  // Build where conditions
+  const conditions = [];
+
+  if (scope === 'owned') {
+    conditions.push(eq(notes.userId, userId));
+  } else if (scope === 'shared') {
+    conditions.push(sql`${notes.id} IN ${sharedNoteIdsQuery(userId)}`);
+  } else {
+    conditions.push(
+      or(eq(notes.userId, userId), sql`${notes.id} IN ${sharedNoteIdsQuery(userId)}`)!
+    );
+  }
+
+  // Collaborators never see the owner's trash
+  if (!includeDeleted) {
+    conditions.push(isNull(notes.deletedAt));
+  } else if (scope !== 'owned') {
+    conditions.push(or(eq(notes.userId, userId), isNull(notes.deletedAt))!);
+  }
+
+  if (archived === 'exclude') {
+    conditions.push(isNull(notes.archivedAt));
+  } else if (archived === 'only') {
+    conditions.push(isNotNull(notes.archivedAt));
+  }
+
+  if (isPinned !== undefined) {
+    conditions.push(eq(notes.isPinned, isPinned));
+  }
+
+  if (isFavorite !== undefined) {
+    conditions.push(eq(notes.isFavorite, isFavorite));
+  }
+
+  // Filter by tags if provided, optionally including tags nested under them
+  if (tagIds && tagIds.length > 0) {
+    const taggedNoteIds = taggedNoteIdsQuery(userId, tagIds, {
+      includeDescendants: includeDescendantTags,
+    });
+    conditions.push(sql`${notes.id} IN ${taggedNoteIds}`);
+  }
+
+  // Filter by notebook (optionally including nested notebooks); null means no notebook
+  if (notebookId === null) {
+    conditions.push(isNull(notes.notebookId));
+  } else if (notebookId) {
+    const nestedIds = recursive ? await getNotebookSubtreeIds(notebookId, db) : [];
+    conditions.push(inArray(notes.notebookId, [notebookId, ...nestedIds]));
+  }
+
+  if (courseId === null) {
+    conditions.push(isNull(notes.courseId));
+  } else if (courseId) {
+    conditions.push(eq(notes.courseId, courseId));
+  }
+
+  // Full-text search over title, plain content and OCR text
+  // Title matches rank above body matches, OCR text ranks lowest
+  const trimmedQuery = searchQuery?.trim();
+  const searchVector = sql`(
+    setweight(to_tsvector('english', coalesce(${notes.title}, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(${notes.contentPlain}, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(${notes.ocrText}, '')), 'C')
+  )`;
+  const tsQuery = sql`plainto_tsquery('english', ${trimmedQuery ?? ''})`;
+  const rank = sql<number>`ts_rank(${searchVector}, ${tsQuery})`;
+
+  if (trimmedQuery) {
+    conditions.push(sql`${searchVector} @@ ${tsQuery}`);
+  }
+
+  // Relevance only applies when there is a search query; otherwise pinned notes
+  // come first, in the requested order. The id breaks ties so the cursor is exact.
+  const useRelevance = sortBy === 'relevance' && !!trimmedQuery;
+  const sortColumn =
+    sortBy === 'title' ? 'title' : sortBy === 'createdAt' ? 'createdAt' : 'updatedAt';
+  const sort = useRelevance ? 'relevance' : `${sortColumn}:${sortOrder}`;
+
+  // Postgres keeps microseconds but JS dates only milliseconds, so timestamps are keyed at millisecond precision
+  const sortExpressions = {
+    title: notes.title,
+    createdAt: sql`date_trunc('milliseconds', ${notes.createdAt})`,
+    updatedAt: sql`date_trunc('milliseconds', ${notes.updatedAt})`,
+  };
+
+  const sortKeys: SortKey[] = useRelevance
+    ? [
+        { expression: rank, order: 'desc' },
+        { expression: sortExpressions.updatedAt, order: 'desc' },
+        { expression: notes.id, order: 'desc' },
+      ]
+    : [
+        { expression: notes.isPinned, order: 'desc' },
+        { expression: sortExpressions[sortColumn], order: sortOrder },
+        { expression: notes.id, order: sortOrder },
+      ];
+
+  const pageConditions = cursor
+    ? [...conditions, keysetCondition(sortKeys, decodeSortCursor(cursor, sort, sortKeys.length))]
+    : conditions;
+
+  // One extra row tells us whether there is another page without counting
+  const rows = await db
+    .select(trimmedQuery ? { note: notes, rank } : { note: notes })
+    .from(notes)
+    .where(and(...pageConditions))
+    .orderBy(...orderBySortKeys(sortKeys))
+    .limit(limit + 1)
+    .offset(cursor ? 0 : offset);
+
+  const page = buildCursorPage(
+    rows.map((row: any) => (trimmedQuery ? { ...row.note, rank: Number(row.rank) } : row.note)),
+    limit,
+    (note: any) =>
+      encodeSortCursor(
+        sort,
+        useRelevance
+          ? [note.rank, note.updatedAt.toISOString(), note.id]
+          : [
+              note.isPinned,
+              sortColumn === 'title' ? note.title : note[sortColumn].toISOString(),
+              note.id,
+            ]
+      )
+  );
+
+  let total: number | undefined;
+  if (includeTotal) {
+    const countResult = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(notes)
+      .where(and(...conditions));
+
+    total = Number(countResult[0]?.count ?? 0);
+  }
+
+  const notesWithTags = await attachTags(page.rows, db);
 
   return {
     notes: notesWithTags,
     total,
     limit,
     offset,
-    hasMore: offset + notesList.length < total,
+    hasMore: page.hasMore,
+    nextCursor: page.nextCursor,
   };
 }
 
-export async function updateNote(
+/**
+ * Store a rejected edit as a note_conflicts row
+ */
+async function recordNoteConflict(
   userId: string,
+  currentNote: any,
   input: UpdateNoteInput,
   db: any
 ) {
-  const { id, version, ...updateData } = input;
+  const [conflict] = await db
+    .insert(noteConflicts)
+    .values({
+      noteId: currentNote.id,
+      userId,
+      // Fields the edit didn't touch stay null so resolving it doesn't overwrite them
+      conflictingContent: input.content ?? null,
+      conflictingTitle: input.title ?? null,
+      conflictingClientId: input.clientId,
+      conflictingClientUpdatedAt: input.clientUpdatedAt,
+      conflictingVersion: input.version,
+    })
+    .returning();
+
+  logger.info(
+    { noteId: currentNote.id, conflictId: conflict.id, version: input.version },
+    'Recorded note conflict'
+  );
+
+  return conflict;
+}
 
-  // Get current note to check version
-  const currentNote = await db.query.notes.findFirst({
-    where: and(eq(notes.id, id), eq(notes.userId, userId)),
+/**
+ * Try to apply a stale edit by merging it with the changes made since its base version
+ * Returns null when the base revision is unknown or both sides changed the same region.
+ */
+async function tryAutoMerge(
+  userId: string,
+  currentNote: any,
+  version: number,
+  updateData: NoteChanges,
+  db: any
+): Promise<
+  | { ok: true; updated: any; regions: MergedRegion[] }
+  | { ok: false; conflictRegions: MergeConflictRegion[] }
+> {
+  const base = await db.query.noteRevisions.findFirst({
+    where: and(eq(noteRevisions.noteId, currentNote.id), eq(noteRevisions.version, version)),
   });
 
-  if (!currentNote) {
-    throw new NotFoundError('Note', id);
+  if (!base) {
+    return { ok: false, conflictRegions: [] };
   }
 
-  // Check for version conflict
-  if (currentNote.version !== version) {
-    throw new ConflictError(
-      `Note has been modified. Current version: ${currentNote.version}, your version: ${version}`
-    );
+  const title = mergeValue(base.title, currentNote.title, updateData.title);
+  if (!title.clean) {
+    return { ok: false, conflictRegions: [] };
   }
 
-  // Calculate new values if content changed
-  const updates: any = {
-    ...updateData,
-    version: version + 1,
-    updatedAt: new Date(),
-  };
+  let content: string | undefined;
+  let regions: MergedRegion[] = [];
 
-  if (updateData.content) {
-    updates.contentPlain = stripHtml(updateData.content);
-    updates.wordCount = calculateWordCount(updates.contentPlain);
-    updates.readingTimeMinutes = calculateReadingTime(updates.wordCount);
+  if (updateData.content !== undefined) {
+    const merge = mergeThreeWay(base.content, currentNote.content, updateData.content);
+    if (!merge.clean) {
+      return { ok: false, conflictRegions: merge.conflicts };
+    }
+    content = merge.content;
+    regions = merge.regions;
   }
 
-  const [updated] = await db
-    .update(notes)
-    .set(updates)
-    .where(and(eq(notes.id, id), eq(notes.userId, userId)))
-    .returning();
+  const updated = await applyNoteUpdate(
+    userId,
+    currentNote,
+    { ...updateData, title: title.value, content },
+    db
+  );
 
-  // Emit Inngest event for embedding regeneration (only if content changed)
-  if (updateData.content) {
-    inngest
-      .send({
-        name: 'notes/updated',
-        data: {
-          noteId: updated.id,
-          userId,
-          title: updated.title,
-          content: updated.content,
-          courseTag: undefined, // TODO: Get from tags when course tags are implemented
-        },
-      })
-      .catch((error) => {
-        logger.error({ error, noteId: updated.id }, 'Failed to send notes/updated event');
-      });
+  logger.info(
+    { noteId: currentNote.id, baseVersion: version, mergedRegions: regions.length },
+    'Auto-merged stale note edit'
+  );
+
+  return { ok: true, updated, regions };
+}
+
+export async function updateNote(
+  userId: string,
+  input: UpdateNoteInput,
+  db: any
+) {
+  const { id, version, autoMerge, ...updateData } = input;
+
+  // Get current note to check version; collaborators need editor access
+  const { note: currentNote } = await requireNoteAccess(userId, id, 'editor', db);
+
+  // Revisions, links and embeddings always belong to the note's owner
+  const ownerId = currentNote.userId;
+
+  if (updateData.courseId) {
+    await findCourse(ownerId, updateData.courseId, db);
+  }
+
+  // Check for version conflict - merge if possible, otherwise keep the client's edit
+  // so it can be resolved later
+  if (currentNote.version !== version) {
+    let conflictRegions: MergeConflictRegion[] = [];
+
+    if (autoMerge) {
+      const merge = await tryAutoMerge(ownerId, currentNote, version, updateData, db);
+
+      if (merge.ok) {
+        const note = await getNoteById(userId, merge.updated.id, db);
+        return {
+          ...note,
+          merge: {
+            baseVersion: version,
+            serverVersion: currentNote.version,
+            regions: merge.regions,
+          },
+        };
+      }
+
+      conflictRegions = merge.conflictRegions;
+    }
+
+    // The conflict belongs to whoever made the edit, so they can list and resolve it
+    const conflict = await recordNoteConflict(userId, currentNote, input, db);
+
+    throw new ConflictError(
+      `Note has been modified. Current version: ${currentNote.version}, your version: ${version}`,
+      {
+        conflictId: conflict.id,
+        currentVersion: currentNote.version,
+        yourVersion: version,
+        conflictRegions,
+      }
+    );
   }
 
+  const updated = await applyNoteUpdate(ownerId, currentNote, updateData, db);
+
   return getNoteById(userId, updated.id, db);
 }
 
@@ -318,6 +716,8 @@ export async function deleteNote(userId: string, noteId: string, db: any) {
       .where(inArray(tags.id, tagIds));
   }
 
+  publishNoteChange(userId, 'deleted', noteId);
+
   return { success: true };
 }
 
@@ -343,6 +743,8 @@ export async function restoreNote(userId: string, noteId: string, db: any) {
     })
     .where(eq(notes.id, noteId));
 
+  await moveOutOfDeletedNotebooks(userId, [note], db);
+
   // Update user's notes count
   await db
     .update(users)
@@ -369,5 +771,41 @@ export async function restoreNote(userId: string, noteId: string, db: any) {
       .where(inArray(tags.id, tagIds));
   }
 
+  publishNoteChange(userId, 'restored', noteId, note.version);
+
   return getNoteById(userId, noteId, db);
 }
+
+/**
+ * Pin, favorite or archive a note
+ * These are organizational flags, so the note version doesn't change.
+ */
+export async function updateNoteState(userId: string, input: UpdateNoteStateInput, db: any) {
+  const { id, isPinned, isFavorite, archived } = input;
+
+  const note = await db.query.notes.findFirst({
+    where: and(eq(notes.id, id), eq(notes.userId, userId), isNull(notes.deletedAt)),
+  });
+
+  if (!note) {
+    throw new NotFoundError('Note', id);
+  }
+
+  const updates: any = { updatedAt: new Date() };
+
+  if (isPinned !== undefined) {
+    updates.isPinned = isPinned;
+  }
+  if (isFavorite !== undefined) {
+    updates.isFavorite = isFavorite;
+  }
+  // Keep the original archive time when archiving an already archived note
+  if (archived !== undefined) {
+    updates.archivedAt = archived ? (note.archivedAt ?? new Date()) : null;
+  }
+
+  await db.update(notes).set(updates).where(eq(notes.id, id));
+  publishNoteChange(userId, 'updated', id, note.version);
+
+  return getNoteById(userId, id, db);
+}
@@ -0,0 +1,121 @@
+/**
+ * Note Share Links
+ *
+ * Public, read-only links to a single note. Tokens are random and unguessable;
+ * a link stops working once it's revoked, expires, or the note is deleted.
+ */
+
+import { randomBytes } from 'crypto';
+import { eq, and, isNull, gt, or, desc, sql } from 'drizzle-orm';
+import type { CreateNoteShareInput, ListNoteSharesInput } from '@loqi-notes/shared-types';
+import { notes, noteShares } from '../../db/schema';
+import { NotFoundError, ValidationError } from '../../utils/errors';
+
+export function shareUrl(token: string): string {
+  return `/api/v1/shared/${token}`;
+}
+
+function formatShare(share: any) {
+  return { ...share, url: shareUrl(share.token) };
+}
+
+function activeShareCondition(now: Date) {
+  return and(
+    isNull(noteShares.revokedAt),
+    or(isNull(noteShares.expiresAt), gt(noteShares.expiresAt, now))
+  );
+}
+
+export async function createShare(userId: string, input: CreateNoteShareInput, db: any) {
+  const note = await db.query.notes.findFirst({
+    where: and(eq(notes.id, input.noteId), eq(notes.userId, userId), isNull(notes.deletedAt)),
+  });
+
+  if (!note) {
+    throw new NotFoundError('Note', input.noteId);
+  }
+
+  if (input.expiresAt && input.expiresAt <= new Date()) {
+    throw new ValidationError('Share expiry must be in the future');
+  }
+
+  const [share] = await db
+    .insert(noteShares)
+    .values({
+      noteId: note.id,
+      userId,
+      token: randomBytes(24).toString('base64url'),
+      expiresAt: input.expiresAt,
+    })
+    .returning();
+
+  return formatShare(share);
+}
+
+export async function listShares(userId: string, input: ListNoteSharesInput, db: any) {
+  const conditions = [eq(noteShares.userId, userId)];
+
+  if (input.noteId) {
+    conditions.push(eq(noteShares.noteId, input.noteId));
+  }
+
+  if (!input.includeInactive) {
+    conditions.push(activeShareCondition(new Date())!);
+  }
+
+  const shares = await db
+    .select()
+    .from(noteShares)
+    .where(and(...conditions))
+    .orderBy(desc(noteShares.createdAt));
+
+  return shares.map(formatShare);
+}
+
+export async function revokeShare(userId: string, shareId: string, db: any) {
+  const share = await db.query.noteShares.findFirst({
+    where: and(eq(noteShares.id, shareId), eq(noteShares.userId, userId)),
+  });
+
+  if (!share) {
+    throw new NotFoundError('Share', shareId);
+  }
+
+  if (share.revokedAt) {
+    return formatShare(share);
+  }
+
+  const [revoked] = await db
+    .update(noteShares)
+    .set({ revokedAt: new Date() })
+    .where(eq(noteShares.id, shareId))
+    .returning();
+
+  return formatShare(revoked);
+}
+
+/**
+ * Resolve a public share token to its note and record the view
+ * Unknown, revoked and expired tokens all look the same to the caller.
+ */
+export async function getSharedNote(token: string, db: any) {
+  const [row] = await db
+    .select({ shareId: noteShares.id, note: notes })
+    .from(noteShares)
+    .innerJoin(notes, eq(noteShares.noteId, notes.id))
+    .where(
+      and(eq(noteShares.token, token), activeShareCondition(new Date()), isNull(notes.deletedAt))
+    )
+    .limit(1);
+
+  if (!row) {
+    throw new NotFoundError('Shared note');
+  }
+
+  await db
+    .update(noteShares)
+    .set({ viewCount: sql`${noteShares.viewCount} + 1`, lastViewedAt: new Date() })
+    .where(eq(noteShares.id, row.shareId));
+
+  return row.note;
+}
@@ -0,0 +1,277 @@
+/**
+ * Delta Sync
+ *
+ * Offline-first sync for mobile clients:
+ * - pull: notes created, updated and tombstoned since a server cursor
+ * - push: apply a batch of offline edits, idempotent by note clientId
+ */
+
+import { eq, and, asc, sql, inArray } from 'drizzle-orm';
+import type {
+  SyncPullInput,
+  SyncPushInput,
+  SyncPushItem,
+  SyncPushResult,
+} from '@loqi-notes/shared-types';
+import { notes, noteConflicts, noteTombstones } from '../../db/schema';
+import { AppError, ConflictError, ValidationError } from '../../utils/errors';
+import { encodeCursor, decodeCursor } from '../../utils/cursor';
+import { logger } from '../../lib/logger';
+import { attachTags, createNote, updateNote, deleteNote } from './service';
+import { accessibleNoteCondition } from './access';
+
+interface SyncCursor extends Record<string, unknown> {
+  updatedAt: string;
+  id: string;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Postgres unique_violation
+function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === '23505';
+}
+
+/**
+ * Decode a sync cursor, checking its values before they're cast in SQL
+ */
+function decodeSyncCursor(sinceCursor: string): SyncCursor {
+  const cursor = decodeCursor<SyncCursor>(sinceCursor);
+
+  if (
+    typeof cursor.updatedAt !== 'string' ||
+    Number.isNaN(Date.parse(cursor.updatedAt)) ||
+    typeof cursor.id !== 'string' ||
+    !UUID_PATTERN.test(cursor.id)
+  ) {
+    throw new ValidationError('Invalid cursor', { cursor: sinceCursor });
+  }
+
+  return cursor;
+}
+
+// Postgres keeps microseconds but JS dates only milliseconds, so compare at millisecond precision
+const syncTimestamp = sql`date_trunc('milliseconds', ${notes.updatedAt})`;
+const tombstoneTimestamp = sql`date_trunc('milliseconds', ${noteTombstones.purgedAt})`;
+
+function compareSyncRows(a: any, b: any): number {
+  return a.updatedAt.getTime() - b.updatedAt.getTime() || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+}
+
+export async function pullChanges(userId: string, input: SyncPullInput, db: any) {
+  const { sinceCursor, limit } = input;
+  const cursor = sinceCursor ? decodeSyncCursor(sinceCursor) : null;
+  const since = cursor ? new Date(cursor.updatedAt) : null;
+
+  // Own and shared notes; tombstones are included: soft-deleted notes come back with deletedAt set
+  const conditions = [accessibleNoteCondition(userId, { id: notes.id, ownerId: notes.userId })];
+  // Purged notes only exist as tombstones, ordered by when they were purged
+  const tombstoneConditions = [eq(noteTombstones.userId, userId)];
+
+  if (cursor) {
+    conditions.push(
+      sql`(${syncTimestamp}, ${notes.id}) > (${cursor.updatedAt}::timestamptz, ${cursor.id}::uuid)`
+    );
+    tombstoneConditions.push(
+      sql`(${tombstoneTimestamp}, ${noteTombstones.noteId}) > (${cursor.updatedAt}::timestamptz, ${cursor.id}::uuid)`
+    );
+  }
+
+  const noteRows = await db
+    .select()
+    .from(notes)
+    .where(and(...conditions))
+    .orderBy(asc(syncTimestamp), asc(notes.id))
+    .limit(limit + 1);
+
+  const tombstones = await db
+    .select()
+    .from(noteTombstones)
+    .where(and(...tombstoneConditions))
+    .orderBy(asc(tombstoneTimestamp), asc(noteTombstones.noteId))
+    .limit(limit + 1);
+
+  // Both lists share the cursor's ordering, so merge them into one page
+  const rows = [
+    ...noteRows,
+    ...tombstones.map((tombstone: any) => ({
+      id: tombstone.noteId,
+      clientId: tombstone.clientId,
+      deletedAt: tombstone.deletedAt,
+      updatedAt: tombstone.purgedAt,
+    })),
+  ].sort(compareSyncRows);
+
+  const hasMore = rows.length > limit;
+  const page = hasMore ? rows.slice(0, limit) : rows;
+  const last = page[page.length - 1];
+
+  const live = await attachTags(
+    page.filter((note: any) => !note.deletedAt),
+    db
+  );
+
+  return {
+    created: live.filter((note: any) => !since || note.createdAt > since),
+    updated: live.filter((note: any) => since && note.createdAt <= since),
+    deleted: page
+      .filter((note: any) => note.deletedAt)
+      .map((note: any) => ({
+        id: note.id,
+        clientId: note.clientId,
+        deletedAt: note.deletedAt,
+      })),
+    // An empty page keeps the caller's cursor so the next pull starts from the same point
+    nextCursor: last
+      ? encodeCursor({ updatedAt: last.updatedAt.toISOString(), id: last.id })
+      : (sinceCursor ?? null),
+    hasMore,
+  };
+}
+
+async function applyPushItem(userId: string, item: SyncPushItem, db: any): Promise<SyncPushResult> {
+  const { clientId } = item;
+
+  // Pushes only touch the user's own notes; shared notes are edited through notes.update
+  const findExisting = () =>
+    db.query.notes.findFirst({
+      where: and(eq(notes.userId, userId), eq(notes.clientId, clientId)),
+    });
+  const existing = await findExisting();
+
+  if (item.op === 'delete') {
+    if (!existing || existing.deletedAt) {
+      return { clientId, status: 'unchanged', noteId: existing?.id };
+    }
+    await deleteNote(userId, existing.id, db);
+    return { clientId, status: 'deleted', noteId: existing.id };
+  }
+
+  if (!existing) {
+    if (!item.content) {
+      return { clientId, status: 'error', error: 'content is required to create a note' };
+    }
+
+    let created: any;
+    try {
+      created = await createNote(
+        userId,
+        {
+          title: item.title ?? 'Untitled',
+          content: item.content,
+          ocrText: item.ocrText,
+          hasHandwriting: item.hasHandwriting ?? false,
+          clientId,
+          clientUpdatedAt: item.clientUpdatedAt,
+          tagIds: item.tagIds,
+        },
+        db
+      );
+    } catch (error) {
+      if (!isUniqueViolation(error)) {
+        throw error;
+      }
+
+      // A concurrent push of the same item created the note first
+      const winner = await findExisting();
+      return { clientId, status: 'unchanged', noteId: winner?.id, version: winner?.version };
+    }
+    return { clientId, status: 'created', noteId: created.id, version: created.version };
+  }
+
+  // Replays of an edit that was already applied are no-ops
+  if (existing.clientUpdatedAt && item.clientUpdatedAt <= existing.clientUpdatedAt) {
+    return { clientId, status: 'unchanged', noteId: existing.id, version: existing.version };
+  }
+
+  // Without a base version the server can't tell whether the edit is stale
+  if (item.baseVersion === undefined) {
+    return {
+      clientId,
+      status: 'error',
+      noteId: existing.id,
+      error: 'baseVersion is required to update an existing note',
+    };
+  }
+
+  // Retries of an edit that conflicted get the conflict recorded the first time
+  const recordedConflict = await db.query.noteConflicts.findFirst({
+    where: and(
+      eq(noteConflicts.noteId, existing.id),
+      eq(noteConflicts.userId, userId),
+      eq(noteConflicts.conflictingClientId, clientId),
+      eq(noteConflicts.conflictingClientUpdatedAt, item.clientUpdatedAt),
+      eq(noteConflicts.resolved, false)
+    ),
+  });
+
+  if (recordedConflict) {
+    return {
+      clientId,
+      status: 'conflict',
+      noteId: existing.id,
+      conflictId: recordedConflict.id,
+      error: 'Note has been modified',
+    };
+  }
+
+  const updated: any = await updateNote(
+    userId,
+    {
+      id: existing.id,
+      version: item.baseVersion,
+      title: item.title,
+      content: item.content,
+      ocrText: item.ocrText,
+      hasHandwriting: item.hasHandwriting,
+      clientId,
+      clientUpdatedAt: item.clientUpdatedAt,
+      autoMerge: true,
+    },
+    db
+  );
+
+  return {
+    clientId,
+    status: updated.merge ? 'merged' : 'updated',
+    noteId: updated.id,
+    version: updated.version,
+  };
+}
+
+export async function pushChanges(userId: string, input: SyncPushInput, db: any) {
+  const results: SyncPushResult[] = [];
+
+  // Apply in order so later edits of the same note build on earlier ones
+  for (const item of input.items) {
+    try {
+      results.push(await applyPushItem(userId, item, db));
+    } catch (error) {
+      if (!(error instanceof AppError)) {
+        throw error;
+      }
+
+      logger.warn({ error, clientId: item.clientId }, 'Failed to apply sync item');
+
+      results.push({
+        clientId: item.clientId,
+        status: error instanceof ConflictError ? 'conflict' : 'error',
+        conflictId: error.details?.conflictId as string | undefined,
+        error: error.message,
+      });
+    }
+  }
+
+  const syncedNoteIds = results
+    .filter((result) => result.noteId && result.status !== 'error')
+    .map((result) => result.noteId as string);
+
+  if (syncedNoteIds.length > 0) {
+    await db
+      .update(notes)
+      .set({ lastSyncedAt: new Date() })
+      .where(and(eq(notes.userId, userId), inArray(notes.id, syncedNoteIds)));
+  }
+
+  return { results };
+}
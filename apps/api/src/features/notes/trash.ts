@@ -0,0 +1,220 @@
+/**
+ * Note Trash
+ *
+ * deleteNote only soft-deletes; this module lists the trash and removes notes
+ * for good, either on request or once they've been in the trash longer than
+ * the user's tier allows (config.limits[tier].trashRetentionDays). Purged notes
+ * leave a tombstone for sync pulls, kept for TOMBSTONE_RETENTION_DAYS. Only the
+ * owner sees and manages a note's trash entry, collaborators never do.
+ */
+
+import { eq, and, isNotNull, inArray, notInArray, lt, desc, sql } from 'drizzle-orm';
+import type { ListTrashInput } from '@loqi-notes/shared-types';
+import { notes, noteTags, noteAttachments, noteTombstones, users } from '../../db/schema';
+import { config } from '../../config';
+import { NotFoundError, ConflictError } from '../../utils/errors';
+import { logger } from '../../lib/logger';
+import { deleteFiles } from '../../lib/storage';
+import { publishNoteChange } from '../../lib/realtime';
+import { recountTags } from '../tags/service';
+import { attachTags } from './service';
+
+type Tier = keyof typeof config.limits;
+
+const PURGE_BATCH_SIZE = 500;
+
+// Devices that haven't synced for longer than this won't hear about purged notes
+export const TOMBSTONE_RETENTION_DAYS = 180;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function retentionDays(tier: string): number {
+  return (config.limits[tier as Tier] ?? config.limits.free).trashRetentionDays;
+}
+
+// Users on tiers missing from config.limits get the free retention, as listTrash shows them
+function tierCondition(tier: Tier) {
+  if (tier !== 'free') {
+    return eq(users.subscriptionTier, tier);
+  }
+
+  const otherTiers = Object.keys(config.limits).filter((name) => name !== 'free');
+  return notInArray(users.subscriptionTier, otherTiers);
+}
+
+/**
+ * Permanently delete notes
+ * Chunks, embeddings, revisions, links, attachments and tag associations go
+ * with them via ON DELETE CASCADE; tag counts are recomputed from what's left.
+ * The rows and their tombstones are written in one transaction; attachment
+ * files are removed afterwards, and failing to remove them doesn't fail the purge.
+ */
+export async function purgeNotes(noteIds: string[], db: any): Promise<number> {
+  if (noteIds.length === 0) {
+    return 0;
+  }
+
+  const { deleted, storagePaths } = await db.transaction(async (tx: any) => {
+    const affectedTags = await tx
+      .selectDistinct({ tagId: noteTags.tagId })
+      .from(noteTags)
+      .where(inArray(noteTags.noteId, noteIds));
+
+    const attachments = await tx
+      .select({ storagePath: noteAttachments.storagePath })
+      .from(noteAttachments)
+      .where(inArray(noteAttachments.noteId, noteIds));
+
+    const deletedNotes = await tx.delete(notes).where(inArray(notes.id, noteIds)).returning({
+      id: notes.id,
+      userId: notes.userId,
+      clientId: notes.clientId,
+      deletedAt: notes.deletedAt,
+    });
+
+    if (deletedNotes.length > 0) {
+      await tx
+        .insert(noteTombstones)
+        .values(
+          deletedNotes.map((note: any) => ({
+            noteId: note.id,
+            userId: note.userId,
+            clientId: note.clientId,
+            deletedAt: note.deletedAt ?? new Date(),
+          }))
+        )
+        .onConflictDoNothing();
+    }
+
+    await recountTags(
+      affectedTags.map((row: any) => row.tagId),
+      tx
+    );
+
+    return {
+      deleted: deletedNotes,
+      storagePaths: attachments.map((attachment: any) => attachment.storagePath) as string[],
+    };
+  });
+
+  // Attachment rows went with the notes, their files have to be removed separately
+  try {
+    await deleteFiles(storagePaths);
+  } catch (error) {
+    logger.warn({ error, storagePaths }, 'Failed to delete attachment files of purged notes');
+  }
+
+  deleted.forEach((note: any) => publishNoteChange(note.userId, 'purged', note.id));
+
+  return deleted.length;
+}
+
+export async function listTrash(userId: string, input: ListTrashInput, db: any) {
+  const { limit, offset } = input;
+  const conditions = and(eq(notes.userId, userId), isNotNull(notes.deletedAt));
+
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, userId),
+  });
+  const days = retentionDays(user?.subscriptionTier ?? 'free');
+
+  const notesList = await db
+    .select()
+    .from(notes)
+    .where(conditions)
+    .orderBy(desc(notes.deletedAt))
+    .limit(limit)
+    .offset(offset);
+
+  const countResult = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(notes)
+    .where(conditions);
+
+  const total = Number(countResult[0]?.count ?? 0);
+
+  const notesWithTags = await attachTags(notesList, db);
+
+  return {
+    notes: notesWithTags.map((note: any) => ({
+      ...note,
+      // When the retention job will remove the note
+      purgeAt: new Date(note.deletedAt.getTime() + days * DAY_MS),
+    })),
+    retentionDays: days,
+    total,
+    limit,
+    offset,
+    hasMore: offset + notesList.length < total,
+  };
+}
+
+export async function purgeNote(userId: string, noteId: string, db: any) {
+  const note = await db.query.notes.findFirst({
+    where: and(eq(notes.id, noteId), eq(notes.userId, userId)),
+  });
+
+  if (!note) {
+    throw new NotFoundError('Note', noteId);
+  }
+
+  if (!note.deletedAt) {
+    throw new ConflictError('Only notes in the trash can be purged');
+  }
+
+  await purgeNotes([noteId], db);
+
+  return { success: true };
+}
+
+export async function emptyTrash(userId: string, db: any) {
+  const trashed = await db
+    .select({ id: notes.id })
+    .from(notes)
+    .where(and(eq(notes.userId, userId), isNotNull(notes.deletedAt)));
+
+  const purged = await purgeNotes(
+    trashed.map((note: any) => note.id),
+    db
+  );
+
+  return { success: true, purged };
+}
+
+/**
+ * Purge notes that have been in the trash longer than their owner's tier allows
+ * Runs in batches so a large backlog doesn't turn into one huge delete.
+ */
+export async function purgeExpiredTrash(db: any, now: Date = new Date()) {
+  const purgedByTier: Record<string, number> = {};
+
+  for (const tier of Object.keys(config.limits) as Tier[]) {
+    const cutoff = new Date(now.getTime() - retentionDays(tier) * DAY_MS);
+    purgedByTier[tier] = 0;
+
+    for (;;) {
+      const expired = await db
+        .select({ id: notes.id })
+        .from(notes)
+        .innerJoin(users, eq(notes.userId, users.id))
+        .where(and(tierCondition(tier), isNotNull(notes.deletedAt), lt(notes.deletedAt, cutoff)))
+        .limit(PURGE_BATCH_SIZE);
+
+      if (expired.length === 0) break;
+
+      purgedByTier[tier] += await purgeNotes(
+        expired.map((note: any) => note.id),
+        db
+      );
+
+      if (expired.length < PURGE_BATCH_SIZE) break;
+    }
+  }
+
+  const tombstoneCutoff = new Date(now.getTime() - TOMBSTONE_RETENTION_DAYS * DAY_MS);
+  await db.delete(noteTombstones).where(lt(noteTombstones.purgedAt, tombstoneCutoff));
+
+  logger.info({ purgedByTier }, 'Purged expired notes from trash');
+
+  return purgedByTier;
+}
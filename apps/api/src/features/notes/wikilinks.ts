@@ -0,0 +1,68 @@
+/**
+ * Wiki Link Parser
+ *
+ * Extracts [[wiki-style]] references from note content:
+ * - [[Note Title]]
+ * - [[Note Title|alias]]
+ * - [[note-id|alias]]
+ * - [[Note Title#Heading]] / ![[Note Title#^block]]
+ */
+
+export interface WikiLink {
+  raw: string; // Full match including brackets
+  targetRef: string; // Note title or id
+  anchor: string | null; // Heading or ^block after '#'
+  alias: string | null; // Display text after '|'
+  embed: boolean; // ![[...]] embeds the target instead of linking to it
+  position: number; // Character offset in the content
+}
+
+const WIKI_LINK_PATTERN = /(!?)\[\[([^[\]\n]+?)\]\]/g;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Check whether a link target is a note id rather than a title
+ */
+export function isNoteIdRef(targetRef: string): boolean {
+  return UUID_PATTERN.test(targetRef);
+}
+
+/**
+ * Normalize a title for case-insensitive matching
+ */
+export function normalizeLinkTitle(title: string): string {
+  return title.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Parse all wiki links in the content, in order of appearance
+ */
+export function parseWikiLinks(content: string): WikiLink[] {
+  const links: WikiLink[] = [];
+
+  for (const match of content.matchAll(WIKI_LINK_PATTERN)) {
+    const [raw, bang, inner] = match;
+    const pipeIndex = inner.indexOf('|');
+    const target = pipeIndex === -1 ? inner : inner.slice(0, pipeIndex);
+    const alias = pipeIndex === -1 ? null : inner.slice(pipeIndex + 1).trim() || null;
+
+    const hashIndex = target.indexOf('#');
+    const targetRef = (hashIndex === -1 ? target : target.slice(0, hashIndex)).trim();
+    const anchor = hashIndex === -1 ? null : target.slice(hashIndex + 1).trim() || null;
+
+    // [[#Heading]] points inside the same note and is not a note reference
+    if (!targetRef) continue;
+
+    links.push({
+      raw,
+      targetRef,
+      anchor,
+      alias,
+      embed: bang === '!',
+      position: match.index ?? 0,
+    });
+  }
+
+  return links;
+}
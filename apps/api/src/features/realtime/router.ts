@@ -0,0 +1,32 @@
+import { observable } from '@trpc/server/observable';
+import { router, protectedProcedure } from '../../trpc';
+import { subscribe } from '../../lib/realtime';
+import type {
+  NoteChangeEvent,
+  EmbeddingsCompletedEvent,
+  ScheduleChangeEvent,
+} from '../../lib/realtime';
+
+/**
+ * Subscriptions are served over the WebSocket server set up in server.ts
+ * Events carry ids only; clients refetch what they display.
+ */
+export const realtimeRouter = router({
+  onNoteChange: protectedProcedure.subscription(({ ctx }) => {
+    return observable<NoteChangeEvent>((emit) =>
+      subscribe('notes', ctx.user.id, (event) => emit.next(event))
+    );
+  }),
+
+  onEmbeddingsCompleted: protectedProcedure.subscription(({ ctx }) => {
+    return observable<EmbeddingsCompletedEvent>((emit) =>
+      subscribe('embeddings', ctx.user.id, (event) => emit.next(event))
+    );
+  }),
+
+  onScheduleChange: protectedProcedure.subscription(({ ctx }) => {
+    return observable<ScheduleChangeEvent>((emit) =>
+      subscribe('schedule', ctx.user.id, (event) => emit.next(event))
+    );
+  }),
+});
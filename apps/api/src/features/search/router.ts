@@ -16,14 +16,25 @@ export const searchRouter = router({
     .input(SemanticSearchInputSchema)
     .output(z.array(SearchResultSchema))
     .query(async ({ input, ctx }) => {
-      const { query, limit = 10, minSimilarity = 0.7, tagIds } = input;
+      const {
+        query,
+        limit = 10,
+        minSimilarity = 0.7,
+        courseId,
+        tagIds,
+        includeDescendantTags,
+        includeArchived,
+      } = input;
 
       const result = await retrieveChunks({
         userId: ctx.user.id,
         query,
         limit,
         filters: {
-          courseId: tagIds?.[0], // For now, use first tag as course filter
+          courseId,
+          tagIds,
+          includeDescendantTags,
+          includeArchived,
         },
       });
 
@@ -49,14 +60,12 @@ export const searchRouter = router({
     .input(SemanticSearchInputSchema)
     .output(z.array(SearchResultSchema))
     .query(async ({ input, ctx }) => {
-      const { query, limit = 10, tagIds } = input;
+      const { query, limit = 10, courseId, tagIds, includeDescendantTags, includeArchived } = input;
 
-      const chunks = await fullTextSearch(
-        ctx.user.id,
-        query,
-        limit,
-        tagIds?.[0] // Use first tag as course filter
-      );
+      const chunks = await fullTextSearch(ctx.user.id, query, limit, courseId, includeArchived, {
+        tagIds,
+        includeDescendantTags,
+      });
 
       return chunks.map((chunk) => ({
         noteId: chunk.noteId,
@@ -77,14 +86,25 @@ export const searchRouter = router({
     .input(SemanticSearchInputSchema)
     .output(z.array(SearchResultSchema))
     .query(async ({ input, ctx }) => {
-      const { query, limit = 10, minSimilarity = 0.7, tagIds } = input;
+      const {
+        query,
+        limit = 10,
+        minSimilarity = 0.7,
+        courseId,
+        tagIds,
+        includeDescendantTags,
+        includeArchived,
+      } = input;
 
       const result = await hybridSearch({
         userId: ctx.user.id,
         query,
         limit,
         filters: {
-          courseId: tagIds?.[0], // Use first tag as course filter
+          courseId,
+          tagIds,
+          includeDescendantTags,
+          includeArchived,
         },
       });
 
@@ -5,6 +5,7 @@
 import { db, noteChunks, noteChunkEmbeddings } from '../../db';
 import { logger } from '../../lib/logger';
 import { eq, and, sql, gte, lte } from 'drizzle-orm';
+import { taggedNoteIdsQuery } from '../tags/service';
 import type { RetrievalInput, RetrievalResult, RetrievedChunk } from './types';
 
 /**
@@ -52,6 +53,14 @@ export async function retrieveChunks(input: RetrievalInput): Promise<RetrievalRe
       conditions.push(eq(noteChunks.courseTag, input.filters.courseId));
     }
 
+    if (input.filters?.tagIds?.length) {
+      conditions.push(
+        sql`${noteChunks.noteId} IN ${taggedNoteIdsQuery(input.userId, input.filters.tagIds, {
+          includeDescendants: input.filters.includeDescendantTags,
+        })}`
+      );
+    }
+
     if (input.filters?.dateRange) {
       conditions.push(
         gte(noteChunks.createdAt, input.filters.dateRange.start),
@@ -66,6 +75,7 @@ export async function retrieveChunks(input: RetrievalInput): Promise<RetrievalRe
         noteId: noteChunks.noteId,
         noteTitle: noteChunks.noteTitle,
         sectionPath: noteChunks.sectionPath,
+        blockIds: noteChunks.blockIds,
         courseTag: noteChunks.courseTag,
         contentRaw: noteChunks.contentRaw,
         contentEmbed: noteChunks.contentEmbed,
@@ -99,6 +109,7 @@ export async function retrieveChunks(input: RetrievalInput): Promise<RetrievalRe
       noteId: row.noteId,
       noteTitle: row.noteTitle,
       sectionPath: row.sectionPath,
+      blockIds: row.blockIds,
       courseTag: row.courseTag,
       contentRaw: row.contentRaw,
       contentEmbed: row.contentEmbed,
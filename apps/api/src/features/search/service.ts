@@ -6,8 +6,10 @@
 import { db, noteChunks, noteChunkEmbeddings, notes } from '../../db';
 import { generateEmbedding } from '../../lib/openai';
 import { logger } from '../../lib/logger';
-import { eq, and, sql, gte, lte, isNull } from 'drizzle-orm';
-import type { RetrievalInput, RetrievalResult, RetrievedChunk } from './types';
+import { eq, and, or, sql, gte, lte, isNull } from 'drizzle-orm';
+import { sharedNoteIdsQuery } from '../notes/access';
+import { taggedNoteIdsQuery } from '../tags/service';
+import type { RetrievalFilters, RetrievalInput, RetrievalResult, RetrievedChunk } from './types';
 
 /**
  * Retrieve relevant note chunks using vector similarity search
@@ -32,13 +34,34 @@ export async function retrieveChunks(input: RetrievalInput): Promise<RetrievalRe
     const dbQueryStart = Date.now();
 
     // Build WHERE conditions
-    const conditions = [eq(noteChunks.userId, input.userId)];
+    // Own chunks, plus chunks of shared notes the user opted into searching
+    const conditions = [
+      or(
+        eq(noteChunks.userId, input.userId),
+        sql`${noteChunks.noteId} IN ${sharedNoteIdsQuery(input.userId, { searchableOnly: true })}`
+      )!,
+      isNull(notes.deletedAt),
+    ];
+
+    // Skip archived notes unless asked for
+    if (!input.filters?.includeArchived) {
+      conditions.push(isNull(notes.archivedAt));
+    }
 
     // Add course filter if provided
     if (input.filters?.courseId) {
       conditions.push(eq(noteChunks.courseTag, input.filters.courseId));
     }
 
+    // Add tag filter if provided
+    if (input.filters?.tagIds?.length) {
+      conditions.push(
+        sql`${noteChunks.noteId} IN ${taggedNoteIdsQuery(input.userId, input.filters.tagIds, {
+          includeDescendants: input.filters.includeDescendantTags,
+        })}`
+      );
+    }
+
     // Add date range filter if provided
     if (input.filters?.dateRange) {
       conditions.push(
@@ -58,6 +81,7 @@ export async function retrieveChunks(input: RetrievalInput): Promise<RetrievalRe
         noteId: noteChunks.noteId,
         noteTitle: noteChunks.noteTitle,
         sectionPath: noteChunks.sectionPath,
+        blockIds: noteChunks.blockIds,
         courseTag: noteChunks.courseTag,
         contentRaw: noteChunks.contentRaw,
         contentEmbed: noteChunks.contentEmbed,
@@ -72,6 +96,7 @@ export async function retrieveChunks(input: RetrievalInput): Promise<RetrievalRe
       })
       .from(noteChunks)
       .innerJoin(noteChunkEmbeddings, eq(noteChunks.id, noteChunkEmbeddings.chunkId))
+      .innerJoin(notes, eq(noteChunks.noteId, notes.id))
       .where(and(...conditions))
       .orderBy(sql`${noteChunkEmbeddings.embedding} <=> ${JSON.stringify(queryEmbedding)}::vector`)
       .limit(limit);
@@ -97,6 +122,7 @@ export async function retrieveChunks(input: RetrievalInput): Promise<RetrievalRe
       noteId: row.noteId,
       noteTitle: row.noteTitle,
       sectionPath: row.sectionPath,
+      blockIds: row.blockIds,
       courseTag: row.courseTag,
       contentRaw: row.contentRaw,
       contentEmbed: row.contentEmbed,
@@ -133,7 +159,9 @@ export async function fullTextSearch(
   userId: string,
   query: string,
   limit: number = 10,
-  courseTag?: string
+  courseTag?: string,
+  includeArchived: boolean = false,
+  tagFilter: Pick<RetrievalFilters, 'tagIds' | 'includeDescendantTags'> = {}
 ): Promise<RetrievedChunk[]> {
   try {
     const startTime = Date.now();
@@ -158,6 +186,7 @@ export async function fullTextSearch(
         nc.note_id as "noteId",
         nc.note_title as "noteTitle",
         nc.section_path as "sectionPath",
+        nc.block_ids as "blockIds",
         nc.course_tag as "courseTag",
         nc.content_raw as "contentRaw",
         nc.content_embed as "contentEmbed",
@@ -174,10 +203,18 @@ export async function fullTextSearch(
       FROM ${noteChunks} nc
       INNER JOIN ${noteChunkEmbeddings} nce ON nc.id = nce.chunk_id
       INNER JOIN ${notes} n ON nc.note_id = n.id
-      WHERE nc.user_id = ${userId}
+      WHERE (nc.user_id = ${userId} OR nc.note_id IN ${sharedNoteIdsQuery(userId, { searchableOnly: true })})
         AND n.deleted_at IS NULL
+        ${includeArchived ? sql`` : sql`AND n.archived_at IS NULL`}
         AND to_tsvector('english', nc.note_title || ' ' || nc.content_raw) @@ plainto_tsquery('english', ${query})
         ${courseTag ? sql`AND nc.course_tag = ${courseTag}` : sql``}
+        ${
+          tagFilter.tagIds?.length
+            ? sql`AND nc.note_id IN ${taggedNoteIdsQuery(userId, tagFilter.tagIds, {
+                includeDescendants: tagFilter.includeDescendantTags,
+              })}`
+            : sql``
+        }
       ORDER BY "similarity" DESC
       LIMIT ${limit}
     `);
@@ -200,6 +237,7 @@ export async function fullTextSearch(
       noteId: row.noteId,
       noteTitle: row.noteTitle,
       sectionPath: row.sectionPath || [],
+      blockIds: row.blockIds || [],
       courseTag: row.courseTag,
       contentRaw: row.contentRaw,
       contentEmbed: row.contentEmbed,
@@ -229,7 +267,14 @@ export async function hybridSearch(input: RetrievalInput): Promise<RetrievalResu
     // Run both searches in parallel
     const [semanticResult, fullTextResults] = await Promise.all([
       retrieveChunks(input),
-      fullTextSearch(input.userId, input.query, limit * 2, input.filters?.courseId),
+      fullTextSearch(
+        input.userId,
+        input.query,
+        limit * 2,
+        input.filters?.courseId,
+        input.filters?.includeArchived,
+        input.filters
+      ),
     ]);
 
     // Use Reciprocal Rank Fusion (RRF) to combine results
@@ -8,10 +8,13 @@
  */
 export interface RetrievalFilters {
   courseId?: string;
+  tagIds?: string[];
+  includeDescendantTags?: boolean; // Also match tags nested under tagIds
   dateRange?: {
     start: Date;
     end: Date;
   };
+  includeArchived?: boolean; // Archived notes are skipped by default
 }
 
 /**
@@ -24,6 +27,8 @@ export interface RetrievedChunk {
   noteId: string;
   noteTitle: string;
   sectionPath: string[];
+  // Note blocks the chunk covers, for citing the exact paragraph
+  blockIds: string[];
   courseTag: string | null;
   contentRaw: string;
   contentEmbed: string;
@@ -1,4 +1,4 @@
-import { eq, and, gte, lte, inArray } from 'drizzle-orm';
+import { eq, and, gte, lte, inArray, sql } from 'drizzle-orm';
 import type {
   CreateStudySessionInput,
   UpdateStudySessionInput,
@@ -8,6 +8,15 @@ import type {
 } from '@loqi-notes/shared-types';
 import { studySessions, courses, assignments } from '../../db/schema';
 import { NotFoundError } from '../../utils/errors';
+import { publishScheduleChange } from '../../lib/realtime';
+import {
+  encodeSortCursor,
+  decodeSortCursor,
+  keysetCondition,
+  orderBySortKeys,
+  buildCursorPage,
+  type SortKey,
+} from '../../utils/cursor';
 
 export async function createStudySession(
   userId: string,
@@ -25,6 +34,8 @@ export async function createStudySession(
     })
     .returning();
 
+  publishScheduleChange(userId, 'studySession', session.id, 'created');
+
   return session;
 }
 
@@ -59,6 +70,19 @@ export async function listStudySessions(
     conditions.push(lte(studySessions.scheduledStart, input.toDate));
   }
 
+  // Sessions are listed by start time; the id breaks ties so the cursor is exact
+  const sortKeys: SortKey[] = [
+    { expression: sql`date_trunc('milliseconds', ${studySessions.scheduledStart})`, order: 'asc' },
+    { expression: studySessions.id, order: 'asc' },
+  ];
+
+  const pageConditions = input.cursor
+    ? [
+        ...conditions,
+        keysetCondition(sortKeys, decodeSortCursor(input.cursor, 'scheduledStart:asc', 2)),
+      ]
+    : conditions;
+
   const result = await db
     .select({
       session: studySessions,
@@ -77,16 +101,43 @@ export async function listStudySessions(
     .from(studySessions)
     .leftJoin(courses, eq(studySessions.courseId, courses.id))
     .leftJoin(assignments, eq(studySessions.assignmentId, assignments.id))
-    .where(and(...conditions))
-    .orderBy(studySessions.scheduledStart)
-    .limit(input.limit)
-    .offset(input.offset);
+    .where(and(...pageConditions))
+    .orderBy(...orderBySortKeys(sortKeys))
+    .limit(input.limit + 1)
+    .offset(input.cursor ? 0 : input.offset);
+
+  const page = buildCursorPage(result, input.limit, (r: any) =>
+    encodeSortCursor('scheduledStart:asc', [r.session.scheduledStart.toISOString(), r.session.id])
+  );
 
-  return result.map((r: any) => ({
+  const rows = page.rows.map((r: any) => ({
     ...r.session,
     course: r.course?.id ? r.course : null,
     assignment: r.assignment?.id ? r.assignment : null,
   }));
+
+  // Callers that don't pass a cursor keep getting a plain array
+  if (input.cursor === undefined) {
+    return rows;
+  }
+
+  let total: number | undefined;
+  if (input.includeTotal) {
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(studySessions)
+      .where(and(...conditions));
+    total = Number(count);
+  }
+
+  return {
+    data: rows,
+    total,
+    limit: input.limit,
+    offset: input.offset,
+    hasMore: page.hasMore,
+    nextCursor: page.nextCursor,
+  };
 }
 
 export async function getStudySessionById(
@@ -162,6 +213,8 @@ export async function updateStudySession(
     throw new NotFoundError('StudySession', id);
   }
 
+  publishScheduleChange(userId, 'studySession', updated.id, 'updated');
+
   return updated;
 }
 
@@ -184,6 +237,8 @@ export async function deleteStudySession(
     throw new NotFoundError('StudySession', sessionId);
   }
 
+  publishScheduleChange(userId, 'studySession', sessionId, 'deleted');
+
   return { success: true };
 }
 
@@ -212,6 +267,8 @@ export async function startSession(
     throw new NotFoundError('StudySession', sessionId);
   }
 
+  publishScheduleChange(userId, 'studySession', updated.id, 'updated');
+
   return updated;
 }
 
@@ -254,6 +311,8 @@ export async function completeSession(
     throw new NotFoundError('StudySession', input.id);
   }
 
+  publishScheduleChange(userId, 'studySession', updated.id, 'updated');
+
   return updated;
 }
 
@@ -287,6 +346,8 @@ export async function skipSession(
     throw new NotFoundError('StudySession', input.id);
   }
 
+  publishScheduleChange(userId, 'studySession', updated.id, 'updated');
+
   return updated;
 }
 
@@ -305,5 +366,6 @@ export async function getTodaySessions(
     toDate: tomorrow,
     limit: 50,
     offset: 0,
+    includeTotal: false,
   }, db);
 }
@@ -6,12 +6,19 @@ import {
   getTagById,
   updateTag,
   deleteTag,
+  moveTag,
+  reparentTagChildren,
+  mergeTags,
   addTagToNote,
   removeTagFromNote,
 } from './service';
 import {
   CreateTagInputSchema,
   UpdateTagInputSchema,
+  ListTagsInputSchema,
+  MoveTagInputSchema,
+  ReparentTagChildrenInputSchema,
+  MergeTagsInputSchema,
   AddTagToNoteInputSchema,
   RemoveTagFromNoteInputSchema,
 } from '@loqi-notes/shared-types';
@@ -23,9 +30,11 @@ export const tagsRouter = router({
       return createTag(ctx.user.id, input, ctx.db);
     }),
 
-  list: protectedProcedure.query(async ({ ctx }) => {
-    return listTags(ctx.user.id, ctx.db);
-  }),
+  list: protectedProcedure
+    .input(ListTagsInputSchema)
+    .query(async ({ input, ctx }) => {
+      return listTags(ctx.user.id, input, ctx.db);
+    }),
 
   getById: protectedProcedure
     .input(z.object({ id: z.string().uuid() }))
@@ -39,6 +48,24 @@ export const tagsRouter = router({
       return updateTag(ctx.user.id, input, ctx.db);
     }),
 
+  move: protectedProcedure
+    .input(MoveTagInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      return moveTag(ctx.user.id, input, ctx.db);
+    }),
+
+  reparentChildren: protectedProcedure
+    .input(ReparentTagChildrenInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      return reparentTagChildren(ctx.user.id, input, ctx.db);
+    }),
+
+  merge: protectedProcedure
+    .input(MergeTagsInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      return mergeTags(ctx.user.id, input, ctx.db);
+    }),
+
   delete: protectedProcedure
     .input(z.object({ id: z.string().uuid() }))
     .mutation(async ({ input, ctx }) => {
@@ -1,12 +1,64 @@
-import { eq, and, isNull, sql } from 'drizzle-orm';
+import { eq, and, isNull, sql, inArray } from 'drizzle-orm';
 import type {
   CreateTagInput,
   UpdateTagInput,
+  ListTagsInput,
+  MoveTagInput,
+  ReparentTagChildrenInput,
+  MergeTagsInput,
   AddTagToNoteInput,
   RemoveTagFromNoteInput,
 } from '@loqi-notes/shared-types';
-import { tags, noteTags, notes } from '../../db/schema';
-import { NotFoundError, ConflictError } from '../../utils/errors';
+import { tags, noteTags, notes, tagAliases } from '../../db/schema';
+import { NotFoundError, ConflictError, ValidationError } from '../../utils/errors';
+import { publishNoteChange } from '../../lib/realtime';
+import { requireNoteAccess } from '../notes/access';
+
+/**
+ * Ids of a tag and all tags nested under it
+ */
+export async function getTagSubtreeIds(userId: string, tagId: string, db: any): Promise<string[]> {
+  const rows = await db.execute(sql`
+    WITH RECURSIVE subtree AS (
+      SELECT id FROM ${tags}
+      WHERE id = ${tagId} AND user_id = ${userId} AND deleted_at IS NULL
+      UNION ALL
+      SELECT child.id FROM ${tags} child
+      INNER JOIN subtree ON child.parent_id = subtree.id
+      WHERE child.deleted_at IS NULL
+    )
+    SELECT id FROM subtree
+  `);
+
+  return rows.map((row: any) => row.id);
+}
+
+/**
+ * Subquery of the ids of notes tagged with any of `tagIds`, for `notes.id IN (...)` filters
+ * With `includeDescendants`, tags nested under them count as well.
+ */
+export function taggedNoteIdsQuery(
+  userId: string,
+  tagIds: string[],
+  options: { includeDescendants?: boolean } = {}
+) {
+  if (!options.includeDescendants) {
+    return sql`(SELECT nt.note_id FROM ${noteTags} nt WHERE nt.tag_id IN ${tagIds})`;
+  }
+
+  return sql`(
+    WITH RECURSIVE tag_tree AS (
+      SELECT t.id FROM ${tags} t
+      WHERE t.user_id = ${userId} AND t.id IN ${tagIds}
+      UNION
+      SELECT child.id FROM ${tags} child
+      INNER JOIN tag_tree ON child.parent_id = tag_tree.id
+      WHERE child.deleted_at IS NULL
+    )
+    SELECT nt.note_id FROM ${noteTags} nt
+    INNER JOIN tag_tree ON nt.tag_id = tag_tree.id
+  )`;
+}
 
 export async function createTag(userId: string, input: CreateTagInput, db: any) {
   // Check if tag with same name already exists for this user
@@ -22,10 +74,15 @@ export async function createTag(userId: string, input: CreateTagInput, db: any)
     throw new ConflictError(`Tag "${input.name}" already exists`);
   }
 
+  if (input.parentId) {
+    await getTagById(userId, input.parentId, db);
+  }
+
   const [tag] = await db
     .insert(tags)
     .values({
       userId,
+      parentId: input.parentId,
       name: input.name,
       color: input.color,
       icon: input.icon,
@@ -35,13 +92,99 @@ export async function createTag(userId: string, input: CreateTagInput, db: any)
   return tag;
 }
 
-export async function listTags(userId: string, db: any) {
+/**
+ * Look up tags by name, creating the ones that don't exist yet
+ * Returns tag ids in the order of the (de-duplicated) names
+ */
+export async function findOrCreateTags(
+  userId: string,
+  names: string[],
+  db: any
+): Promise<string[]> {
+  const uniqueNames: string[] = Array.from(
+    new Set(names.map((name) => name.trim()).filter(Boolean))
+  );
+
+  if (uniqueNames.length === 0) {
+    return [];
+  }
+
+  const existing = await db
+    .select({ id: tags.id, name: tags.name })
+    .from(tags)
+    .where(and(eq(tags.userId, userId), isNull(tags.deletedAt), inArray(tags.name, uniqueNames)));
+
+  const idsByName = new Map<string, string>(existing.map((tag: any) => [tag.name, tag.id]));
+
+  // Names of merged tags resolve to the tag they were merged into
+  const unmatched = uniqueNames.filter((name) => !idsByName.has(name));
+  if (unmatched.length > 0) {
+    const aliases = await db
+      .select({ alias: tagAliases.alias, tagId: tagAliases.tagId })
+      .from(tagAliases)
+      .innerJoin(tags, eq(tags.id, tagAliases.tagId))
+      .where(
+        and(
+          eq(tagAliases.userId, userId),
+          inArray(tagAliases.alias, unmatched),
+          isNull(tags.deletedAt)
+        )
+      );
+
+    for (const alias of aliases) {
+      idsByName.set(alias.alias, alias.tagId);
+    }
+  }
+
+  const missing = uniqueNames.filter((name) => !idsByName.has(name));
+
+  if (missing.length > 0) {
+    const created = await db
+      .insert(tags)
+      .values(missing.map((name) => ({ userId, name })))
+      .returning({ id: tags.id, name: tags.name });
+
+    for (const tag of created) {
+      idsByName.set(tag.name, tag.id);
+    }
+  }
+
+  return uniqueNames.map((name) => idsByName.get(name) as string);
+}
+
+/**
+ * All tags as a flat list ordered by name; clients build the tree from parentId
+ * With `rollUpCounts`, notesCount includes notes tagged with nested tags, each note counted once.
+ */
+export async function listTags(userId: string, input: ListTagsInput, db: any) {
   const tagsList = await db.query.tags.findMany({
     where: and(eq(tags.userId, userId), isNull(tags.deletedAt)),
     orderBy: (tags: any, { asc }: any) => [asc(tags.name)],
   });
 
-  return tagsList;
+  if (!input.rollUpCounts) {
+    return tagsList;
+  }
+
+  const rows = await db.execute(sql`
+    WITH RECURSIVE tag_tree AS (
+      SELECT id AS root_id, id FROM ${tags}
+      WHERE user_id = ${userId} AND deleted_at IS NULL
+      UNION ALL
+      SELECT tag_tree.root_id, child.id FROM ${tags} child
+      INNER JOIN tag_tree ON child.parent_id = tag_tree.id
+      WHERE child.deleted_at IS NULL
+    )
+    SELECT tag_tree.root_id AS "tagId", count(DISTINCT nt.note_id)::int AS "count"
+    FROM tag_tree
+    INNER JOIN ${noteTags} nt ON nt.tag_id = tag_tree.id
+    INNER JOIN ${notes} n ON n.id = nt.note_id AND n.deleted_at IS NULL
+    GROUP BY tag_tree.root_id
+  `);
+
+  const counts = new Map<string, number>(rows.map((row: any) => [row.tagId, Number(row.count)]));
+
+  return tagsList.map((tag: any) => ({ ...tag, notesCount: counts.get(tag.id) ?? 0 }));
 }
 
 export async function getTagById(userId: string, tagId: string, db: any) {
@@ -99,6 +242,66 @@ export async function updateTag(userId: string, input: UpdateTagInput, db: any)
   return updated;
 }
 
+/**
+ * A tag (or its children) can only move under a live tag outside its own subtree
+ */
+async function checkNewParent(userId: string, tagId: string, parentId: string | null, db: any) {
+  if (!parentId) {
+    return;
+  }
+
+  await getTagById(userId, parentId, db);
+
+  const subtree = await getTagSubtreeIds(userId, tagId, db);
+  if (subtree.includes(parentId)) {
+    throw new ValidationError('A tag cannot be moved into itself or one of its children', {
+      tagId,
+      parentId,
+    });
+  }
+}
+
+export async function moveTag(userId: string, input: MoveTagInput, db: any) {
+  const { id, parentId } = input;
+
+  return db.transaction(async (tx: any) => {
+    await getTagById(userId, id, tx);
+    await checkNewParent(userId, id, parentId, tx);
+
+    const [updated] = await tx
+      .update(tags)
+      .set({ parentId, updatedAt: new Date() })
+      .where(eq(tags.id, id))
+      .returning();
+
+    return updated;
+  });
+}
+
+/**
+ * Move every child of a tag under another tag (or to the top level)
+ */
+export async function reparentTagChildren(
+  userId: string,
+  input: ReparentTagChildrenInput,
+  db: any
+) {
+  const { id, parentId } = input;
+
+  return db.transaction(async (tx: any) => {
+    await getTagById(userId, id, tx);
+    await checkNewParent(userId, id, parentId, tx);
+
+    const moved = await tx
+      .update(tags)
+      .set({ parentId, updatedAt: new Date() })
+      .where(and(eq(tags.parentId, id), isNull(tags.deletedAt)))
+      .returning({ id: tags.id });
+
+    return { success: true, movedCount: moved.length };
+  });
+}
+
 export async function deleteTag(userId: string, tagId: string, db: any) {
   const tag = await db.query.tags.findFirst({
     where: and(eq(tags.id, tagId), eq(tags.userId, userId), isNull(tags.deletedAt)),
@@ -117,12 +320,112 @@ export async function deleteTag(userId: string, tagId: string, db: any) {
     })
     .where(eq(tags.id, tagId));
 
+  // Nested tags move up one level instead of disappearing with their parent
+  await db
+    .update(tags)
+    .set({ parentId: tag.parentId, updatedAt: new Date() })
+    .where(and(eq(tags.parentId, tagId), isNull(tags.deletedAt)));
+
   // Remove all note-tag associations (the junction table entries remain but tag is soft-deleted)
   // Note: We don't need to delete from noteTags as the tag is soft-deleted
 
   return { success: true };
 }
 
+/**
+ * Fold duplicate tags into one
+ * Notes of the sources get the target tag, nested tags move under the target,
+ * and the sources are soft-deleted with their names kept as aliases of the target.
+ */
+export async function mergeTags(userId: string, input: MergeTagsInput, db: any) {
+  const sourceIds = Array.from(new Set(input.sourceIds));
+
+  if (sourceIds.includes(input.targetId)) {
+    throw new ValidationError('A tag cannot be merged into itself', { tagId: input.targetId });
+  }
+
+  const result = await db.transaction(async (tx: any) => {
+    const target = await getTagById(userId, input.targetId, tx);
+
+    const sources = await tx
+      .select({ id: tags.id, name: tags.name })
+      .from(tags)
+      .where(and(eq(tags.userId, userId), inArray(tags.id, sourceIds), isNull(tags.deletedAt)));
+    const foundIds = new Set(sources.map((source: any) => source.id));
+
+    const missing = sourceIds.find((sourceId) => !foundIds.has(sourceId));
+    if (missing) {
+      throw new NotFoundError('Tag', missing);
+    }
+
+    // The sources' children move under the target, which can't be one of them
+    for (const sourceId of sourceIds) {
+      const subtree = await getTagSubtreeIds(userId, sourceId, tx);
+      if (subtree.includes(target.id)) {
+        throw new ValidationError('A tag cannot be merged into one of its own children', {
+          tagId: sourceId,
+          targetId: target.id,
+        });
+      }
+    }
+
+    const tagged = await tx
+      .selectDistinct({ noteId: noteTags.noteId })
+      .from(noteTags)
+      .where(inArray(noteTags.tagId, sourceIds));
+    const noteIds: string[] = tagged.map((row: any) => row.noteId);
+
+    if (noteIds.length > 0) {
+      // Notes that already have the target keep a single row
+      await tx
+        .insert(noteTags)
+        .values(noteIds.map((noteId) => ({ noteId, tagId: target.id })))
+        .onConflictDoNothing();
+      await tx.delete(noteTags).where(inArray(noteTags.tagId, sourceIds));
+    }
+
+    await tx
+      .update(tags)
+      .set({ parentId: target.id, updatedAt: new Date() })
+      .where(and(inArray(tags.parentId, sourceIds), isNull(tags.deletedAt)));
+
+    await tx
+      .update(tags)
+      .set({ deletedAt: new Date(), updatedAt: new Date() })
+      .where(inArray(tags.id, sourceIds));
+
+    // Aliases of earlier merges into the sources follow them to the target
+    await tx
+      .update(tagAliases)
+      .set({ tagId: target.id })
+      .where(and(eq(tagAliases.userId, userId), inArray(tagAliases.tagId, sourceIds)));
+    await tx
+      .insert(tagAliases)
+      .values(sources.map((source: any) => ({ userId, alias: source.name, tagId: target.id })))
+      .onConflictDoUpdate({
+        target: [tagAliases.userId, tagAliases.alias],
+        set: { tagId: target.id },
+      });
+
+    await recountTags([target.id, ...sourceIds], tx);
+
+    return {
+      noteIds,
+      response: {
+        success: true,
+        tag: await getTagById(userId, target.id, tx),
+        mergedCount: sources.length,
+        notesRetagged: noteIds.length,
+      },
+    };
+  });
+
+  // Devices only hear about retagged notes once the merge has committed
+  result.noteIds.forEach((noteId: string) => publishNoteChange(userId, 'updated', noteId));
+
+  return result.response;
+}
+
 export async function addTagToNote(
   userId: string,
   input: AddTagToNoteInput,
@@ -130,14 +433,8 @@ export async function addTagToNote(
 ) {
   const { noteId, tagId } = input;
 
-  // Verify note exists and belongs to user
-  const note = await db.query.notes.findFirst({
-    where: and(eq(notes.id, noteId), eq(notes.userId, userId)),
-  });
-
-  if (!note) {
-    throw new NotFoundError('Note', noteId);
-  }
+  // Tagging stays with the owner, so collaborators get a clear Forbidden instead of NotFound
+  await requireNoteAccess(userId, noteId, 'owner', db);
 
   // Verify tag exists and belongs to user
   const tag = await db.query.tags.findFirst({
@@ -180,14 +477,8 @@ export async function removeTagFromNote(
 ) {
   const { noteId, tagId } = input;
 
-  // Verify note exists and belongs to user
-  const note = await db.query.notes.findFirst({
-    where: and(eq(notes.id, noteId), eq(notes.userId, userId)),
-  });
-
-  if (!note) {
-    throw new NotFoundError('Note', noteId);
-  }
+  // Tagging stays with the owner, so collaborators get a clear Forbidden instead of NotFound
+  await requireNoteAccess(userId, noteId, 'owner', db);
 
   // Verify tag exists and belongs to user
   const tag = await db.query.tags.findFirst({
@@ -224,3 +515,25 @@ export async function removeTagFromNote(
 
   return { success: true };
 }
+
+/**
+ * Recompute notesCount for the given tags from their live (non-deleted) notes
+ * Used after bulk changes where incremental +1/-1 updates would drift.
+ */
+export async function recountTags(tagIds: string[], db: any) {
+  if (tagIds.length === 0) {
+    return;
+  }
+
+  await db
+    .update(tags)
+    .set({
+      notesCount: sql`(
+        SELECT count(*)::int FROM ${noteTags}
+        INNER JOIN ${notes} ON ${notes.id} = ${noteTags.noteId}
+        WHERE ${noteTags.tagId} = ${tags.id} AND ${notes.deletedAt} IS NULL
+      )`,
+      updatedAt: new Date(),
+    })
+    .where(inArray(tags.id, Array.from(new Set(tagIds))));
+}
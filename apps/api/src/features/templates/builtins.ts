@@ -0,0 +1,93 @@
+/**
+ * Built-in Note Templates
+ *
+ * Available to every user; addressed by key instead of id.
+ * Content is Markdown so the chunker can split on the headings.
+ */
+
+import type { BuiltInTemplateKey } from '@loqi-notes/shared-types';
+
+export interface BuiltInTemplate {
+  id: BuiltInTemplateKey;
+  name: string;
+  description: string;
+  title: string;
+  content: string;
+}
+
+export const BUILT_IN_TEMPLATES: BuiltInTemplate[] = [
+  {
+    id: 'cornell',
+    name: 'Cornell Notes',
+    description: 'Cue column, main notes and a summary for review',
+    title: '{{course.code}} {{course.name}} - Cornell Notes {{date}}',
+    content: `# {{course.name}} - {{date}}
+
+## Cues
+- 
+
+## Notes
+
+
+## Summary
+`,
+  },
+  {
+    id: 'lecture-outline',
+    name: 'Lecture Outline',
+    description: 'Topics, key concepts and open questions for a lecture',
+    title: '{{course.code}} Lecture - {{date}}',
+    content: `# {{course.name}} - Lecture {{date}}
+
+Instructor: {{course.instructor}}
+Location: {{classSchedule.location}}
+Time: {{classSchedule.startTime}} - {{classSchedule.endTime}}
+
+## Topics
+- 
+
+## Key Concepts
+
+
+## Questions
+- 
+
+## Follow-up
+- 
+`,
+  },
+  {
+    id: 'lab-report',
+    name: 'Lab Report',
+    description: 'Objective, procedure, results and conclusion for a lab session',
+    title: '{{course.code}} Lab Report - {{date}}',
+    content: `# {{course.name}} Lab Report - {{date}}
+
+Location: {{classSchedule.location}}
+
+## Objective
+
+
+## Hypothesis
+
+
+## Materials
+- 
+
+## Procedure
+1. 
+
+## Data and Observations
+
+
+## Analysis
+
+
+## Conclusion
+`,
+  },
+];
+
+export function getBuiltInTemplate(id: string): BuiltInTemplate | undefined {
+  return BUILT_IN_TEMPLATES.find((template) => template.id === id);
+}
@@ -0,0 +1,53 @@
+/**
+ * Template Rendering
+ *
+ * Fills {{variable}} placeholders in note templates.
+ * - Dotted paths read nested values ({{course.name}})
+ * - Missing values render as an empty string
+ * - Only own properties are read, so {{constructor}} and the like render nothing
+ */
+
+export type TemplateVariables = Record<string, unknown>;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+function lookup(variables: TemplateVariables, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => {
+    if (value && typeof value === 'object' && Object.prototype.hasOwnProperty.call(value, key)) {
+      return (value as Record<string, unknown>)[key];
+    }
+    return undefined;
+  }, variables);
+}
+
+/**
+ * Replace every {{path}} in the template with its value
+ */
+export function renderTemplate(template: string, variables: TemplateVariables): string {
+  return template.replace(PLACEHOLDER_PATTERN, (_match, path: string) => {
+    const value = lookup(variables, path);
+    return value === undefined || value === null ? '' : String(value);
+  });
+}
+
+/**
+ * Render a single-line template such as a note title
+ * Collapses the gaps left by empty variables and trims dangling separators.
+ */
+export function renderTemplateLine(template: string, variables: TemplateVariables): string {
+  return renderTemplate(template, variables)
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s\-–—:|]+|[\s\-–—:|]+$/g, '')
+    .trim();
+}
+
+/**
+ * List the distinct variable paths used in a template
+ */
+export function extractTemplateVariables(template: string): string[] {
+  const paths = new Set<string>();
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    paths.add(match[1]);
+  }
+  return Array.from(paths);
+}
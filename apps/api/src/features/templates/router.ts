@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import { router, protectedProcedure } from '../../trpc';
+import {
+  CreateTemplateInputSchema,
+  UpdateTemplateInputSchema,
+  TemplateIdSchema,
+} from '@loqi-notes/shared-types';
+import {
+  createTemplate,
+  listTemplates,
+  getTemplateById,
+  updateTemplate,
+  deleteTemplate,
+} from './service';
+
+export const templatesRouter = router({
+  create: protectedProcedure.input(CreateTemplateInputSchema).mutation(async ({ input, ctx }) => {
+    return createTemplate(ctx.user.id, input, ctx.db);
+  }),
+
+  list: protectedProcedure.query(async ({ ctx }) => {
+    return listTemplates(ctx.user.id, ctx.db);
+  }),
+
+  getById: protectedProcedure
+    .input(z.object({ id: TemplateIdSchema }))
+    .query(async ({ input, ctx }) => {
+      return getTemplateById(ctx.user.id, input.id, ctx.db);
+    }),
+
+  update: protectedProcedure.input(UpdateTemplateInputSchema).mutation(async ({ input, ctx }) => {
+    return updateTemplate(ctx.user.id, input, ctx.db);
+  }),
+
+  delete: protectedProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      return deleteTemplate(ctx.user.id, input.id, ctx.db);
+    }),
+});
@@ -0,0 +1,259 @@
+import { eq, and, isNull, asc } from 'drizzle-orm';
+import type {
+  CreateTemplateInput,
+  UpdateTemplateInput,
+  CreateNoteFromTemplateInput,
+} from '@loqi-notes/shared-types';
+import { noteTemplates, courses, classSchedules } from '../../db/schema';
+import { NotFoundError } from '../../utils/errors';
+import { createNote } from '../notes/service';
+import { BUILT_IN_TEMPLATES, getBuiltInTemplate } from './builtins';
+import type { BuiltInTemplate } from './builtins';
+import { renderTemplate, renderTemplateLine, extractTemplateVariables } from './render';
+import type { TemplateVariables } from './render';
+
+function formatBuiltIn(template: BuiltInTemplate) {
+  return {
+    ...template,
+    userId: null,
+    builtIn: true,
+    variables: extractTemplateVariables(`${template.title}\n${template.content}`),
+    createdAt: null,
+    updatedAt: null,
+  };
+}
+
+function formatUserTemplate(template: any) {
+  return {
+    id: template.id,
+    userId: template.userId,
+    name: template.name,
+    description: template.description,
+    title: template.title,
+    content: template.content,
+    builtIn: false,
+    variables: extractTemplateVariables(`${template.title}\n${template.content}`),
+    createdAt: template.createdAt,
+    updatedAt: template.updatedAt,
+  };
+}
+
+async function findUserTemplate(userId: string, templateId: string, db: any) {
+  const template = await db.query.noteTemplates.findFirst({
+    where: and(
+      eq(noteTemplates.id, templateId),
+      eq(noteTemplates.userId, userId),
+      isNull(noteTemplates.deletedAt)
+    ),
+  });
+
+  if (!template) {
+    throw new NotFoundError('Template', templateId);
+  }
+
+  return template;
+}
+
+export async function createTemplate(userId: string, input: CreateTemplateInput, db: any) {
+  const [template] = await db
+    .insert(noteTemplates)
+    .values({
+      userId,
+      name: input.name,
+      description: input.description,
+      title: input.title,
+      content: input.content,
+    })
+    .returning();
+
+  return formatUserTemplate(template);
+}
+
+export async function listTemplates(userId: string, db: any) {
+  const userTemplates = await db.query.noteTemplates.findMany({
+    where: and(eq(noteTemplates.userId, userId), isNull(noteTemplates.deletedAt)),
+    orderBy: (t: any, { asc }: any) => [asc(t.name)],
+  });
+
+  return [...BUILT_IN_TEMPLATES.map(formatBuiltIn), ...userTemplates.map(formatUserTemplate)];
+}
+
+export async function getTemplateById(userId: string, templateId: string, db: any) {
+  const builtIn = getBuiltInTemplate(templateId);
+  if (builtIn) {
+    return formatBuiltIn(builtIn);
+  }
+
+  return formatUserTemplate(await findUserTemplate(userId, templateId, db));
+}
+
+export async function updateTemplate(userId: string, input: UpdateTemplateInput, db: any) {
+  const { id, ...updateData } = input;
+
+  const [updated] = await db
+    .update(noteTemplates)
+    .set({
+      ...updateData,
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(noteTemplates.id, id),
+        eq(noteTemplates.userId, userId),
+        isNull(noteTemplates.deletedAt)
+      )
+    )
+    .returning();
+
+  if (!updated) {
+    throw new NotFoundError('Template', id);
+  }
+
+  return formatUserTemplate(updated);
+}
+
+export async function deleteTemplate(userId: string, templateId: string, db: any) {
+  const [deleted] = await db
+    .update(noteTemplates)
+    .set({
+      deletedAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(noteTemplates.id, templateId),
+        eq(noteTemplates.userId, userId),
+        isNull(noteTemplates.deletedAt)
+      )
+    )
+    .returning();
+
+  if (!deleted) {
+    throw new NotFoundError('Template', templateId);
+  }
+
+  return { success: true };
+}
+
+function formatTime(time: string | null | undefined): string | undefined {
+  // Postgres time columns come back as HH:mm:ss
+  return time ? time.slice(0, 5) : undefined;
+}
+
+// The calendar day of `date` in `timeZone`; en-CA formats it as YYYY-MM-DD
+function toDateString(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(date);
+}
+
+/**
+ * Build the {{variables}} available to templates from the course and class schedule
+ */
+function buildTemplateVariables(
+  date: string,
+  course: any | null,
+  classSchedule: any | null
+): TemplateVariables {
+  const weekday = new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'long' });
+
+  return {
+    date,
+    weekday,
+    course: course
+      ? {
+          name: course.name,
+          code: course.code,
+          section: course.section,
+          instructor: course.instructor,
+          location: course.location,
+          term: course.term,
+        }
+      : undefined,
+    classSchedule: classSchedule
+      ? {
+          // Fall back to the course location when the schedule doesn't override it
+          location: classSchedule.location ?? course?.location,
+          classType: classSchedule.classType,
+          startTime: formatTime(classSchedule.startTime),
+          endTime: formatTime(classSchedule.endTime),
+        }
+      : undefined,
+  };
+}
+
+async function loadTemplateContext(
+  userId: string,
+  input: CreateNoteFromTemplateInput,
+  date: string,
+  db: any
+) {
+  let classSchedule: any = null;
+  let courseId = input.courseId;
+
+  if (input.classScheduleId) {
+    classSchedule = await db.query.classSchedules.findFirst({
+      where: and(eq(classSchedules.id, input.classScheduleId), eq(classSchedules.userId, userId)),
+    });
+
+    if (!classSchedule) {
+      throw new NotFoundError('Class schedule', input.classScheduleId);
+    }
+
+    courseId = courseId ?? classSchedule.courseId;
+  }
+
+  if (!courseId) {
+    return { course: null, classSchedule };
+  }
+
+  const course = await db.query.courses.findFirst({
+    where: and(eq(courses.id, courseId), eq(courses.userId, userId), isNull(courses.deletedAt)),
+  });
+
+  if (!course) {
+    throw new NotFoundError('Course', courseId);
+  }
+
+  // Without an explicit schedule, use the course's first class on that weekday
+  if (!classSchedule) {
+    const dayOfWeek = new Date(`${date}T00:00:00`).getDay();
+    const [scheduleForDay] = await db
+      .select()
+      .from(classSchedules)
+      .where(and(eq(classSchedules.courseId, course.id), eq(classSchedules.dayOfWeek, dayOfWeek)))
+      .orderBy(asc(classSchedules.startTime))
+      .limit(1);
+    classSchedule = scheduleForDay ?? null;
+  }
+
+  return { course, classSchedule };
+}
+
+export async function createNoteFromTemplate(
+  userId: string,
+  input: CreateNoteFromTemplateInput,
+  db: any
+) {
+  const template =
+    getBuiltInTemplate(input.templateId) ?? (await findUserTemplate(userId, input.templateId, db));
+
+  const date = input.date ?? toDateString(new Date(), input.timeZone ?? 'UTC');
+  const { course, classSchedule } = await loadTemplateContext(userId, input, date, db);
+  const variables = buildTemplateVariables(date, course, classSchedule);
+
+  return createNote(
+    userId,
+    {
+      title: input.title ?? (renderTemplateLine(template.title, variables) || 'Untitled'),
+      content: renderTemplate(template.content, variables),
+      hasHandwriting: false,
+      tagIds: input.tagIds,
+      courseId: course?.id,
+    },
+    db
+  );
+}
@@ -0,0 +1,49 @@
+import express, { Router } from 'express';
+import { CreateTranscriptionInputSchema } from '@loqi-notes/shared-types';
+import { db } from '../../db';
+import { requireAuth } from '../../middleware/auth';
+import { ValidationError } from '../../utils/errors';
+import { createTranscription, AUDIO_EXTENSIONS } from './service';
+
+/**
+ * POST /api/v1/transcriptions?noteId=&title=&courseId=
+ * Body is the raw recording with its Content-Type; the file name can be sent in X-File-Name.
+ * With noteId the transcript is appended to that note, otherwise a new note is created.
+ * Responds 202 with the transcription - poll transcriptions.getStatus for progress.
+ */
+export const transcriptionsUploadRouter: Router = Router();
+
+transcriptionsUploadRouter.post(
+  '/',
+  requireAuth,
+  express.raw({ type: Object.keys(AUDIO_EXTENSIONS), limit: '200mb' }),
+  async (req, res, next) => {
+    try {
+      const parsed = CreateTranscriptionInputSchema.safeParse(req.query);
+      if (!parsed.success) {
+        throw new ValidationError('Invalid transcription options', parsed.error.flatten());
+      }
+
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        throw new ValidationError('Request body must be an audio recording', {
+          supported: Object.keys(AUDIO_EXTENSIONS),
+        });
+      }
+
+      const transcription = await createTranscription(
+        res.locals.user.id,
+        parsed.data,
+        {
+          fileName: (req.header('x-file-name') || 'recording').slice(0, 255),
+          mimeType: req.header('content-type')?.split(';')[0].trim().toLowerCase() ?? '',
+          data: req.body,
+        },
+        db
+      );
+
+      res.status(202).json(transcription);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
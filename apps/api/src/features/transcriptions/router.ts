@@ -0,0 +1,19 @@
+import { router, protectedProcedure } from '../../trpc';
+import {
+  GetTranscriptionInputSchema,
+  ListTranscriptionsInputSchema,
+} from '@loqi-notes/shared-types';
+import { getTranscriptionStatus, listTranscriptions } from './service';
+
+/**
+ * Audio uploads go through the REST route in ./http; these procedures report progress
+ */
+export const transcriptionsRouter = router({
+  getStatus: protectedProcedure.input(GetTranscriptionInputSchema).query(async ({ input, ctx }) => {
+    return getTranscriptionStatus(ctx.user.id, input.id, ctx.db);
+  }),
+
+  list: protectedProcedure.input(ListTranscriptionsInputSchema).query(async ({ input, ctx }) => {
+    return listTranscriptions(ctx.user.id, input, ctx.db);
+  }),
+});
@@ -0,0 +1,320 @@
+/**
+ * Lecture Transcriptions
+ *
+ * Uploaded lecture recordings are transcribed by the transcription job and
+ * written to a note as timestamped sections, either as a new note or
+ * appended to an existing one. Progress is tracked on the transcription row.
+ */
+
+import { randomUUID } from 'crypto';
+import { eq, and, isNull, lt, desc } from 'drizzle-orm';
+import type { CreateTranscriptionInput, ListTranscriptionsInput } from '@loqi-notes/shared-types';
+import { transcriptions, notes, courses } from '../../db/schema';
+import { NotFoundError, ValidationError } from '../../utils/errors';
+import { uploadFile, downloadFile, deleteFiles } from '../../lib/storage';
+import { inngest } from '../../lib/inngest';
+import { logger } from '../../lib/logger';
+import type { SpeechToTextEngine, TranscriptSegment } from '../../lib/stt';
+import { createNote, applyNoteUpdate, emitNoteEvent } from '../notes/service';
+import type { PendingNoteEvent } from '../notes/service';
+import { requireNoteAccess } from '../notes/access';
+import { renderTranscriptMarkdown, appendTranscript } from './transcript';
+
+export const MAX_AUDIO_BYTES = 200 * 1024 * 1024;
+
+// Audio types accepted for upload, with the extension used in storage
+export const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/x-m4a': 'm4a',
+  'audio/aac': 'aac',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/flac': 'flac',
+};
+
+// Progress written while the engine runs is throttled to this step
+const PROGRESS_STEP = 5;
+
+// Segments and the storage path are internal to the job
+function formatTranscription(transcription: any) {
+  return {
+    id: transcription.id,
+    userId: transcription.userId,
+    noteId: transcription.noteId,
+    courseId: transcription.courseId,
+    title: transcription.title,
+    fileName: transcription.fileName,
+    mimeType: transcription.mimeType,
+    sizeBytes: transcription.sizeBytes,
+    status: transcription.status,
+    progress: transcription.progress,
+    error: transcription.error,
+    engine: transcription.engine,
+    durationSeconds: transcription.durationSeconds,
+    segmentCount: transcription.segmentCount,
+    startedAt: transcription.startedAt,
+    completedAt: transcription.completedAt,
+    createdAt: transcription.createdAt,
+    updatedAt: transcription.updatedAt,
+  };
+}
+
+async function findTranscription(transcriptionId: string, db: any) {
+  const transcription = await db.query.transcriptions.findFirst({
+    where: eq(transcriptions.id, transcriptionId),
+  });
+
+  if (!transcription) {
+    throw new NotFoundError('Transcription', transcriptionId);
+  }
+
+  return transcription;
+}
+
+/**
+ * Store an uploaded recording and queue it for transcription
+ */
+export async function createTranscription(
+  userId: string,
+  input: CreateTranscriptionInput,
+  file: { fileName: string; mimeType: string; data: Buffer },
+  db: any
+) {
+  const extension = AUDIO_EXTENSIONS[file.mimeType];
+  if (!extension) {
+    throw new ValidationError('Unsupported audio type', {
+      mimeType: file.mimeType,
+      supported: Object.keys(AUDIO_EXTENSIONS),
+    });
+  }
+
+  if (file.data.length > MAX_AUDIO_BYTES) {
+    throw new ValidationError(`Recordings can be at most ${MAX_AUDIO_BYTES / 1024 / 1024}MB`);
+  }
+
+  if (input.noteId) {
+    const { note } = await requireNoteAccess(userId, input.noteId, 'editor', db);
+    if (note.deletedAt) {
+      throw new ValidationError('Cannot append a transcript to a deleted note');
+    }
+  }
+
+  if (input.courseId) {
+    const course = await db.query.courses.findFirst({
+      where: and(
+        eq(courses.id, input.courseId),
+        eq(courses.userId, userId),
+        isNull(courses.deletedAt)
+      ),
+    });
+
+    if (!course) {
+      throw new NotFoundError('Course', input.courseId);
+    }
+  }
+
+  const id = randomUUID();
+  const storagePath = `transcriptions/${userId}/${id}.${extension}`;
+
+  await uploadFile(storagePath, file.data, file.mimeType);
+
+  const [transcription] = await db
+    .insert(transcriptions)
+    .values({
+      id,
+      userId,
+      noteId: input.noteId,
+      courseId: input.courseId,
+      title: input.title,
+      fileName: file.fileName,
+      mimeType: file.mimeType,
+      sizeBytes: file.data.length,
+      storagePath,
+    })
+    .returning();
+
+  await inngest.send({
+    name: 'transcriptions/requested',
+    data: { transcriptionId: id, userId },
+  });
+
+  return formatTranscription(transcription);
+}
+
+export async function getTranscriptionStatus(userId: string, transcriptionId: string, db: any) {
+  const transcription = await db.query.transcriptions.findFirst({
+    where: and(eq(transcriptions.id, transcriptionId), eq(transcriptions.userId, userId)),
+  });
+
+  if (!transcription) {
+    throw new NotFoundError('Transcription', transcriptionId);
+  }
+
+  return formatTranscription(transcription);
+}
+
+export async function listTranscriptions(userId: string, input: ListTranscriptionsInput, db: any) {
+  const rows = await db
+    .select()
+    .from(transcriptions)
+    .where(eq(transcriptions.userId, userId))
+    .orderBy(desc(transcriptions.createdAt))
+    .limit(input.limit);
+
+  return rows.map(formatTranscription);
+}
+
+/**
+ * Run the speech-to-text engine on a recording and keep the segments on the row
+ */
+export async function transcribeRecording(
+  transcriptionId: string,
+  engine: SpeechToTextEngine,
+  db: any
+) {
+  const transcription = await findTranscription(transcriptionId, db);
+
+  await db
+    .update(transcriptions)
+    .set({
+      status: 'processing',
+      progress: 0,
+      error: null,
+      engine: engine.name,
+      startedAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(eq(transcriptions.id, transcriptionId));
+
+  const audio = await downloadFile(transcription.storagePath);
+
+  let reported = 0;
+  const onProgress = (percent: number) => {
+    // The note is written after transcription, so the engine only gets to 95%
+    const progress = Math.min(95, Math.floor((percent * 95) / 100));
+    if (progress - reported < PROGRESS_STEP) return;
+    reported = progress;
+
+    db.update(transcriptions)
+      .set({ progress, updatedAt: new Date() })
+      // Never move progress backwards if a late update lands after a later one
+      .where(and(eq(transcriptions.id, transcriptionId), lt(transcriptions.progress, progress)))
+      .catch((error: unknown) => {
+        logger.warn({ error, transcriptionId }, 'Failed to record transcription progress');
+      });
+  };
+
+  const result = await engine.transcribe(audio, transcription.mimeType, onProgress);
+
+  await db
+    .update(transcriptions)
+    .set({
+      progress: 95,
+      segments: result.segments,
+      segmentCount: result.segments.length,
+      durationSeconds: result.durationSeconds,
+      updatedAt: new Date(),
+    })
+    .where(eq(transcriptions.id, transcriptionId));
+
+  return { segmentCount: result.segments.length, durationSeconds: result.durationSeconds };
+}
+
+function defaultTitle(transcription: any): string {
+  return transcription.title ?? transcription.fileName.replace(/\.[^.]+$/, '');
+}
+
+/**
+ * Write the transcript to its note and mark the transcription completed
+ * Runs in one transaction so a retried job doesn't write the transcript twice;
+ * note events go out once it has committed.
+ */
+export async function writeTranscriptNote(transcriptionId: string, db: any) {
+  const pendingEvents: PendingNoteEvent[] = [];
+
+  const result = await db.transaction(async (tx: any) => {
+    const transcription = await findTranscription(transcriptionId, tx);
+
+    if (transcription.status === 'completed') {
+      return { noteId: transcription.noteId };
+    }
+
+    const segments: TranscriptSegment[] = transcription.segments ?? [];
+    if (segments.length === 0) {
+      throw new ValidationError('No speech was recognized in the recording');
+    }
+
+    let noteId: string;
+
+    if (transcription.noteId) {
+      const note = await tx.query.notes.findFirst({
+        where: and(eq(notes.id, transcription.noteId), isNull(notes.deletedAt)),
+      });
+
+      if (!note) {
+        throw new NotFoundError('Note', transcription.noteId);
+      }
+
+      const content = appendTranscript(note.content, defaultTitle(transcription), segments);
+      await applyNoteUpdate(note.userId, note, { content }, tx, pendingEvents);
+      noteId = note.id;
+    } else {
+      const note = await createNote(
+        transcription.userId,
+        {
+          title: defaultTitle(transcription),
+          content: renderTranscriptMarkdown(segments),
+          hasHandwriting: false,
+          courseId: transcription.courseId ?? undefined,
+          clientId: `transcription:${transcription.id}`,
+        },
+        tx,
+        pendingEvents
+      );
+      noteId = note.id;
+    }
+
+    await tx
+      .update(transcriptions)
+      .set({
+        noteId,
+        status: 'completed',
+        progress: 100,
+        segments: null,
+        completedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(transcriptions.id, transcriptionId));
+
+    return { noteId };
+  });
+
+  pendingEvents.forEach((event) =>
+    emitNoteEvent(event.name, event.note, event.userId, event.reembed)
+  );
+
+  return result;
+}
+
+/**
+ * Mark a transcription completed or failed and delete the uploaded recording
+ */
+export async function finishTranscription(transcriptionId: string, error: string | null, db: any) {
+  const transcription = await findTranscription(transcriptionId, db);
+
+  if (error) {
+    await db
+      .update(transcriptions)
+      .set({ status: 'failed', error, completedAt: new Date(), updatedAt: new Date() })
+      .where(eq(transcriptions.id, transcriptionId));
+  }
+
+  try {
+    await deleteFiles([transcription.storagePath]);
+  } catch (cleanupError) {
+    logger.warn({ error: cleanupError, transcriptionId }, 'Failed to delete transcription upload');
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Transcript Formatting
+ *
+ * Turns timestamped speech-to-text segments into Markdown with one heading
+ * per time window, so the chunker splits lectures along the timeline and
+ * each chunk's sectionPath says where in the recording it came from.
+ */
+
+import { marked } from 'marked';
+import type { TranscriptSegment } from '../../lib/stt';
+import { isHtmlContent } from '../notes/normalize';
+
+// Length of each timestamped section
+export const SECTION_SECONDS = 5 * 60;
+
+export interface TranscriptSection {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * mm:ss, or h:mm:ss for recordings longer than an hour
+ */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(secs)}` : `${pad(minutes)}:${pad(secs)}`;
+}
+
+/**
+ * Group segments into fixed time windows by their start time
+ */
+export function groupSegments(
+  segments: TranscriptSegment[],
+  sectionSeconds: number = SECTION_SECONDS
+): TranscriptSection[] {
+  const sections = new Map<number, TranscriptSegment[]>();
+
+  for (const segment of segments) {
+    const window = Math.floor(segment.start / sectionSeconds);
+    if (!sections.has(window)) {
+      sections.set(window, []);
+    }
+    sections.get(window)!.push(segment);
+  }
+
+  return Array.from(sections.values()).map((windowSegments) => ({
+    start: windowSegments[0].start,
+    end: windowSegments[windowSegments.length - 1].end,
+    text: windowSegments
+      .map((segment) => segment.text.trim())
+      .filter(Boolean)
+      .join(' '),
+  }));
+}
+
+export function renderTranscriptMarkdown(
+  segments: TranscriptSegment[],
+  options: { headingLevel?: number; sectionSeconds?: number } = {}
+): string {
+  const hashes = '#'.repeat(options.headingLevel ?? 2);
+
+  return groupSegments(segments, options.sectionSeconds)
+    .map(
+      (section) =>
+        `${hashes} ${formatTimestamp(section.start)}–${formatTimestamp(section.end)}\n\n${section.text}`
+    )
+    .join('\n\n');
+}
+
+/**
+ * Append a transcript under its own heading to existing note content
+ * Editor HTML gets the transcript as HTML so the note stays in one format.
+ */
+export function appendTranscript(content: string, heading: string, segments: TranscriptSegment[]) {
+  const markdown = `## ${heading}\n\n${renderTranscriptMarkdown(segments, { headingLevel: 3 })}`;
+
+  if (isHtmlContent(content)) {
+    return `${content}${marked.parse(markdown, { async: false, gfm: true }) as string}`;
+  }
+
+  return content.trim() ? `${content.trimEnd()}\n\n${markdown}\n` : `${markdown}\n`;
+}
@@ -1,23 +1,28 @@
-import { app } from './server';
+import { app, attachWebSocketServer } from './server';
 import { config } from './config';
 import { logger } from './lib/logger';
 
 const port = config.port;
 
-app.listen(port, () => {
+const server = app.listen(port, () => {
   logger.info(`🚀 Server running on http://localhost:${port}`);
   logger.info(`📊 Health check: http://localhost:${port}/health`);
   logger.info(`🔌 tRPC endpoint: http://localhost:${port}/api/v1/trpc`);
+  logger.info(`📡 Subscriptions: ws://localhost:${port}/api/v1/trpc`);
   logger.info(`🌍 Environment: ${config.env}`);
 });
 
-// Graceful shutdown
+const closeWebSocketServer = attachWebSocketServer(server);
+
+// Graceful shutdown - connected clients are told to reconnect
 process.on('SIGTERM', () => {
   logger.info('SIGTERM signal received: closing HTTP server');
+  closeWebSocketServer();
   process.exit(0);
 });
 
 process.on('SIGINT', () => {
   logger.info('SIGINT signal received: closing HTTP server');
+  closeWebSocketServer();
   process.exit(0);
 });
@@ -0,0 +1,42 @@
+/**
+ * Export Notes Job
+ *
+ * Inngest job that builds large note exports in the background
+ * Triggers on: exports/requested event
+ *
+ * Small exports are built inline by notes.export; this job handles the rest
+ * and marks the export failed once retries are exhausted.
+ */
+
+import { inngest } from '../lib/inngest';
+import { db } from '../db';
+import { generateExport, failExport } from '../features/exports/service';
+import { logger } from '../lib/logger';
+
+export const exportNotesJob = inngest.createFunction(
+  {
+    id: 'export-notes',
+    name: 'Export Notes',
+    retries: 3,
+    onFailure: async ({ event, error }) => {
+      const { exportId } = event.data.event.data;
+      logger.error({ exportId, error }, 'Note export failed');
+      await failExport(exportId, error.message, db);
+    },
+  },
+  { event: 'exports/requested' },
+  async ({ event, step }) => {
+    const { exportId, userId } = event.data;
+
+    logger.info({ exportId, userId }, 'Starting note export job');
+
+    const noteCount = await step.run('generate-export', async () => {
+      const completed = await generateExport(exportId, db);
+      return completed.noteCount as number;
+    });
+
+    logger.info({ exportId, noteCount }, 'Completed note export job');
+
+    return { success: true, exportId, noteCount };
+  }
+);
@@ -9,15 +9,19 @@
  * 2. Chunk the note content using embeddings chunker
  * 3. Generate embeddings for each chunk via OpenAI
  * 4. Delete old chunks (if update)
- * 5. Insert new chunks and embeddings to database
+ * 5. Insert new chunks and embeddings to database, tagged with the note blocks they cover
+ * 6. Notify the owner's connected devices
  */
 
-import { eq } from 'drizzle-orm';
+import { eq, asc } from 'drizzle-orm';
 import { inngest } from '../lib/inngest';
-import { db, noteChunks, noteChunkEmbeddings } from '../db';
+import { db, noteChunks, noteChunkEmbeddings, noteBlocks } from '../db';
 import { chunkMarkdown } from '../features/embeddings';
+import { toMarkdown, stripBlockIds } from '../features/notes/normalize';
+import { mapChunksToBlocks } from '../features/notes/blocks';
 import { generateEmbeddingsBatch } from '../lib/openai';
 import { logger } from '../lib/logger';
+import { publish } from '../lib/realtime';
 import { config } from '../config';
 
 /**
@@ -30,17 +34,11 @@ export const generateEmbeddingsJob = inngest.createFunction(
     // Retry configuration: 3 retries with exponential backoff
     retries: 3,
   },
-  [
-    { event: 'notes/created' },
-    { event: 'notes/updated' },
-  ],
+  [{ event: 'notes/created' }, { event: 'notes/updated' }],
   async ({ event, step }) => {
-    const { noteId, userId, title, content, courseTag } = event.data;
+    const { noteId, userId, title, content, ocrText, courseTag } = event.data;
 
-    logger.info(
-      { noteId, userId, eventName: event.name },
-      'Starting embedding generation job'
-    );
+    logger.info({ noteId, userId, eventName: event.name }, 'Starting embedding generation job');
 
     // Step 1: Delete old chunks if this is an update
     if (event.name === 'notes/updated') {
@@ -60,18 +58,19 @@ export const generateEmbeddingsJob = inngest.createFunction(
     }
 
     // Step 2: Chunk the note content
+    // The course stays out of the embedded text so a note can change course
+    // without re-embedding; it's stored on the chunks for filtering only
     const chunks = await step.run('chunk-note-content', async () => {
+      const markdown = stripBlockIds(toMarkdown(content));
       const chunked = chunkMarkdown({
         noteId,
         noteTitle: title,
-        content,
-        courseTag,
+        // Editor HTML is converted so the chunker sees its headings;
+        // OCR text from handwritten pages is chunked as its own section
+        content: ocrText ? `${markdown}\n\n## Handwritten notes\n\n${ocrText}` : markdown,
       });
 
-      logger.info(
-        { noteId, chunkCount: chunked.length },
-        'Chunked note content'
-      );
+      logger.info({ noteId, chunkCount: chunked.length }, 'Chunked note content');
 
       return chunked;
     });
@@ -79,6 +78,7 @@ export const generateEmbeddingsJob = inngest.createFunction(
     // Handle empty content case
     if (chunks.length === 0) {
       logger.info({ noteId }, 'Note has no content to embed, skipping');
+      publish('embeddings', userId, { noteId, chunkCount: 0, completedAt: new Date() });
       return { success: true, chunksProcessed: 0, message: 'No content to embed' };
     }
 
@@ -99,6 +99,17 @@ export const generateEmbeddingsJob = inngest.createFunction(
 
     // Step 4: Insert chunks and embeddings to database
     await step.run('insert-chunks-and-embeddings', async () => {
+      // Blocks were synced when the note was saved, so citations can point at paragraphs
+      const blocks = await db
+        .select({ blockId: noteBlocks.blockId, markdown: noteBlocks.markdown })
+        .from(noteBlocks)
+        .where(eq(noteBlocks.noteId, noteId))
+        .orderBy(asc(noteBlocks.position));
+      const chunkBlockIds = mapChunksToBlocks(
+        chunks.map((chunk) => chunk.contentRaw),
+        blocks
+      );
+
       // Insert chunks
       const insertedChunks = await db
         .insert(noteChunks)
@@ -108,10 +119,11 @@ export const generateEmbeddingsJob = inngest.createFunction(
             noteId,
             noteTitle: title,
             sectionPath: chunk.metadata.sectionPath,
-            courseTag: chunk.metadata.courseTag,
+            courseTag,
             contentRaw: chunk.contentRaw,
             contentEmbed: chunk.contentEmbed,
             chunkIndex: index,
+            blockIds: chunkBlockIds[index],
           }))
         )
         .returning({ id: noteChunks.id });
@@ -144,10 +156,9 @@ export const generateEmbeddingsJob = inngest.createFunction(
       };
     });
 
-    logger.info(
-      { noteId, chunksProcessed: chunks.length },
-      'Completed embedding generation job'
-    );
+    logger.info({ noteId, chunksProcessed: chunks.length }, 'Completed embedding generation job');
+
+    publish('embeddings', userId, { noteId, chunkCount: chunks.length, completedAt: new Date() });
 
     return {
       success: true,
@@ -0,0 +1,71 @@
+/**
+ * Import Notes Job
+ *
+ * Inngest job that turns an uploaded Markdown/Obsidian zip into notes
+ * Triggers on: imports/requested event
+ *
+ * Flow:
+ * 1. List the Markdown files in the zip, split them into batch archives and
+ *    mark the import as processing
+ * 2. Create notes in batches, updating progress counters after each batch
+ * 3. Mark the import completed and delete the uploaded zip
+ */
+
+import { NonRetriableError } from 'inngest';
+import { inngest } from '../lib/inngest';
+import { db } from '../db';
+import { prepareImport, importFiles, finishImport } from '../features/imports/service';
+import { ValidationError } from '../utils/errors';
+import { logger } from '../lib/logger';
+
+export const importNotesJob = inngest.createFunction(
+  {
+    id: 'import-notes',
+    name: 'Import Markdown Notes',
+    retries: 3,
+    onFailure: async ({ event, error }) => {
+      const { importId } = event.data.event.data;
+      logger.error({ importId, error }, 'Note import failed');
+      await finishImport(importId, error.message, db);
+    },
+  },
+  { event: 'imports/requested' },
+  async ({ event, step }) => {
+    const { importId, userId } = event.data;
+
+    logger.info({ importId, userId }, 'Starting note import job');
+
+    // Step 1: List the files to import
+    const { batches, vaultRoot } = await step.run('list-vault-files', async () => {
+      try {
+        return await prepareImport(importId, db);
+      } catch (error) {
+        // Bad archives won't get better on retry
+        if (error instanceof ValidationError) {
+          throw new NonRetriableError(error.message, { cause: error });
+        }
+        throw error;
+      }
+    });
+
+    // Step 2: Create notes batch by batch
+    let createdNotes = 0;
+    for (const [index, batch] of batches.entries()) {
+      const result = await step.run(`import-batch-${index}`, async () => {
+        return importFiles(importId, batch, vaultRoot, db);
+      });
+      createdNotes += result.createdNotes;
+    }
+
+    // Step 3: Mark as completed
+    await step.run('finish-import', async () => {
+      await finishImport(importId, null, db);
+    });
+
+    logger.info({ importId, createdNotes }, 'Completed note import job');
+
+    const totalFiles = batches.reduce((sum, batch) => sum + batch.paths.length, 0);
+
+    return { success: true, importId, totalFiles, createdNotes };
+  }
+);
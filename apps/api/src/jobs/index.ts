@@ -5,3 +5,8 @@
  */
 
 export { generateEmbeddingsJob } from './generateEmbeddings';
+export { importNotesJob } from './importNotes';
+export { exportNotesJob } from './exportNotes';
+export { purgeTrashJob } from './purgeTrash';
+export { processOcrJob } from './processOcr';
+export { transcribeLectureJob } from './transcribeLecture';
@@ -0,0 +1,54 @@
+/**
+ * Process OCR Job
+ *
+ * Inngest job that recognizes text in an image attached to a note
+ * Triggers on: attachments/ocr-requested event
+ *
+ * Flow:
+ * 1. Run the configured OCR engine on the image
+ * 2. Store the text on the attachment and rebuild the note's ocrText
+ * 3. Re-embed the note (via notes/updated) so the handwriting is searchable
+ */
+
+import { NonRetriableError } from 'inngest';
+import { inngest } from '../lib/inngest';
+import { db } from '../db';
+import { getOcrEngine } from '../lib/ocr';
+import { runAttachmentOcr, failAttachmentOcr } from '../features/notes/attachments';
+import { NotFoundError } from '../utils/errors';
+import { logger } from '../lib/logger';
+
+export const processOcrJob = inngest.createFunction(
+  {
+    id: 'process-ocr',
+    name: 'Recognize Text in Note Images',
+    retries: 2,
+    onFailure: async ({ event, error }) => {
+      const { attachmentId } = event.data.event.data;
+      logger.error({ attachmentId, error }, 'Note attachment OCR failed');
+      await failAttachmentOcr(attachmentId, error.message, db);
+    },
+  },
+  { event: 'attachments/ocr-requested' },
+  async ({ event, step }) => {
+    const { attachmentId, noteId } = event.data;
+
+    logger.info({ attachmentId, noteId }, 'Starting OCR job');
+
+    const result = await step.run('recognize-text', async () => {
+      try {
+        return await runAttachmentOcr(attachmentId, getOcrEngine(), db);
+      } catch (error) {
+        // The attachment was deleted before the job ran
+        if (error instanceof NotFoundError) {
+          throw new NonRetriableError(error.message, { cause: error });
+        }
+        throw error;
+      }
+    });
+
+    logger.info({ attachmentId, noteId, characters: result.characters }, 'Completed OCR job');
+
+    return { success: true, ...result };
+  }
+);
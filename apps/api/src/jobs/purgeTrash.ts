@@ -0,0 +1,30 @@
+/**
+ * Purge Trash Job
+ *
+ * Scheduled Inngest job that permanently removes notes deleted more than
+ * N days ago, where N is the owner's tier retention (config.limits)
+ * Runs daily at 03:00 UTC
+ */
+
+import { inngest } from '../lib/inngest';
+import { db } from '../db';
+import { purgeExpiredTrash } from '../features/notes/trash';
+import { logger } from '../lib/logger';
+
+export const purgeTrashJob = inngest.createFunction(
+  {
+    id: 'purge-trash',
+    name: 'Purge Expired Trash',
+    retries: 3,
+  },
+  { cron: '0 3 * * *' },
+  async ({ step }) => {
+    logger.info('Starting trash retention job');
+
+    const purgedByTier = await step.run('purge-expired-notes', async () => {
+      return purgeExpiredTrash(db);
+    });
+
+    return { success: true, purgedByTier };
+  }
+);
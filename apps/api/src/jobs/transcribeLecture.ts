@@ -0,0 +1,81 @@
+/**
+ * Transcribe Lecture Job
+ *
+ * Inngest job that turns an uploaded lecture recording into a note
+ * Triggers on: transcriptions/requested event
+ *
+ * Flow:
+ * 1. Transcribe the recording with the configured speech-to-text engine
+ * 2. Write the transcript to a new note, or append it to the chosen note,
+ *    as timestamped sections (the note is then embedded like any other)
+ * 3. Delete the uploaded recording
+ */
+
+import { NonRetriableError } from 'inngest';
+import { inngest } from '../lib/inngest';
+import { db } from '../db';
+import { getSpeechToTextEngine } from '../lib/stt';
+import {
+  transcribeRecording,
+  writeTranscriptNote,
+  finishTranscription,
+} from '../features/transcriptions/service';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { logger } from '../lib/logger';
+
+// Missing rows/notes and empty transcripts won't get better on retry
+function nonRetriable(error: unknown): never {
+  if (error instanceof NotFoundError || error instanceof ValidationError) {
+    throw new NonRetriableError(error.message, { cause: error });
+  }
+  throw error;
+}
+
+export const transcribeLectureJob = inngest.createFunction(
+  {
+    id: 'transcribe-lecture',
+    name: 'Transcribe Lecture Recording',
+    retries: 2,
+    onFailure: async ({ event, error }) => {
+      const { transcriptionId } = event.data.event.data;
+      logger.error({ transcriptionId, error }, 'Lecture transcription failed');
+      await finishTranscription(transcriptionId, error.message, db);
+    },
+  },
+  { event: 'transcriptions/requested' },
+  async ({ event, step }) => {
+    const { transcriptionId, userId } = event.data;
+
+    logger.info({ transcriptionId, userId }, 'Starting lecture transcription job');
+
+    // Step 1: Speech to text
+    const transcript = await step.run('transcribe-recording', async () => {
+      try {
+        return await transcribeRecording(transcriptionId, getSpeechToTextEngine(), db);
+      } catch (error) {
+        return nonRetriable(error);
+      }
+    });
+
+    // Step 2: Write the note
+    const { noteId } = await step.run('write-transcript-note', async () => {
+      try {
+        return await writeTranscriptNote(transcriptionId, db);
+      } catch (error) {
+        return nonRetriable(error);
+      }
+    });
+
+    // Step 3: Clean up the upload
+    await step.run('finish-transcription', async () => {
+      await finishTranscription(transcriptionId, null, db);
+    });
+
+    logger.info(
+      { transcriptionId, noteId, segmentCount: transcript.segmentCount },
+      'Completed lecture transcription job'
+    );
+
+    return { success: true, transcriptionId, noteId, ...transcript };
+  }
+);
@@ -20,7 +20,8 @@ type Events = {
       userId: string;
       title: string;
       content: string;
-      courseTag?: string;
+      ocrText?: string;
+      courseTag?: string; // Course id of the note
     };
   };
   'notes/updated': {
@@ -29,7 +30,33 @@ type Events = {
       userId: string;
       title: string;
       content: string;
-      courseTag?: string;
+      ocrText?: string;
+      courseTag?: string; // Course id of the note
+    };
+  };
+  'imports/requested': {
+    data: {
+      importId: string;
+      userId: string;
+    };
+  };
+  'exports/requested': {
+    data: {
+      exportId: string;
+      userId: string;
+    };
+  };
+  'transcriptions/requested': {
+    data: {
+      transcriptionId: string;
+      userId: string;
+    };
+  };
+  'attachments/ocr-requested': {
+    data: {
+      attachmentId: string;
+      noteId: string;
+      userId: string;
     };
   };
 };
@@ -0,0 +1,99 @@
+/**
+ * OCR Engines
+ *
+ * Text recognition for uploaded note images behind a small engine interface,
+ * selected with OCR_ENGINE. `tesseract` runs the local Tesseract CLI; `stub`
+ * returns no text and is meant for development and tests.
+ */
+
+import { spawn } from 'child_process';
+import { config } from '../config';
+import { ExternalServiceError } from '../utils/errors';
+
+export interface OcrResult {
+  text: string;
+  confidence: number | null; // 0-1 when the engine reports it
+}
+
+export interface OcrEngine {
+  name: string;
+  recognize(image: Buffer, mimeType: string): Promise<OcrResult>;
+}
+
+/**
+ * Tesseract CLI, reading the image from stdin and writing text to stdout
+ * The process is killed if it runs longer than `timeoutMs`.
+ */
+export function createTesseractEngine(
+  binaryPath: string = config.ocr.tesseractPath,
+  languages: string = config.ocr.languages,
+  timeoutMs: number = config.ocr.timeoutMs
+): OcrEngine {
+  return {
+    name: 'tesseract',
+    recognize: (image) =>
+      new Promise((resolve, reject) => {
+        const child = spawn(binaryPath, ['stdin', 'stdout', '-l', languages]);
+        const stdout: Buffer[] = [];
+        const stderr: Buffer[] = [];
+        let timedOut = false;
+
+        const timer = setTimeout(() => {
+          timedOut = true;
+          child.kill('SIGKILL');
+        }, timeoutMs);
+
+        child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+        child.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+        child.on('error', (error) => {
+          clearTimeout(timer);
+          reject(new ExternalServiceError('tesseract', error));
+        });
+        child.on('close', (code) => {
+          clearTimeout(timer);
+          if (timedOut) {
+            reject(
+              new ExternalServiceError('tesseract', new Error(`timed out after ${timeoutMs}ms`))
+            );
+            return;
+          }
+          if (code !== 0) {
+            const message = Buffer.concat(stderr).toString('utf8').trim();
+            reject(
+              new ExternalServiceError('tesseract', new Error(message || `exit code ${code}`))
+            );
+            return;
+          }
+          resolve({ text: Buffer.concat(stdout).toString('utf8').trim(), confidence: null });
+        });
+
+        child.stdin.on('error', () => {
+          // The process exited before reading all input; 'close' reports the failure
+        });
+        child.stdin.end(image);
+      }),
+  };
+}
+
+export function createStubOcrEngine(text: string = ''): OcrEngine {
+  return {
+    name: 'stub',
+    recognize: async () => ({ text, confidence: null }),
+  };
+}
+
+const engines: Record<string, () => OcrEngine> = {
+  tesseract: () => createTesseractEngine(),
+  stub: () => createStubOcrEngine(),
+};
+
+/**
+ * The engine configured with OCR_ENGINE
+ */
+export function getOcrEngine(name: string = config.ocr.engine): OcrEngine {
+  const factory = engines[name];
+  if (!factory) {
+    throw new Error(`Unknown OCR engine: ${name}`);
+  }
+  return factory();
+}
@@ -0,0 +1,102 @@
+/**
+ * Realtime Events
+ *
+ * In-process pub/sub for changes pushed to a user's connected devices over the
+ * tRPC WebSocket server. Services and jobs publish after they change data; the
+ * realtime router's subscriptions listen on the user's channels.
+ *
+ * Events only reach sockets connected to the same API process as the publisher,
+ * which includes Inngest jobs since they are served from this app.
+ */
+
+import { EventEmitter } from 'events';
+import { logger } from './logger';
+
+export interface NoteChangeEvent {
+  type: 'created' | 'updated' | 'deleted' | 'restored' | 'purged';
+  noteId: string;
+  // Set when the change produced a known version, so clients can skip refetching one they have
+  version?: number;
+  changedAt: Date;
+}
+
+export interface EmbeddingsCompletedEvent {
+  noteId: string;
+  chunkCount: number;
+  completedAt: Date;
+}
+
+export interface ScheduleChangeEvent {
+  source: 'assignment' | 'studySession' | 'course' | 'classSchedule';
+  id: string;
+  action: 'created' | 'updated' | 'deleted';
+  changedAt: Date;
+}
+
+interface RealtimeChannels {
+  notes: NoteChangeEvent;
+  embeddings: EmbeddingsCompletedEvent;
+  schedule: ScheduleChangeEvent;
+}
+
+export type RealtimeChannel = keyof RealtimeChannels;
+
+const emitter = new EventEmitter();
+
+// Every open subscription adds a listener, so there is no sensible cap
+emitter.setMaxListeners(0);
+
+function channelName(channel: RealtimeChannel, userId: string): string {
+  return `${channel}:${userId}`;
+}
+
+/**
+ * Push an event to the user's subscribers
+ * Never throws, so a failing listener can't fail the change that was already written.
+ */
+export function publish<C extends RealtimeChannel>(
+  channel: C,
+  userId: string,
+  event: RealtimeChannels[C]
+): void {
+  try {
+    emitter.emit(channelName(channel, userId), event);
+  } catch (error) {
+    logger.warn({ error, channel, userId }, 'Failed to publish realtime event');
+  }
+}
+
+/**
+ * Listen for a user's events on a channel
+ * Returns a function that removes the listener.
+ */
+export function subscribe<C extends RealtimeChannel>(
+  channel: C,
+  userId: string,
+  listener: (event: RealtimeChannels[C]) => void
+): () => void {
+  const name = channelName(channel, userId);
+  emitter.on(name, listener);
+
+  return () => {
+    emitter.off(name, listener);
+  };
+}
+
+export function publishNoteChange(
+  userId: string,
+  type: NoteChangeEvent['type'],
+  noteId: string,
+  version?: number
+): void {
+  publish('notes', userId, { type, noteId, version, changedAt: new Date() });
+}
+
+export function publishScheduleChange(
+  userId: string,
+  source: ScheduleChangeEvent['source'],
+  id: string,
+  action: ScheduleChangeEvent['action']
+): void {
+  publish('schedule', userId, { source, id, action, changedAt: new Date() });
+}
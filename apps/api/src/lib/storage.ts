@@ -0,0 +1,55 @@
+/**
+ * File Storage
+ *
+ * Thin wrapper around Supabase Storage for uploaded and generated files
+ * (note imports, exports, attachments). All files live in one private bucket.
+ */
+
+import { supabase } from './supabase';
+import { config } from '../config';
+import { ExternalServiceError } from '../utils/errors';
+
+const bucket = () => supabase.storage.from(config.storage.bucket);
+
+/**
+ * Upload a file, replacing any existing file at the same path
+ */
+export async function uploadFile(path: string, data: Buffer, contentType: string): Promise<void> {
+  const { error } = await bucket().upload(path, data, { contentType, upsert: true });
+  if (error) {
+    throw new ExternalServiceError('storage', error);
+  }
+}
+
+/**
+ * Download a file as a Buffer
+ */
+export async function downloadFile(path: string): Promise<Buffer> {
+  const { data, error } = await bucket().download(path);
+  if (error || !data) {
+    throw new ExternalServiceError('storage', error ?? undefined);
+  }
+  return Buffer.from(await data.arrayBuffer());
+}
+
+/**
+ * Create a time-limited download URL for a private file
+ */
+export async function createSignedUrl(path: string, expiresInSeconds: number): Promise<string> {
+  const { data, error } = await bucket().createSignedUrl(path, expiresInSeconds);
+  if (error || !data) {
+    throw new ExternalServiceError('storage', error ?? undefined);
+  }
+  return data.signedUrl;
+}
+
+/**
+ * Delete files; missing files are ignored
+ */
+export async function deleteFiles(paths: string[]): Promise<void> {
+  if (paths.length === 0) return;
+  const { error } = await bucket().remove(paths);
+  if (error) {
+    throw new ExternalServiceError('storage', error);
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * Speech-to-Text Engines
+ *
+ * Transcription of lecture recordings behind a small engine interface,
+ * selected with STT_ENGINE. `whisper` runs whisper.cpp locally (audio is
+ * converted to 16kHz mono WAV with ffmpeg first); `stub` returns canned
+ * segments and is meant for development and tests.
+ */
+
+import { spawn } from 'child_process';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { config } from '../config';
+import { ExternalServiceError } from '../utils/errors';
+
+export interface TranscriptSegment {
+  start: number; // Seconds from the start of the recording
+  end: number;
+  text: string;
+}
+
+export interface TranscriptResult {
+  segments: TranscriptSegment[];
+  durationSeconds: number;
+}
+
+export interface SpeechToTextEngine {
+  name: string;
+  /**
+   * @param onProgress - Called with 0-100 as transcription advances
+   */
+  transcribe(
+    audio: Buffer,
+    mimeType: string,
+    onProgress?: (percent: number) => void
+  ): Promise<TranscriptResult>;
+}
+
+/**
+ * Run a command, passing each stderr line to `onStderrLine`
+ * The process is killed if it runs longer than `timeoutMs`.
+ */
+function runCommand(
+  service: string,
+  binaryPath: string,
+  args: string[],
+  timeoutMs: number,
+  onStderrLine?: (line: string) => void
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(binaryPath, args);
+    const stderrLines: string[] = [];
+    let pending = '';
+    let timedOut = false;
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill('SIGKILL');
+    }, timeoutMs);
+
+    child.stdout.resume();
+    child.stderr.on('data', (chunk: Buffer) => {
+      const lines = (pending + chunk.toString('utf8')).split('\n');
+      pending = lines.pop() ?? '';
+      for (const line of lines) {
+        stderrLines.push(line);
+        onStderrLine?.(line);
+      }
+    });
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      reject(new ExternalServiceError(service, error));
+    });
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      if (timedOut) {
+        reject(new ExternalServiceError(service, new Error(`timed out after ${timeoutMs}ms`)));
+        return;
+      }
+      if (code !== 0) {
+        const message = stderrLines.slice(-5).join('\n').trim();
+        reject(new ExternalServiceError(service, new Error(message || `exit code ${code}`)));
+        return;
+      }
+      resolve();
+    });
+  });
+}
+
+/**
+ * whisper.cpp CLI with JSON output
+ */
+export function createWhisperEngine(
+  options: Partial<typeof config.transcription> = {}
+): SpeechToTextEngine {
+  const settings = { ...config.transcription, ...options };
+
+  return {
+    name: 'whisper',
+    transcribe: async (audio, _mimeType, onProgress) => {
+      const workDir = await mkdtemp(join(tmpdir(), 'loqi-stt-'));
+
+      try {
+        const inputPath = join(workDir, 'input');
+        const wavPath = join(workDir, 'audio.wav');
+        const outputBase = join(workDir, 'transcript');
+
+        await writeFile(inputPath, audio);
+        await runCommand(
+          'ffmpeg',
+          settings.ffmpegPath,
+          [
+            '-loglevel',
+            'error',
+            '-i',
+            inputPath,
+            '-ar',
+            '16000',
+            '-ac',
+            '1',
+            '-c:a',
+            'pcm_s16le',
+            wavPath,
+          ],
+          settings.timeoutMs
+        );
+
+        await runCommand(
+          'whisper',
+          settings.whisperPath,
+          [
+            '-m',
+            settings.whisperModel,
+            '-f',
+            wavPath,
+            '-l',
+            settings.language,
+            '-oj',
+            '-of',
+            outputBase,
+            '--print-progress',
+          ],
+          settings.timeoutMs,
+          (line) => {
+            const match = line.match(/progress\s*=\s*(\d+)%/);
+            if (match) onProgress?.(Number(match[1]));
+          }
+        );
+
+        const output = JSON.parse(await readFile(`${outputBase}.json`, 'utf8'));
+        const segments: TranscriptSegment[] = (output.transcription ?? [])
+          .map((segment: any) => ({
+            start: segment.offsets.from / 1000,
+            end: segment.offsets.to / 1000,
+            text: String(segment.text).trim(),
+          }))
+          .filter((segment: TranscriptSegment) => segment.text.length > 0);
+
+        return {
+          segments,
+          durationSeconds: segments.length > 0 ? segments[segments.length - 1].end : 0,
+        };
+      } finally {
+        await rm(workDir, { recursive: true, force: true });
+      }
+    },
+  };
+}
+
+export function createStubSpeechToTextEngine(
+  segments: TranscriptSegment[] = [
+    { start: 0, end: 4, text: "Welcome to today's lecture." },
+    { start: 4, end: 9, text: 'This is a stub transcript.' },
+  ]
+): SpeechToTextEngine {
+  return {
+    name: 'stub',
+    transcribe: async (_audio, _mimeType, onProgress) => {
+      onProgress?.(100);
+      return {
+        segments,
+        durationSeconds: segments.length > 0 ? segments[segments.length - 1].end : 0,
+      };
+    },
+  };
+}
+
+const engines: Record<string, () => SpeechToTextEngine> = {
+  whisper: () => createWhisperEngine(),
+  stub: () => createStubSpeechToTextEngine(),
+};
+
+/**
+ * The engine configured with STT_ENGINE
+ */
+export function getSpeechToTextEngine(
+  name: string = config.transcription.engine
+): SpeechToTextEngine {
+  const factory = engines[name];
+  if (!factory) {
+    throw new Error(`Unknown speech-to-text engine: ${name}`);
+  }
+  return factory();
+}
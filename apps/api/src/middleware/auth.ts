@@ -0,0 +1,30 @@
+import type { Request, Response, NextFunction } from 'express';
+import { supabase } from '../lib/supabase';
+import { logger } from '../lib/logger';
+import { UnauthorizedError } from '../utils/errors';
+
+/**
+ * Express middleware for non-tRPC routes (e.g. binary uploads)
+ * Verifies the Supabase bearer token the same way as the tRPC context
+ * and exposes the user as `res.locals.user`.
+ */
+export const requireAuth = async (req: Request, res: Response, next: NextFunction) => {
+  const authHeader = req.headers.authorization;
+  const token = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : null;
+
+  if (!token) {
+    return next(new UnauthorizedError('You must be logged in to access this resource'));
+  }
+
+  try {
+    const { data, error } = await supabase.auth.getUser(token);
+    if (error || !data.user) {
+      return next(new UnauthorizedError('Invalid or expired token'));
+    }
+    res.locals.user = data.user;
+    return next();
+  } catch (error) {
+    logger.warn({ error }, 'Failed to verify auth token');
+    return next(new UnauthorizedError('Invalid or expired token'));
+  }
+};
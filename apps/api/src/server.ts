@@ -1,11 +1,19 @@
 import express, { type Express } from 'express';
+import type { IncomingMessage, Server } from 'http';
+import type { Duplex } from 'stream';
 import cors from 'cors';
 import helmet from 'helmet';
+import { WebSocketServer, type WebSocket } from 'ws';
 import { createExpressMiddleware } from '@trpc/server/adapters/express';
+import { applyWSSHandler } from '@trpc/server/adapters/ws';
 import { serve } from 'inngest/express';
 import { appRouter } from './trpc/router';
-import { createContext } from './trpc/context';
+import { createContext, createWSContext, readConnectionParams } from './trpc/context';
 import { errorHandler } from './middleware/errorHandler';
+import { importsUploadRouter } from './features/imports/http';
+import { exportsDownloadRouter } from './features/exports/http';
+import { transcriptionsUploadRouter } from './features/transcriptions/http';
+import { sharedNotesRouter, noteAttachmentsUploadRouter } from './features/notes/http';
 import { logger } from './lib/logger';
 import { inngest } from './lib/inngest';
 import * as jobs from './jobs';
@@ -28,6 +36,15 @@ app.get('/health', (_req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
+// Binary uploads and downloads (not supported by tRPC)
+app.use('/api/v1/imports', importsUploadRouter);
+app.use('/api/v1/exports', exportsDownloadRouter);
+app.use('/api/v1/notes', noteAttachmentsUploadRouter);
+app.use('/api/v1/transcriptions', transcriptionsUploadRouter);
+
+// Public share links (no auth)
+app.use('/api/v1/shared', sharedNotesRouter);
+
 // tRPC middleware
 app.use(
   '/api/v1/trpc',
@@ -52,4 +69,69 @@ app.use(
 // Error handler (must be last)
 app.use(errorHandler);
 
-export { app };
+// Sockets that miss a heartbeat are dropped, since mobile networks rarely close them cleanly
+const HEARTBEAT_INTERVAL_MS = 30_000;
+
+const WEBSOCKET_PATH = '/api/v1/trpc';
+
+/**
+ * tRPC subscriptions over WebSocket, on the same path as the HTTP endpoint
+ * Returns a function that asks clients to reconnect and closes the server.
+ */
+function attachWebSocketServer(server: Server): () => void {
+  // Upgrades are accepted here so connectionParams are read before tRPC sees the socket
+  const wss = new WebSocketServer({ noServer: true });
+  const handler = applyWSSHandler({
+    wss,
+    router: appRouter,
+    createContext: createWSContext,
+    onError({ error, type, path }) {
+      logger.error({ error, type, path }, 'tRPC WebSocket error occurred');
+    },
+  });
+
+  const onUpgrade = (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    if (new URL(req.url ?? '/', 'http://localhost').pathname !== WEBSOCKET_PATH) {
+      socket.destroy();
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, (client) => {
+      readConnectionParams(client, req)
+        .then(() => wss.emit('connection', client, req))
+        .catch((error) => {
+          logger.warn({ error }, 'Failed to read WebSocket connectionParams');
+          client.close(1008, error.message);
+        });
+    });
+  };
+  server.on('upgrade', onUpgrade);
+
+  const alive = new WeakSet<WebSocket>();
+
+  wss.on('connection', (socket) => {
+    alive.add(socket);
+    socket.on('pong', () => alive.add(socket));
+  });
+
+  const heartbeat = setInterval(() => {
+    for (const socket of wss.clients) {
+      if (!alive.has(socket)) {
+        socket.terminate();
+        continue;
+      }
+      alive.delete(socket);
+      socket.ping();
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+
+  wss.on('close', () => clearInterval(heartbeat));
+
+  return () => {
+    handler.broadcastReconnectNotification();
+    server.off('upgrade', onUpgrade);
+    wss.close();
+  };
+}
+
+export { app, attachWebSocketServer };
@@ -1,43 +1,142 @@
 import type { CreateExpressContextOptions } from '@trpc/server/adapters/express';
+import type { CreateWSSContextFnOptions } from '@trpc/server/adapters/ws';
+import type { IncomingMessage } from 'http';
+import type { WebSocket } from 'ws';
 import type { User } from '@supabase/supabase-js';
+import { z } from 'zod';
 import { supabase } from '../lib/supabase';
 import { db } from '../db';
 import { logger } from '../lib/logger';
+import { ValidationError } from '../utils/errors';
 
 export interface Context {
-  req: CreateExpressContextOptions['req'];
-  res: CreateExpressContextOptions['res'];
+  req: CreateExpressContextOptions['req'] | CreateWSSContextFnOptions['req'];
+  res: CreateExpressContextOptions['res'] | CreateWSSContextFnOptions['res'];
   db: typeof db;
   session: { user: User } | null;
   user: User | null;
   logger: typeof logger;
 }
 
-export const createContext = async ({ req, res }: CreateExpressContextOptions): Promise<Context> => {
-  const authHeader = req.headers.authorization;
-  const token = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : null;
-
-  // Verify session with Supabase if token exists
-  let session = null;
-  let user = null;
-
-  if (token) {
-    try {
-      const { data, error } = await supabase.auth.getUser(token);
-      if (!error && data.user) {
-        user = data.user;
-        session = { user: data.user };
-      }
-    } catch (error) {
-      logger.warn({ error }, 'Failed to verify auth token');
+async function getUserForToken(token: string | null): Promise<User | null> {
+  if (!token) {
+    return null;
+  }
+
+  // Verify session with Supabase
+  try {
+    const { data, error } = await supabase.auth.getUser(token);
+    if (!error && data.user) {
+      return data.user;
+    }
+  } catch (error) {
+    logger.warn({ error }, 'Failed to verify auth token');
+  }
+
+  return null;
+}
+
+function bearerToken(authHeader: string | undefined): string | null {
+  return authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : null;
+}
+
+export const createContext = async ({
+  req,
+  res,
+}: CreateExpressContextOptions): Promise<Context> => {
+  const user = await getUserForToken(bearerToken(req.headers.authorization));
+
+  return {
+    req,
+    res,
+    db,
+    session: user ? { user } : null,
+    user,
+    logger,
+  };
+};
+
+// Clients that announce connectionParams must send them soon after the socket opens
+const CONNECTION_PARAMS_TIMEOUT_MS = 10_000;
+
+// The first message a tRPC WebSocket client sends when it is configured with connectionParams
+const ConnectionParamsMessageSchema = z.object({
+  method: z.literal('connectionParams'),
+  data: z.record(z.string()).nullable(),
+});
+
+const connectionParams = new WeakMap<IncomingMessage, Record<string, string>>();
+
+function nextMessage(socket: WebSocket): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      cleanup();
+      reject(new ValidationError('Timed out waiting for connectionParams'));
+    }, CONNECTION_PARAMS_TIMEOUT_MS);
+    const onMessage = (data: Buffer) => {
+      cleanup();
+      resolve(data.toString());
+    };
+    const onClose = () => {
+      cleanup();
+      reject(new ValidationError('Socket closed before sending connectionParams'));
+    };
+    const cleanup = () => {
+      clearTimeout(timeout);
+      socket.off('message', onMessage);
+      socket.off('close', onClose);
+    };
+
+    socket.on('message', onMessage);
+    socket.on('close', onClose);
+  });
+}
+
+/**
+ * Read the connectionParams of a new WebSocket before tRPC handles its messages
+ * Clients that send them add ?connectionParams=1 to the URL; other sockets are ready right away.
+ */
+export async function readConnectionParams(socket: WebSocket, req: IncomingMessage) {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  if (url.searchParams.get('connectionParams') !== '1') {
+    return;
+  }
+
+  let message: unknown;
+  try {
+    message = JSON.parse(await nextMessage(socket));
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      throw error;
     }
+    throw new ValidationError('connectionParams must be JSON');
+  }
+
+  const parsed = ConnectionParamsMessageSchema.safeParse(message);
+  if (!parsed.success) {
+    throw new ValidationError('Invalid connectionParams', parsed.error.flatten());
+  }
+  if (parsed.data.data) {
+    connectionParams.set(req, parsed.data.data);
   }
+}
+
+/**
+ * Context for a WebSocket connection, created once when the socket opens
+ * Browsers can't set headers on WebSockets, so the token can also be sent in connectionParams.
+ */
+export const createWSContext = async ({
+  req,
+  res,
+}: CreateWSSContextFnOptions): Promise<Context> => {
+  const token = bearerToken(req.headers.authorization) ?? connectionParams.get(req)?.token ?? null;
+  const user = await getUserForToken(token);
 
   return {
     req,
     res,
     db,
-    session,
+    session: user ? { user } : null,
     user,
     logger,
   };
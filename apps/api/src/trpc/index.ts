@@ -14,6 +14,7 @@ const t = initTRPC.context<Context>().create({
           error.code === 'BAD_REQUEST' && error.cause
             ? error.cause
             : null,
+        details: error.cause instanceof AppError ? (error.cause.details ?? null) : null,
       },
     };
   },
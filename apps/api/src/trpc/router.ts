@@ -2,24 +2,34 @@ import { router } from './index';
 import { authRouter } from '../features/auth/router';
 import { notesRouter } from '../features/notes/router';
 import { tagsRouter } from '../features/tags/router';
+import { notebooksRouter } from '../features/notebooks/router';
+import { templatesRouter } from '../features/templates/router';
+import { importsRouter } from '../features/imports/router';
+import { transcriptionsRouter } from '../features/transcriptions/router';
 import { coursesRouter } from '../features/courses/router';
 import { assignmentsRouter } from '../features/assignments/router';
 import { studySessionsRouter } from '../features/study-sessions/router';
 import { scheduleRouter } from '../features/schedule/router';
 import { aiRouter } from '../features/ai/router';
 import { searchRouter } from '../features/search/router';
+import { realtimeRouter } from '../features/realtime/router';
 import type { AnyRouter } from '@trpc/server';
 
 export const appRouter = router({
   auth: authRouter,
   notes: notesRouter,
   tags: tagsRouter,
+  notebooks: notebooksRouter,
+  templates: templatesRouter,
+  imports: importsRouter,
+  transcriptions: transcriptionsRouter,
   courses: coursesRouter,
   assignments: assignmentsRouter,
   studySessions: studySessionsRouter,
   schedule: scheduleRouter,
   ai: aiRouter,
   search: searchRouter,
+  realtime: realtimeRouter,
 }) as AnyRouter;
 
 export type AppRouter = typeof appRouter;
@@ -0,0 +1,105 @@
+import { and, or, asc, desc, sql, type SQL, type AnyColumn } from 'drizzle-orm';
+import { ValidationError } from './errors';
+
+/**
+ * Encode cursor values as an opaque, URL-safe string
+ * Clients must treat the result as a black box and pass it back unchanged.
+ */
+export function encodeCursor(values: Record<string, unknown>): string {
+  return Buffer.from(JSON.stringify(values)).toString('base64url');
+}
+
+/**
+ * Decode a cursor produced by encodeCursor
+ */
+export function decodeCursor<T extends Record<string, unknown>>(cursor: string): T {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (!decoded || typeof decoded !== 'object' || Array.isArray(decoded)) {
+      throw new Error('Cursor is not an object');
+    }
+    return decoded as T;
+  } catch {
+    throw new ValidationError('Invalid cursor', { cursor });
+  }
+}
+
+export interface SortKey {
+  expression: SQL | AnyColumn;
+  order: 'asc' | 'desc';
+}
+
+interface SortCursor extends Record<string, unknown> {
+  sort: string;
+  keys: unknown[];
+}
+
+/**
+ * Encode the sort key values of the last row on a page
+ * The sort name is kept so the cursor can't be replayed against another ordering.
+ */
+export function encodeSortCursor(sort: string, keys: unknown[]): string {
+  return encodeCursor({ sort, keys });
+}
+
+/**
+ * Decode a cursor produced by encodeSortCursor for the same sort
+ */
+export function decodeSortCursor(cursor: string, sort: string, keyCount: number): unknown[] {
+  const decoded = decodeCursor<SortCursor>(cursor);
+
+  if (decoded.sort !== sort) {
+    throw new ValidationError('Cursor was created for a different sort order', {
+      expected: sort,
+      received: decoded.sort,
+    });
+  }
+
+  if (!Array.isArray(decoded.keys) || decoded.keys.length !== keyCount) {
+    throw new ValidationError('Invalid cursor', { cursor });
+  }
+
+  return decoded.keys;
+}
+
+/**
+ * Rows that come strictly after the cursor row in the given ordering
+ * Keys are compared left to right, so they can mix ascending and descending.
+ */
+export function keysetCondition(sortKeys: SortKey[], values: unknown[]): SQL {
+  const branches = sortKeys.map((key, index) => {
+    const ties = sortKeys
+      .slice(0, index)
+      .map((previous, previousIndex) => sql`${previous.expression} = ${values[previousIndex]}`);
+    const after =
+      key.order === 'asc'
+        ? sql`${key.expression} > ${values[index]}`
+        : sql`${key.expression} < ${values[index]}`;
+
+    return and(...ties, after)!;
+  });
+
+  return or(...branches)!;
+}
+
+export function orderBySortKeys(sortKeys: SortKey[]): SQL[] {
+  return sortKeys.map((key) => (key.order === 'asc' ? asc(key.expression) : desc(key.expression)));
+}
+
+/**
+ * Trim a page fetched with limit + 1 rows and build its cursor
+ */
+export function buildCursorPage<T>(
+  rows: T[],
+  limit: number,
+  toCursor: (row: T) => string
+): { rows: T[]; hasMore: boolean; nextCursor: string | null } {
+  const hasMore = rows.length > limit;
+  const page = hasMore ? rows.slice(0, limit) : rows;
+
+  return {
+    rows: page,
+    hasMore,
+    nextCursor: hasMore ? toCursor(page[page.length - 1]) : null,
+  };
+}
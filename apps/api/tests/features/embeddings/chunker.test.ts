@@ -3,7 +3,13 @@
  * Tests all validation criteria from Task 1.2
  */
 
-import { chunkMarkdown, countTokens, freeEncoder } from '../../../src/features/embeddings/chunker';
+import {
+  chunkMarkdown,
+  countTokens,
+  freeEncoder,
+  parseMarkdownSections,
+  buildSectionPath,
+} from '../../../src/features/embeddings/chunker';
 import type { ChunkerInput } from '../../../src/features/embeddings/types';
 
 describe('Chunker Service', () => {
@@ -12,6 +18,22 @@ describe('Chunker Service', () => {
     freeEncoder();
   });
 
+  describe('Section Parsing', () => {
+    it('should not treat lines in fenced code blocks as headers', () => {
+      const sections = parseMarkdownSections('## Script\n\n```bash\n# install deps\n```\n\n## Usage ##');
+
+      expect(sections.map((section) => section.headerText)).toEqual(['Script', 'Usage']);
+      expect(sections[0].content).toContain('# install deps');
+    });
+
+    it('should only include the nearest heading above each level in the path', () => {
+      const sections = parseMarkdownSections('# Week 1\n## Notes\n# Week 2\n## Notes\n### Proofs');
+
+      expect(buildSectionPath(sections, 3)).toEqual(['Week 2', 'Notes']);
+      expect(buildSectionPath(sections, 4)).toEqual(['Week 2', 'Notes', 'Proofs']);
+    });
+  });
+
   describe('Token Counting', () => {
     it('should count tokens accurately', () => {
       const text = 'Hello world';
@@ -0,0 +1,82 @@
+/**
+ * Unit tests for the export archive builder
+ */
+
+import { unzipSync, strFromU8 } from 'fflate';
+import {
+  buildExportArchive,
+  renderNoteMarkdown,
+  toExportFileName,
+  MANIFEST_VERSION,
+} from '../../../src/features/exports/archive';
+import type { ExportNote } from '../../../src/features/exports/archive';
+import { parseFrontMatter } from '../../../src/features/imports/vault';
+
+function makeNote(overrides: Partial<ExportNote> = {}): ExportNote {
+  return {
+    id: '3f2b8c1e-4d5a-4b6c-8d7e-9f0a1b2c3d4e',
+    title: 'Graph Theory',
+    content: '# Graphs\n\nSee [[Trees]].',
+    ocrText: null,
+    wordCount: 4,
+    version: 2,
+    tags: ['cs', 'exam prep'],
+    courses: [{ id: 'c1', name: 'Algorithms', code: 'CS201' }],
+    createdAt: new Date('2024-01-10T09:00:00.000Z'),
+    updatedAt: new Date('2024-01-12T10:30:00.000Z'),
+    ...overrides,
+  };
+}
+
+describe('Export Archive', () => {
+  it('should render front matter the vault importer can read back', () => {
+    const markdown = renderNoteMarkdown(makeNote());
+
+    expect(markdown).toContain('title: "Graph Theory"');
+    expect(markdown).toContain('courses: ["CS201"]');
+    expect(markdown).toContain('created: 2024-01-10T09:00:00.000Z');
+
+    const { frontMatter, body } = parseFrontMatter(markdown);
+    expect(frontMatter.tags).toEqual(['cs', 'exam prep']);
+    expect(body.trim()).toBe('# Graphs\n\nSee [[Trees]].');
+  });
+
+  it('should append OCR text as its own section', () => {
+    const markdown = renderNoteMarkdown(makeNote({ ocrText: 'handwritten proof' }));
+    expect(markdown).toContain('## Handwriting (OCR)\n\nhandwritten proof');
+  });
+
+  it('should produce safe, unique file names', () => {
+    const used = new Set<string>();
+
+    expect(toExportFileName('Lecture 1: Intro/Overview', used)).toBe('Lecture 1 Intro Overview.md');
+    expect(toExportFileName('lecture 1 intro overview', used)).toBe(
+      'lecture 1 intro overview (2).md'
+    );
+    expect(toExportFileName('  ', used)).toBe('Untitled.md');
+  });
+
+  it('should zip one Markdown file per note plus a manifest', () => {
+    const archive = buildExportArchive(
+      [makeNote(), makeNote({ id: 'other', title: 'Graph Theory' })],
+      { tagIds: ['t1'] },
+      new Date('2024-02-01T00:00:00.000Z')
+    );
+
+    const files = unzipSync(archive);
+    expect(Object.keys(files).sort()).toEqual([
+      'manifest.json',
+      'notes/Graph Theory (2).md',
+      'notes/Graph Theory.md',
+    ]);
+
+    const manifest = JSON.parse(strFromU8(files['manifest.json']));
+    expect(manifest).toMatchObject({
+      version: MANIFEST_VERSION,
+      exportedAt: '2024-02-01T00:00:00.000Z',
+      filters: { tagIds: ['t1'] },
+      noteCount: 2,
+    });
+    expect(manifest.notes[1]).toMatchObject({ id: 'other', path: 'notes/Graph Theory (2).md' });
+  });
+});
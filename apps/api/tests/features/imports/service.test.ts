@@ -0,0 +1,186 @@
+/**
+ * Unit tests for import size limits and per-batch archives
+ */
+
+import { zipSync, unzipSync, strToU8 } from 'fflate';
+import {
+  prepareImport,
+  importFiles,
+  finishImport,
+  IMPORT_BATCH_SIZE,
+  MAX_IMPORT_FILE_BYTES,
+  MAX_IMPORT_TOTAL_BYTES,
+} from '../../../src/features/imports/service';
+import { uploadFile, downloadFile, deleteFiles } from '../../../src/lib/storage';
+import { createNote } from '../../../src/features/notes/service';
+import { ValidationError } from '../../../src/utils/errors';
+
+jest.mock('../../../src/lib/storage', () => ({
+  uploadFile: jest.fn(),
+  downloadFile: jest.fn(),
+  deleteFiles: jest.fn(),
+}));
+
+jest.mock('../../../src/lib/inngest', () => ({
+  inngest: { send: jest.fn() },
+}));
+
+jest.mock('../../../src/features/notes/service', () => ({
+  createNote: jest.fn(),
+}));
+
+jest.mock('../../../src/features/tags/service', () => ({
+  findOrCreateTags: jest.fn().mockResolvedValue([]),
+}));
+
+const IMPORT_ID = 'import-1';
+const TEST_USER_ID = 'test-user-id';
+
+const mockUploadFile = uploadFile as jest.MockedFunction<typeof uploadFile>;
+const mockDownloadFile = downloadFile as jest.MockedFunction<typeof downloadFile>;
+
+function createDb(noteImport: Record<string, unknown> = {}) {
+  const set = jest.fn().mockReturnValue({
+    where: jest.fn().mockReturnValue({
+      returning: jest.fn().mockResolvedValue([{ storagePath: 'upload.zip', ...noteImport }]),
+    }),
+  });
+
+  return {
+    set,
+    query: {
+      noteImports: {
+        findFirst: jest.fn().mockResolvedValue({
+          id: IMPORT_ID,
+          userId: TEST_USER_ID,
+          storagePath: 'upload.zip',
+          ...noteImport,
+        }),
+      },
+    },
+    update: jest.fn().mockReturnValue({ set }),
+    select: jest.fn().mockReturnValue({
+      from: jest.fn().mockReturnValue({ where: jest.fn().mockResolvedValue([]) }),
+    }),
+  };
+}
+
+/**
+ * A zip whose entries declare the given uncompressed sizes, like a crafted archive would
+ */
+function archiveWithDeclaredSizes(sizes: Record<string, number>): Buffer {
+  const archive = zipSync(
+    Object.fromEntries(Object.keys(sizes).map((name) => [name, strToU8(`# ${name}`)]))
+  );
+
+  // Patch the uncompressed size in each central directory header (signature PK\x01\x02)
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+  for (let offset = 0; offset < archive.length - 46; offset++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) continue;
+
+    const nameLength = view.getUint16(offset + 28, true);
+    const name = Buffer.from(archive.subarray(offset + 46, offset + 46 + nameLength)).toString();
+    view.setUint32(offset + 24, sizes[name], true);
+  }
+
+  return Buffer.from(archive);
+}
+
+describe('Note Imports', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should split the upload into batch archives and download it only once', async () => {
+    const files = Object.fromEntries(
+      Array.from({ length: IMPORT_BATCH_SIZE + 1 }, (_, index) => [
+        `Vault/Note ${String(index).padStart(2, '0')}.md`,
+        strToU8(`# Note ${index}`),
+      ])
+    );
+    mockDownloadFile.mockResolvedValue(
+      Buffer.from(zipSync({ ...files, 'Vault/diagram.png': new Uint8Array(4) }))
+    );
+    const db = createDb();
+
+    const { batches, vaultRoot } = await prepareImport(IMPORT_ID, db);
+
+    expect(mockDownloadFile).toHaveBeenCalledTimes(1);
+    expect(vaultRoot).toBe('Vault/');
+    expect(batches.map((batch) => batch.paths.length)).toEqual([IMPORT_BATCH_SIZE, 1]);
+    expect(batches[1]).toEqual({
+      storagePath: `imports/${TEST_USER_ID}/${IMPORT_ID}/batch-1.zip`,
+      paths: [`Vault/Note ${IMPORT_BATCH_SIZE}.md`],
+    });
+
+    const lastBatch = unzipSync(new Uint8Array(mockUploadFile.mock.calls[1][1]));
+    expect(Object.keys(lastBatch)).toEqual([`Vault/Note ${IMPORT_BATCH_SIZE}.md`]);
+    expect(db.set).toHaveBeenCalledWith(
+      expect.objectContaining({
+        totalFiles: IMPORT_BATCH_SIZE + 1,
+        skippedFiles: 1,
+        batchPaths: batches.map((batch) => batch.storagePath),
+      })
+    );
+  });
+
+  it('should report files declaring more than the per-file cap without inflating them', async () => {
+    mockDownloadFile.mockResolvedValue(
+      archiveWithDeclaredSizes({ 'small.md': 10, 'huge.md': MAX_IMPORT_FILE_BYTES + 1 })
+    );
+    const db = createDb();
+
+    const { batches } = await prepareImport(IMPORT_ID, db);
+
+    expect(batches).toHaveLength(1);
+    expect(batches[0].paths).toEqual(['small.md']);
+    expect(db.set).toHaveBeenCalledWith(
+      expect.objectContaining({
+        totalFiles: 2,
+        processedFiles: 1,
+        fileErrors: [{ path: 'huge.md', message: 'File is larger than 5 MB' }],
+      })
+    );
+  });
+
+  it('should reject archives declaring more Markdown than the total cap', async () => {
+    const perFile = MAX_IMPORT_FILE_BYTES;
+    const count = Math.floor(MAX_IMPORT_TOTAL_BYTES / perFile) + 1;
+    mockDownloadFile.mockResolvedValue(
+      archiveWithDeclaredSizes(
+        Object.fromEntries(Array.from({ length: count }, (_, index) => [`${index}.md`, perFile]))
+      )
+    );
+    const db = createDb();
+
+    await expect(prepareImport(IMPORT_ID, db)).rejects.toThrow(ValidationError);
+    expect(mockUploadFile).not.toHaveBeenCalled();
+    expect(db.update).not.toHaveBeenCalled();
+  });
+
+  it('should import a batch from its own archive', async () => {
+    mockDownloadFile.mockResolvedValue(
+      Buffer.from(zipSync({ 'Vault/Graphs.md': strToU8('# Graphs\n\nEdges and vertices') }))
+    );
+    const db = createDb();
+
+    const result = await importFiles(
+      IMPORT_ID,
+      { storagePath: 'batch-0.zip', paths: ['Vault/Graphs.md', 'Vault/Missing.md'] },
+      'Vault/',
+      db
+    );
+
+    expect(mockDownloadFile).toHaveBeenCalledWith('batch-0.zip');
+    expect(createNote).toHaveBeenCalledTimes(1);
+    expect(result).toEqual({ createdNotes: 1, skippedFiles: 0, failedFiles: 1 });
+  });
+
+  it('should remove the upload and batch archives when finished', async () => {
+    const db = createDb({ batchPaths: ['batch-0.zip', 'batch-1.zip'] });
+
+    await finishImport(IMPORT_ID, null, db);
+
+    expect(deleteFiles).toHaveBeenCalledWith(['upload.zip', 'batch-0.zip', 'batch-1.zip']);
+  });
+});
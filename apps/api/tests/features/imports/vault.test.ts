@@ -0,0 +1,63 @@
+/**
+ * Unit tests for Markdown vault parsing
+ */
+
+import {
+  classifyVaultEntries,
+  findVaultRoot,
+  parseFrontMatter,
+  parseVaultFile,
+} from '../../../src/features/imports/vault';
+
+describe('Vault Parsing', () => {
+  it('should separate Markdown files from skipped and ignored entries', () => {
+    const { markdown, skipped } = classifyVaultEntries([
+      'Vault/',
+      'Vault/Inbox.md',
+      'Vault/CS/Graphs.markdown',
+      'Vault/CS/diagram.png',
+      'Vault/.obsidian/workspace.json',
+      '__MACOSX/Vault/._Inbox.md',
+      'Vault/.trash/Old.md',
+    ]);
+
+    expect(markdown).toEqual(['Vault/CS/Graphs.markdown', 'Vault/Inbox.md']);
+    expect(skipped).toEqual(['Vault/CS/diagram.png']);
+  });
+
+  it('should detect a single wrapping folder', () => {
+    expect(findVaultRoot(['Vault/a.md', 'Vault/CS/b.md'])).toBe('Vault/');
+    expect(findVaultRoot(['a.md', 'Vault/b.md'])).toBe('');
+    expect(findVaultRoot(['One/a.md', 'Two/b.md'])).toBe('');
+  });
+
+  it('should read inline and list tags from front matter', () => {
+    const inline = parseFrontMatter('---\ntags: [exam, "#week-3"]\n---\n# Body');
+    expect(inline.frontMatter.tags).toEqual(['exam', 'week-3']);
+    expect(inline.body).toBe('# Body');
+
+    const list = parseFrontMatter('---\naliases: Foo\ntags:\n  - exam\n  - review\n---\nText');
+    expect(list.frontMatter.tags).toEqual(['exam', 'review']);
+  });
+
+  it('should leave content without front matter untouched', () => {
+    const { frontMatter, body } = parseFrontMatter('# Title\n---\nMore');
+    expect(frontMatter.tags).toEqual([]);
+    expect(body).toBe('# Title\n---\nMore');
+  });
+
+  it('should build drafts with folder tags and keep wikilinks', () => {
+    const draft = parseVaultFile(
+      'Vault/CS/Algorithms/Dijkstra.md',
+      '---\ntags: graphs\n---\nSee [[BFS]].\n',
+      'Vault/'
+    );
+
+    expect(draft).toEqual({
+      path: 'Vault/CS/Algorithms/Dijkstra.md',
+      title: 'Dijkstra',
+      content: 'See [[BFS]].',
+      tagNames: ['CS/Algorithms', 'graphs'],
+    });
+  });
+});
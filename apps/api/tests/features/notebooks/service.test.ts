@@ -0,0 +1,238 @@
+/**
+ * Unit tests for notebook moves, deletion and restoring notes from deleted notebooks
+ */
+
+import { PgDialect } from 'drizzle-orm/pg-core';
+import {
+  moveNotebook,
+  reorderNotebooks,
+  deleteNotebook,
+  moveOutOfDeletedNotebooks,
+  moveNotesToNotebook,
+  getNotebookSubtreeIds,
+} from '../../../src/features/notebooks/service';
+import { trashNotes, bulkMoveToNotebook } from '../../../src/features/notes/bulk';
+import { publishNoteChange } from '../../../src/lib/realtime';
+import { ValidationError } from '../../../src/utils/errors';
+
+jest.mock('../../../src/features/notes/bulk', () => ({
+  trashNotes: jest.fn(),
+  bulkMoveToNotebook: jest.fn(),
+}));
+
+jest.mock('../../../src/lib/realtime', () => ({
+  publishNoteChange: jest.fn(),
+}));
+
+const TEST_USER_ID = 'test-user-id';
+
+const mockTrashNotes = trashNotes as jest.MockedFunction<typeof trashNotes>;
+const mockBulkMoveToNotebook = bulkMoveToNotebook as jest.MockedFunction<typeof bulkMoveToNotebook>;
+
+const dialect = new PgDialect();
+
+function createDb(
+  options: { notebook?: any; executeRows?: any[]; selectRows?: any[]; returningRows?: any[] } = {}
+) {
+  const updates: any[] = [];
+
+  const db: any = {
+    updates,
+    query: {
+      notebooks: { findFirst: jest.fn().mockResolvedValue(options.notebook) },
+    },
+    execute: jest.fn().mockResolvedValue(options.executeRows ?? []),
+    select: jest.fn(() => {
+      const rows = Promise.resolve(options.selectRows ?? []);
+      const chain: any = {
+        from: () => chain,
+        where: () => chain,
+        orderBy: () => rows,
+        then: (resolve: any, reject: any) => rows.then(resolve, reject),
+      };
+      return chain;
+    }),
+    update: jest.fn(() => ({
+      set: (values: any) => {
+        updates.push(values);
+        const done = Promise.resolve(undefined);
+        return {
+          where: () => ({
+            returning: () => Promise.resolve(options.returningRows ?? []),
+            then: (resolve: any, reject: any) => done.then(resolve, reject),
+          }),
+        };
+      },
+    })),
+    transaction: jest.fn((callback: (tx: any) => any) => callback(db)),
+  };
+
+  return db;
+}
+
+describe('Notebooks', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('moveOutOfDeletedNotebooks', () => {
+    it('should move notes to the closest live ancestor or the top level', async () => {
+      const db = createDb({
+        executeRows: [
+          { start_id: 'deleted-child', id: 'live-parent' },
+          { start_id: 'live', id: 'live' },
+        ],
+      });
+
+      await moveOutOfDeletedNotebooks(
+        TEST_USER_ID,
+        [
+          { id: 'note-1', notebookId: 'deleted-child' },
+          { id: 'note-2', notebookId: 'live' },
+          { id: 'note-3', notebookId: 'deleted-root' },
+          { id: 'note-4', notebookId: null },
+        ],
+        db
+      );
+
+      expect(db.updates).toEqual([
+        expect.objectContaining({ notebookId: 'live-parent' }),
+        expect.objectContaining({ notebookId: null }),
+      ]);
+    });
+
+    it('should not query notebooks for unfiled notes', async () => {
+      const db = createDb();
+
+      await moveOutOfDeletedNotebooks(TEST_USER_ID, [{ id: 'note-1', notebookId: null }], db);
+
+      expect(db.execute).not.toHaveBeenCalled();
+      expect(db.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getNotebookSubtreeIds', () => {
+    it('should walk the subtree of the root notebook owner', async () => {
+      const db = createDb({ executeRows: [{ id: 'shared' }, { id: 'child' }] });
+
+      const ids = await getNotebookSubtreeIds('shared', db);
+
+      expect(ids).toEqual(['shared', 'child']);
+      const query = dialect.sqlToQuery(db.execute.mock.calls[0][0]);
+      expect(query.sql).toContain('child.user_id = subtree.user_id');
+      expect(query.params).toEqual(['shared']);
+    });
+  });
+
+  describe('moveNotesToNotebook', () => {
+    it('should report the trashed notes the move skipped', async () => {
+      const db = createDb({ notebook: { id: 'notebook-1' } });
+      mockBulkMoveToNotebook.mockResolvedValue({
+        results: [
+          { id: 'note-1', status: 'success' },
+          { id: 'note-2', status: 'skipped', error: 'Note is in the trash' },
+        ],
+        succeeded: 1,
+        skipped: 1,
+        notFound: 0,
+      });
+      const input = { noteIds: ['note-1', 'note-2'], notebookId: 'notebook-1' };
+
+      const result = await moveNotesToNotebook(TEST_USER_ID, input, db);
+
+      expect(db.query.notebooks.findFirst).toHaveBeenCalled();
+      expect(mockBulkMoveToNotebook).toHaveBeenCalledWith(TEST_USER_ID, input, db);
+      expect(result).toMatchObject({ success: true, movedCount: 1, skipped: 1 });
+    });
+  });
+
+  describe('moveNotebook', () => {
+    it('should not move a notebook into one of its children', async () => {
+      const db = createDb({
+        notebook: { id: 'parent' },
+        executeRows: [{ id: 'parent' }, { id: 'child' }],
+      });
+
+      await expect(
+        moveNotebook(TEST_USER_ID, { id: 'parent', parentId: 'child' }, db)
+      ).rejects.toThrow(ValidationError);
+      expect(db.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reorderNotebooks', () => {
+    it('should only reorder notebooks with the same parent', async () => {
+      const db = createDb({ selectRows: [{ id: 'a' }, { id: 'b' }] });
+
+      await expect(
+        reorderNotebooks(TEST_USER_ID, { parentId: null, orderedIds: ['b', 'elsewhere'] }, db)
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should keep unlisted siblings after the listed ones', async () => {
+      const db = createDb({ selectRows: [{ id: 'a' }, { id: 'b' }, { id: 'c' }] });
+
+      const result = await reorderNotebooks(
+        TEST_USER_ID,
+        { parentId: null, orderedIds: ['c'] },
+        db
+      );
+
+      expect(result.orderedIds).toEqual(['c', 'a', 'b']);
+    });
+  });
+
+  describe('deleteNotebook', () => {
+    it('should trash the notes and notebooks of the whole subtree', async () => {
+      mockTrashNotes.mockResolvedValue({
+        result: { succeeded: 2 },
+        trashedIds: ['note-1', 'note-2'],
+      } as any);
+      const db = createDb({
+        notebook: { id: 'root', parentId: null },
+        executeRows: [{ id: 'root' }, { id: 'child' }],
+        selectRows: [{ id: 'note-1' }, { id: 'note-2' }],
+      });
+
+      const result = await deleteNotebook(TEST_USER_ID, { id: 'root', mode: 'cascade' }, db);
+
+      expect(mockTrashNotes).toHaveBeenCalledWith(TEST_USER_ID, ['note-1', 'note-2'], db);
+      expect(publishNoteChange).toHaveBeenCalledWith(TEST_USER_ID, 'deleted', 'note-2');
+      expect(result).toEqual({
+        success: true,
+        deletedNotebooks: 2,
+        deletedNotes: 2,
+        movedNotes: 0,
+      });
+    });
+
+    it('should move notes up to the parent when reparenting', async () => {
+      const db = createDb({
+        notebook: { id: 'child', parentId: 'root' },
+        returningRows: [{ id: 'note-1' }],
+      });
+
+      const result = await deleteNotebook(TEST_USER_ID, { id: 'child', mode: 'reparent' }, db);
+
+      expect(db.updates).toContainEqual(expect.objectContaining({ notebookId: 'root' }));
+      expect(mockTrashNotes).not.toHaveBeenCalled();
+      expect(result.movedNotes).toBe(1);
+    });
+
+    it('should not publish moved notes when the delete fails to commit', async () => {
+      const db = createDb({
+        notebook: { id: 'child', parentId: 'root' },
+        returningRows: [{ id: 'note-1' }],
+      });
+      db.transaction.mockImplementation(async (callback: (tx: any) => any) => {
+        await callback(db);
+        throw new Error('could not serialize access');
+      });
+
+      await expect(
+        deleteNotebook(TEST_USER_ID, { id: 'child', mode: 'reparent' }, db)
+      ).rejects.toThrow('could not serialize access');
+      expect(publishNoteChange).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Unit tests for note access roles, shared note filters and collaborator checks
+ */
+
+import { PgDialect } from 'drizzle-orm/pg-core';
+import {
+  getNoteAccess,
+  requireNoteAccess,
+  sharedNoteIdsQuery,
+  accessibleNoteCondition,
+} from '../../../src/features/notes/access';
+import { addCollaborator } from '../../../src/features/notes/collaborators';
+import { notes } from '../../../src/db/schema';
+import { NotFoundError, ForbiddenError, ValidationError } from '../../../src/utils/errors';
+
+const OWNER_ID = 'owner-user-id';
+const COLLABORATOR_ID = 'collaborator-user-id';
+
+const dialect = new PgDialect();
+
+function createNote(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'note-1',
+    userId: OWNER_ID,
+    notebookId: null,
+    title: 'Lecture 1',
+    deletedAt: null,
+    ...overrides,
+  };
+}
+
+function createDb(note: any, grants: { role: string }[] = []) {
+  return {
+    query: {
+      notes: { findFirst: jest.fn().mockResolvedValue(note) },
+      users: { findFirst: jest.fn() },
+    },
+    execute: jest.fn().mockResolvedValue(grants),
+  };
+}
+
+describe('Note Access', () => {
+  it('should give the owner full access without looking up grants', async () => {
+    const db = createDb(createNote());
+
+    const access = await requireNoteAccess(OWNER_ID, 'note-1', 'owner', db);
+
+    expect(access.role).toBe('owner');
+    expect(db.execute).not.toHaveBeenCalled();
+  });
+
+  it('should let viewers read but not comment or edit', async () => {
+    const db = createDb(createNote(), [{ role: 'viewer' }]);
+
+    await expect(requireNoteAccess(COLLABORATOR_ID, 'note-1', 'viewer', db)).resolves.toMatchObject(
+      { role: 'viewer' }
+    );
+    await expect(requireNoteAccess(COLLABORATOR_ID, 'note-1', 'commenter', db)).rejects.toThrow(
+      ForbiddenError
+    );
+    await expect(requireNoteAccess(COLLABORATOR_ID, 'note-1', 'editor', db)).rejects.toThrow(
+      ForbiddenError
+    );
+  });
+
+  it('should let commenters comment but not edit', async () => {
+    const db = createDb(createNote(), [{ role: 'commenter' }]);
+
+    await expect(
+      requireNoteAccess(COLLABORATOR_ID, 'note-1', 'commenter', db)
+    ).resolves.toMatchObject({ role: 'commenter' });
+    await expect(requireNoteAccess(COLLABORATOR_ID, 'note-1', 'editor', db)).rejects.toThrow(
+      ForbiddenError
+    );
+  });
+
+  it('should let editors edit but keep owner-only actions with the owner', async () => {
+    const db = createDb(createNote(), [{ role: 'editor' }]);
+
+    await expect(requireNoteAccess(COLLABORATOR_ID, 'note-1', 'editor', db)).resolves.toMatchObject(
+      { role: 'editor' }
+    );
+    await expect(requireNoteAccess(COLLABORATOR_ID, 'note-1', 'owner', db)).rejects.toThrow(
+      ForbiddenError
+    );
+  });
+
+  it('should resolve grants inherited from the note notebook and its parents', async () => {
+    const db = createDb(createNote({ notebookId: 'notebook-1' }), [{ role: 'commenter' }]);
+
+    const access = await getNoteAccess(COLLABORATOR_ID, 'note-1', db);
+    const query = dialect.sqlToQuery(db.execute.mock.calls[0][0]);
+
+    expect(access.role).toBe('commenter');
+    expect(query.sql).toContain('WITH RECURSIVE ancestors');
+    expect(query.sql).toContain('notebook_id IN (SELECT id FROM ancestors)');
+    expect(query.params).toEqual(expect.arrayContaining(['notebook-1', COLLABORATOR_ID, 'note-1']));
+  });
+
+  it('should not inherit grants through deleted notebooks', async () => {
+    const db = createDb(createNote({ notebookId: 'notebook-1' }), [{ role: 'viewer' }]);
+
+    await getNoteAccess(COLLABORATOR_ID, 'note-1', db);
+    const query = dialect.sqlToQuery(db.execute.mock.calls[0][0]);
+
+    expect(query.sql).toMatch(/WHERE id = \$\d+ AND deleted_at IS NULL/);
+    expect(query.sql).toContain('WHERE nb.deleted_at IS NULL');
+  });
+
+  it('should use the highest of several grants', async () => {
+    const db = createDb(createNote({ notebookId: 'notebook-1' }), [
+      { role: 'viewer' },
+      { role: 'editor' },
+      { role: 'commenter' },
+    ]);
+
+    const access = await getNoteAccess(COLLABORATOR_ID, 'note-1', db);
+
+    expect(access.role).toBe('editor');
+  });
+
+  it('should report notes without a grant as not found', async () => {
+    const db = createDb(createNote());
+
+    await expect(requireNoteAccess(COLLABORATOR_ID, 'note-1', 'viewer', db)).rejects.toThrow(
+      NotFoundError
+    );
+  });
+
+  it('should hide trashed notes from collaborators but not from the owner', async () => {
+    const db = createDb(createNote({ deletedAt: new Date() }), [{ role: 'editor' }]);
+
+    await expect(requireNoteAccess(COLLABORATOR_ID, 'note-1', 'viewer', db)).rejects.toThrow(
+      NotFoundError
+    );
+    await expect(requireNoteAccess(OWNER_ID, 'note-1', 'owner', db)).resolves.toMatchObject({
+      role: 'owner',
+    });
+  });
+
+  it('should report missing notes as not found', async () => {
+    const db = createDb(undefined);
+
+    await expect(requireNoteAccess(OWNER_ID, 'missing', 'viewer', db)).rejects.toThrow(
+      NotFoundError
+    );
+  });
+});
+
+describe('Shared Note Filters', () => {
+  it('should list notes shared directly and through nested notebooks', () => {
+    const query = dialect.sqlToQuery(sharedNoteIdsQuery(COLLABORATOR_ID));
+
+    expect(query.sql).toContain('WITH RECURSIVE shared_notebooks');
+    expect(query.sql).toContain('nb.parent_id = shared_notebooks.id');
+    expect(query.sql).toContain('n.notebook_id = shared_notebooks.id');
+    expect(query.sql).not.toContain('include_in_search');
+    expect(query.params).toEqual([COLLABORATOR_ID, COLLABORATOR_ID]);
+  });
+
+  it('should only count grants opted into search when asked to', () => {
+    const query = dialect.sqlToQuery(sharedNoteIdsQuery(COLLABORATOR_ID, { searchableOnly: true }));
+
+    expect(query.sql.match(/p\.include_in_search/g)).toHaveLength(2);
+  });
+
+  it('should match owned and shared notes', () => {
+    const query = dialect.sqlToQuery(
+      accessibleNoteCondition(COLLABORATOR_ID, { id: notes.id, ownerId: notes.userId })
+    );
+
+    expect(query.sql).toMatch(/^\("notes"\."user_id" = \$1 or "notes"\."id" IN \(/);
+    expect(query.params[0]).toBe(COLLABORATOR_ID);
+  });
+});
+
+describe('Note Collaborators', () => {
+  it('should not share a note with its owner', async () => {
+    const db = createDb(createNote());
+    db.query.users.findFirst.mockResolvedValue({ id: OWNER_ID, email: 'owner@example.com' });
+
+    await expect(
+      addCollaborator(
+        OWNER_ID,
+        { noteId: 'note-1', email: 'Owner@Example.com', role: 'viewer' },
+        db
+      )
+    ).rejects.toThrow(ValidationError);
+  });
+
+  it('should report unknown collaborator emails as not found', async () => {
+    const db = createDb(createNote());
+    db.query.users.findFirst.mockResolvedValue(undefined);
+
+    await expect(
+      addCollaborator(
+        OWNER_ID,
+        { noteId: 'note-1', email: 'nobody@example.com', role: 'editor' },
+        db
+      )
+    ).rejects.toThrow(NotFoundError);
+  });
+
+  it('should only let the owner share a note', async () => {
+    const db = createDb(undefined);
+
+    await expect(
+      addCollaborator(
+        COLLABORATOR_ID,
+        { noteId: 'note-1', email: 'friend@example.com', role: 'viewer' },
+        db
+      )
+    ).rejects.toThrow(NotFoundError);
+    expect(db.query.users.findFirst).not.toHaveBeenCalled();
+  });
+});
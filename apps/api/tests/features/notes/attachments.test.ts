@@ -0,0 +1,185 @@
+/**
+ * Unit tests for image attachments, their OCR and the Tesseract engine
+ */
+
+import { chmod, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createImageAttachment, runAttachmentOcr } from '../../../src/features/notes/attachments';
+import { requireNoteAccess } from '../../../src/features/notes/access';
+import { emitNoteEvent } from '../../../src/features/notes/service';
+import { uploadFile, downloadFile, deleteFiles } from '../../../src/lib/storage';
+import { createStubOcrEngine, createTesseractEngine } from '../../../src/lib/ocr';
+import { inngest } from '../../../src/lib/inngest';
+import { ExternalServiceError } from '../../../src/utils/errors';
+
+jest.mock('../../../src/lib/storage', () => ({
+  uploadFile: jest.fn(),
+  downloadFile: jest.fn(),
+  deleteFiles: jest.fn(),
+}));
+
+jest.mock('../../../src/lib/inngest', () => ({
+  inngest: { send: jest.fn() },
+}));
+
+jest.mock('../../../src/features/notes/access', () => ({
+  requireNoteAccess: jest.fn(),
+}));
+
+jest.mock('../../../src/features/notes/service', () => ({
+  emitNoteEvent: jest.fn(),
+}));
+
+const TEST_USER_ID = 'test-user-id';
+
+const note = { id: 'note-1', userId: TEST_USER_ID, deletedAt: null, ocrText: null };
+const attachment = {
+  id: 'attachment-1',
+  noteId: note.id,
+  mimeType: 'image/png',
+  storagePath: 'attachments/test-user-id/note-1/attachment-1.png',
+};
+const image = { fileName: 'page.png', mimeType: 'image/png', data: Buffer.from('png') };
+
+function createDb(options: { insertError?: Error; ocrTexts?: string[] } = {}) {
+  const sets: any[] = [];
+
+  return {
+    sets,
+    query: {
+      noteAttachments: { findFirst: jest.fn().mockResolvedValue(attachment) },
+      notes: { findFirst: jest.fn().mockResolvedValue(note) },
+    },
+    insert: jest.fn().mockReturnValue({
+      values: jest.fn().mockReturnValue({
+        returning: options.insertError
+          ? jest.fn().mockRejectedValue(options.insertError)
+          : jest.fn().mockResolvedValue([attachment]),
+      }),
+    }),
+    update: jest.fn(() => ({
+      set: (values: any) => {
+        sets.push(values);
+        const done = Promise.resolve(undefined);
+        return {
+          where: () => ({
+            returning: () => Promise.resolve([{ ...note, ...values }]),
+            then: (resolve: any, reject: any) => done.then(resolve, reject),
+          }),
+        };
+      },
+    })),
+    select: jest.fn().mockReturnValue({
+      from: jest.fn().mockReturnValue({
+        where: jest.fn().mockReturnValue({
+          orderBy: jest
+            .fn()
+            .mockResolvedValue((options.ocrTexts ?? []).map((ocrText) => ({ ocrText }))),
+        }),
+      }),
+    }),
+  };
+}
+
+describe('Note Attachments', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (requireNoteAccess as jest.Mock).mockResolvedValue({ note, role: 'owner' });
+  });
+
+  describe('createImageAttachment', () => {
+    it('should store the image and queue it for OCR', async () => {
+      const db = createDb();
+
+      const result = await createImageAttachment(TEST_USER_ID, note.id, image, db);
+
+      expect(uploadFile).toHaveBeenCalledWith(
+        expect.stringMatching(/^attachments\/test-user-id\/note-1\/.+\.png$/),
+        image.data,
+        'image/png'
+      );
+      expect(inngest.send).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'attachments/ocr-requested' })
+      );
+      expect(result).not.toHaveProperty('storagePath');
+    });
+
+    it('should delete the upload when the attachment row cannot be saved', async () => {
+      const db = createDb({ insertError: new Error('insert failed') });
+
+      await expect(createImageAttachment(TEST_USER_ID, note.id, image, db)).rejects.toThrow(
+        'insert failed'
+      );
+
+      const storagePath = (uploadFile as jest.Mock).mock.calls[0][0];
+      expect(deleteFiles).toHaveBeenCalledWith([storagePath]);
+      expect(inngest.send).not.toHaveBeenCalled();
+    });
+
+    it('should report the insert failure even when the cleanup fails', async () => {
+      (deleteFiles as jest.Mock).mockRejectedValueOnce(new Error('storage down'));
+      const db = createDb({ insertError: new Error('insert failed') });
+
+      await expect(createImageAttachment(TEST_USER_ID, note.id, image, db)).rejects.toThrow(
+        'insert failed'
+      );
+    });
+  });
+
+  describe('runAttachmentOcr', () => {
+    it('should save the recognized text and fold it into the note', async () => {
+      (downloadFile as jest.Mock).mockResolvedValue(image.data);
+      const db = createDb({ ocrTexts: ['Eigenvalues of A'] });
+
+      const result = await runAttachmentOcr(
+        attachment.id,
+        createStubOcrEngine('Eigenvalues of A'),
+        db
+      );
+
+      expect(result).toEqual({ attachmentId: attachment.id, noteId: note.id, characters: 16 });
+      expect(db.sets).toContainEqual(
+        expect.objectContaining({
+          ocrStatus: 'completed',
+          ocrText: 'Eigenvalues of A',
+          ocrEngine: 'stub',
+        })
+      );
+      expect(db.sets).toContainEqual(
+        expect.objectContaining({ ocrText: 'Eigenvalues of A', hasHandwriting: true })
+      );
+      expect(emitNoteEvent).toHaveBeenCalledWith(
+        'notes/updated',
+        expect.objectContaining({ id: note.id }),
+        TEST_USER_ID
+      );
+    });
+  });
+});
+
+describe('Tesseract Engine', () => {
+  let workDir: string;
+
+  beforeAll(async () => {
+    workDir = await mkdtemp(join(tmpdir(), 'loqi-ocr-test-'));
+  });
+
+  afterAll(async () => {
+    await rm(workDir, { recursive: true, force: true });
+  });
+
+  it('should kill the process when it runs past the timeout', async () => {
+    const binaryPath = join(workDir, 'slow-tesseract');
+    await writeFile(binaryPath, '#!/bin/sh\nexec sleep 10\n');
+    await chmod(binaryPath, 0o755);
+
+    const engine = createTesseractEngine(binaryPath, 'eng', 100);
+    const startedAt = Date.now();
+
+    await expect(engine.recognize(image.data, image.mimeType)).rejects.toThrow(
+      ExternalServiceError
+    );
+    expect(Date.now() - startedAt).toBeLessThan(5000);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Unit tests for note block parsing, block id assignment and chunk mapping
+ */
+
+import { parseBlocks, assignBlockIds, mapChunksToBlocks } from '../../../src/features/notes/blocks';
+import { stripBlockIds } from '../../../src/features/notes/normalize';
+
+const lecture = `# Limits
+
+Limits describe behaviour
+near a point. ^limits-def
+
+- Left-sided limits
+  approach from below
+  - Nested item
+- Right-sided limits
+
+\`\`\`js
+// not a block
+\`\`\`
+
+> A quoted paragraph`;
+
+function identify(markdown: string, ids: string[]) {
+  return parseBlocks(markdown).map((block, index) => ({
+    blockId: ids[index],
+    type: block.type,
+    text: block.text,
+  }));
+}
+
+describe('Note Blocks', () => {
+  it('should split headings, paragraphs and list items and skip code', () => {
+    const blocks = parseBlocks(lecture);
+
+    expect(blocks.map((block) => [block.type, block.text])).toEqual([
+      ['heading', 'Limits'],
+      ['paragraph', 'Limits describe behaviour near a point.'],
+      ['listItem', 'Left-sided limits approach from below'],
+      ['listItem', 'Nested item'],
+      ['listItem', 'Right-sided limits'],
+      ['paragraph', 'A quoted paragraph'],
+    ]);
+    expect(blocks[1]).toMatchObject({ startLine: 2, endLine: 4, explicitId: 'limits-def' });
+  });
+
+  it('should strip block id markers', () => {
+    expect(stripBlockIds('First ^abc123\nSecond line ^x\nNo marker')).toBe(
+      'First\nSecond line\nNo marker'
+    );
+  });
+
+  it('should use typed ids and generate unique ones for other blocks', () => {
+    const ids = assignBlockIds([], parseBlocks('One ^dup\n\nTwo ^dup\n\nThree'));
+
+    expect(ids[0]).toBe('dup');
+    expect(ids[1]).toMatch(/^[a-z0-9]{6}$/);
+    expect(new Set(ids).size).toBe(3);
+  });
+
+  it('should keep ids of unchanged and lightly edited blocks', () => {
+    const before = 'Alpha paragraph text\n\nBeta paragraph about limits\n\nGamma';
+    const previous = identify(before, ['aaaaaa', 'bbbbbb', 'cccccc']);
+
+    const after =
+      'New opening paragraph\n\nAlpha paragraph text\n\nBeta paragraph about one-sided limits\n\nGamma';
+    const ids = assignBlockIds(previous, parseBlocks(after));
+
+    expect(ids.slice(1)).toEqual(['aaaaaa', 'bbbbbb', 'cccccc']);
+    expect(['aaaaaa', 'bbbbbb', 'cccccc']).not.toContain(ids[0]);
+  });
+
+  it('should give rewritten blocks new ids', () => {
+    const previous = identify('Alpha paragraph text\n\nGamma', ['aaaaaa', 'cccccc']);
+    const ids = assignBlockIds(previous, parseBlocks('Something else entirely\n\nGamma'));
+
+    expect(ids[0]).not.toBe('aaaaaa');
+    expect(ids[1]).toBe('cccccc');
+  });
+
+  it('should map chunks to the blocks they contain or were split from', () => {
+    const blocks = [
+      { blockId: 'intro', markdown: 'Limits describe behaviour\nnear a point. ^intro' },
+      { blockId: 'item', markdown: '- Right-sided limits' },
+      { blockId: 'long', markdown: `${'word '.repeat(40)}tail` },
+    ];
+
+    const mapping = mapChunksToBlocks(
+      [
+        'Limits describe behaviour near a point.\n\n- Right-sided limits',
+        'word '.repeat(20),
+        'Unrelated text',
+      ],
+      blocks
+    );
+
+    expect(mapping).toEqual([['intro', 'item'], ['long'], []]);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Unit tests for resolving note conflicts
+ */
+
+import { resolveConflict } from '../../../src/features/notes/conflicts';
+import { applyNoteUpdate, getNoteById } from '../../../src/features/notes/service';
+import { requireNoteAccess } from '../../../src/features/notes/access';
+import { ConflictError, NotFoundError } from '../../../src/utils/errors';
+
+jest.mock('../../../src/features/notes/service', () => ({
+  applyNoteUpdate: jest.fn(),
+  getNoteById: jest.fn(),
+}));
+
+jest.mock('../../../src/features/notes/access', () => ({
+  requireNoteAccess: jest.fn(),
+}));
+
+const TEST_USER_ID = 'test-user-id';
+const OWNER_ID = 'owner-user-id';
+const CONFLICT_ID = '0b5f6a2c-3d4e-4f5a-8b6c-7d8e9f0a1b2c';
+
+const note = { id: 'note-1', userId: OWNER_ID, title: 'Server title', content: 'Server content' };
+
+const mockApplyNoteUpdate = applyNoteUpdate as jest.MockedFunction<typeof applyNoteUpdate>;
+
+function createConflict(overrides: Record<string, unknown> = {}) {
+  return {
+    id: CONFLICT_ID,
+    noteId: note.id,
+    userId: TEST_USER_ID,
+    conflictingContent: null,
+    conflictingTitle: null,
+    conflictingClientId: null,
+    conflictingClientUpdatedAt: null,
+    resolved: false,
+    ...overrides,
+  };
+}
+
+function createDb(conflict: any) {
+  return {
+    query: { noteConflicts: { findFirst: jest.fn().mockResolvedValue(conflict) } },
+    update: jest.fn().mockReturnValue({
+      set: jest.fn().mockReturnValue({
+        where: jest.fn().mockReturnValue({
+          returning: jest.fn().mockResolvedValue([{ ...conflict, resolved: true }]),
+        }),
+      }),
+    }),
+  };
+}
+
+describe('Note Conflicts', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (requireNoteAccess as jest.Mock).mockResolvedValue({ note, role: 'editor' });
+    (getNoteById as jest.Mock).mockResolvedValue(note);
+  });
+
+  it('should keep the server content when the client only changed the title', async () => {
+    const db = createDb(createConflict({ conflictingTitle: 'Client title' }));
+
+    await resolveConflict(TEST_USER_ID, { conflictId: CONFLICT_ID, strategy: 'keep_client' }, db);
+
+    const changes = mockApplyNoteUpdate.mock.calls[0][2];
+    expect(changes.title).toBe('Client title');
+    expect(changes.content).toBeUndefined();
+    expect(mockApplyNoteUpdate).toHaveBeenCalledWith(OWNER_ID, note, expect.anything(), db);
+  });
+
+  it('should apply the client content and title when both were sent', async () => {
+    const db = createDb(
+      createConflict({ conflictingContent: 'Client content', conflictingTitle: 'Client title' })
+    );
+
+    await resolveConflict(TEST_USER_ID, { conflictId: CONFLICT_ID, strategy: 'keep_client' }, db);
+
+    expect(mockApplyNoteUpdate.mock.calls[0][2]).toMatchObject({
+      content: 'Client content',
+      title: 'Client title',
+    });
+  });
+
+  it('should leave the note untouched when keeping the server version', async () => {
+    const db = createDb(createConflict({ conflictingContent: 'Client content' }));
+
+    await resolveConflict(TEST_USER_ID, { conflictId: CONFLICT_ID, strategy: 'keep_server' }, db);
+
+    expect(mockApplyNoteUpdate).not.toHaveBeenCalled();
+  });
+
+  it('should check editor access before resolving', async () => {
+    (requireNoteAccess as jest.Mock).mockRejectedValue(new NotFoundError('Note', note.id));
+    const db = createDb(createConflict({ conflictingContent: 'Client content' }));
+
+    await expect(
+      resolveConflict(TEST_USER_ID, { conflictId: CONFLICT_ID, strategy: 'keep_client' }, db)
+    ).rejects.toThrow(NotFoundError);
+    expect(requireNoteAccess).toHaveBeenCalledWith(TEST_USER_ID, note.id, 'editor', db);
+    expect(mockApplyNoteUpdate).not.toHaveBeenCalled();
+  });
+
+  it('should not resolve a conflict twice', async () => {
+    const db = createDb(createConflict({ resolved: true }));
+
+    await expect(
+      resolveConflict(TEST_USER_ID, { conflictId: CONFLICT_ID, strategy: 'keep_server' }, db)
+    ).rejects.toThrow(ConflictError);
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * Unit tests for the note line diff
+ */
+
+import { diffLines, getDiffStats } from '../../../src/features/notes/diff';
+
+describe('Note Diff', () => {
+  it('should return a single equal hunk for identical content', () => {
+    const hunks = diffLines('a\nb\nc', 'a\nb\nc');
+
+    expect(hunks).toEqual([{ type: 'equal', lines: ['a', 'b', 'c'] }]);
+    expect(getDiffStats(hunks)).toEqual({ added: 0, removed: 0 });
+  });
+
+  it('should report a changed line as removed then added', () => {
+    const hunks = diffLines('# Title\nold line\nfooter', '# Title\nnew line\nfooter');
+
+    expect(hunks).toEqual([
+      { type: 'equal', lines: ['# Title'] },
+      { type: 'removed', lines: ['old line'] },
+      { type: 'added', lines: ['new line'] },
+      { type: 'equal', lines: ['footer'] },
+    ]);
+  });
+
+  it('should detect insertions and deletions in the middle', () => {
+    const hunks = diffLines('a\nb\nc\nd', 'a\nc\nx\nd');
+
+    expect(getDiffStats(hunks)).toEqual({ added: 1, removed: 1 });
+    expect(hunks.filter((h) => h.type === 'removed')[0].lines).toEqual(['b']);
+    expect(hunks.filter((h) => h.type === 'added')[0].lines).toEqual(['x']);
+  });
+
+  it('should handle empty content on either side', () => {
+    expect(diffLines('', 'a\nb')).toEqual([{ type: 'added', lines: ['a', 'b'] }]);
+    expect(diffLines('a\nb', '')).toEqual([{ type: 'removed', lines: ['a', 'b'] }]);
+  });
+
+  it('should normalize CRLF line endings', () => {
+    expect(getDiffStats(diffLines('a\r\nb', 'a\nb'))).toEqual({ added: 0, removed: 0 });
+  });
+});
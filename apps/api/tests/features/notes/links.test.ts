@@ -0,0 +1,62 @@
+/**
+ * Unit tests for resolving [[wiki links]] to notes by title
+ */
+
+import { PgDialect } from 'drizzle-orm/pg-core';
+import { syncNoteLinks, resolvePendingLinks } from '../../../src/features/notes/links';
+
+const TEST_USER_ID = 'test-user-id';
+
+const dialect = new PgDialect();
+
+const NORMALIZED_TITLE =
+  /lower\(trim\(regexp_replace\("[a-z_]+"\."[a-z_]+", '\\s\+', ' ', 'g'\)\)\)/;
+
+function createDb() {
+  const where = jest.fn();
+  return {
+    where,
+    select: jest.fn().mockReturnValue({
+      from: jest.fn().mockReturnValue({
+        where: jest.fn((condition: any) => {
+          where(condition);
+          const rows = Promise.resolve([]);
+          return {
+            orderBy: jest.fn().mockResolvedValue([]),
+            then: (resolve: any, reject: any) => rows.then(resolve, reject),
+          };
+        }),
+      }),
+    }),
+    delete: jest.fn().mockReturnValue({ where: jest.fn() }),
+    insert: jest.fn().mockReturnValue({ values: jest.fn() }),
+    update: jest.fn().mockReturnValue({
+      set: jest.fn().mockReturnValue({ where }),
+    }),
+  };
+}
+
+describe('Note Links', () => {
+  it('should match note titles the way link targets are normalized', async () => {
+    const db = createDb();
+
+    await syncNoteLinks(TEST_USER_ID, { id: 'note-1', content: 'See [[ Foo   Bar ]]' }, db);
+
+    // First the existing links of the note, then the titles of candidate targets
+    const query = dialect.sqlToQuery(db.where.mock.calls[1][0]);
+    expect(query.sql).toMatch(NORMALIZED_TITLE);
+    expect(query.sql).toContain('"notes"."title"');
+    expect(query.params).toContain('foo bar');
+  });
+
+  it('should match pending links with the same normalization', async () => {
+    const db = createDb();
+
+    await resolvePendingLinks(TEST_USER_ID, { id: 'note-2', title: ' Foo  Bar' }, db);
+
+    const query = dialect.sqlToQuery(db.where.mock.calls[0][0]);
+    expect(query.sql).toMatch(NORMALIZED_TITLE);
+    expect(query.sql).toContain('"note_links"."target_ref"');
+    expect(query.params).toContain('foo bar');
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Unit tests for the three-way note merge
+ */
+
+import { mergeThreeWay, mergeValue } from '../../../src/features/notes/merge';
+
+describe('Three-Way Merge', () => {
+  const base = ['# Lecture 5', 'Intro', 'Definition', 'Example', 'Summary'].join('\n');
+
+  it('should merge edits to different lines from both sides', () => {
+    const server = base.replace('Intro', 'Intro (updated on laptop)');
+    const client = base.replace('Summary', 'Summary (updated on phone)');
+
+    const result = mergeThreeWay(base, server, client);
+
+    expect(result.clean).toBe(true);
+    expect(result.content).toBe(
+      [
+        '# Lecture 5',
+        'Intro (updated on laptop)',
+        'Definition',
+        'Example',
+        'Summary (updated on phone)',
+      ].join('\n')
+    );
+    expect(result.regions.map((r) => r.source)).toEqual(['server', 'client']);
+    expect(result.regions[1]).toMatchObject({ baseStart: 4, baseEnd: 5, startLine: 4, lineCount: 1 });
+  });
+
+  it('should report a conflict when both sides change the same line differently', () => {
+    const server = base.replace('Definition', 'Definition A');
+    const client = base.replace('Definition', 'Definition B');
+
+    const result = mergeThreeWay(base, server, client);
+
+    expect(result.clean).toBe(false);
+    expect(result.conflicts).toEqual([
+      { baseStart: 2, baseEnd: 3, serverLines: ['Definition A'], clientLines: ['Definition B'] },
+    ]);
+  });
+
+  it('should apply identical edits once', () => {
+    const edited = base.replace('Example', 'Worked example');
+
+    const result = mergeThreeWay(base, edited, edited);
+
+    expect(result.clean).toBe(true);
+    expect(result.content).toBe(edited);
+    expect(result.regions).toHaveLength(1);
+    expect(result.regions[0].source).toBe('both');
+  });
+
+  it('should conflict when both sides insert at the same point', () => {
+    const server = `${base}\nServer footer`;
+    const client = `${base}\nClient footer`;
+
+    expect(mergeThreeWay(base, server, client).clean).toBe(false);
+  });
+
+  it('should keep an insertion next to a deletion from the other side', () => {
+    const server = base.replace('Intro\n', '');
+    const client = base.replace('Definition', 'Note\nDefinition');
+
+    const result = mergeThreeWay(base, server, client);
+
+    expect(result.clean).toBe(true);
+    expect(result.content).toBe(['# Lecture 5', 'Note', 'Definition', 'Example', 'Summary'].join('\n'));
+  });
+
+  describe('mergeValue', () => {
+    it('should take whichever side changed the value', () => {
+      expect(mergeValue('Old', 'New', undefined)).toEqual({ clean: true, value: 'New' });
+      expect(mergeValue('Old', 'Old', 'New')).toEqual({ clean: true, value: 'New' });
+      expect(mergeValue('Old', 'Same', 'Same')).toEqual({ clean: true, value: 'Same' });
+    });
+
+    it('should not merge different changes to the same value', () => {
+      expect(mergeValue('Old', 'Server', 'Client')).toEqual({ clean: false });
+    });
+  });
+});
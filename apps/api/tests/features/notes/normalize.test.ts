@@ -0,0 +1,74 @@
+/**
+ * Unit tests for note content normalization
+ */
+
+import {
+  isHtmlContent,
+  htmlToMarkdown,
+  toMarkdown,
+  markdownToPlainText,
+  normalizeNoteContent,
+} from '../../../src/features/notes/normalize';
+
+describe('Note Content Normalization', () => {
+  it('should only treat content starting with a block element as HTML', () => {
+    expect(isHtmlContent('<h1>Title</h1><p>Body</p>')).toBe(true);
+    expect(isHtmlContent('  <p>Body</p>')).toBe(true);
+    expect(isHtmlContent('# Title\n\nLine with <br> inside')).toBe(false);
+  });
+
+  it('should leave Markdown content untouched', () => {
+    const markdown = '# Title\n\n- one\n- two';
+    expect(toMarkdown(markdown)).toBe(markdown);
+  });
+
+  it('should keep headings, emphasis and nested lists', () => {
+    const markdown = htmlToMarkdown(
+      '<h2>Limits</h2><p>A <strong>key</strong> idea</p><ul><li>one<ul><li>nested</li></ul></li><li>two</li></ul><ol start="3"><li>three</li></ol>'
+    );
+
+    expect(markdown).toBe('## Limits\n\nA **key** idea\n\n- one\n  - nested\n- two\n\n3. three');
+  });
+
+  it('should convert tables with the first row as header', () => {
+    const markdown = htmlToMarkdown(
+      '<table><tbody><tr><td>Term</td><td>Meaning</td></tr><tr><td>a|b</td><td>pipe</td></tr></tbody></table>'
+    );
+
+    expect(markdown).toBe('| Term | Meaning |\n| --- | --- |\n| a\\|b | pipe |');
+  });
+
+  it('should convert code blocks, task lists and strikethrough', () => {
+    const markdown = htmlToMarkdown(
+      '<pre><code class="language-py">print(1)\n</code></pre><ul><li><input type="checkbox" checked> done</li></ul><p><del>old</del></p>'
+    );
+
+    expect(markdown).toBe('```py\nprint(1)\n```\n\n- [x] done\n\n~~old~~');
+  });
+
+  it('should keep wiki links intact', () => {
+    expect(htmlToMarkdown('<p>See [[My_Note|notes]]</p>')).toBe('See [[My_Note|notes]]');
+  });
+
+  it('should strip Markdown syntax from plain text', () => {
+    const plain = markdownToPlainText(
+      '# Title\n\nSome **bold** & `code` with a [link](https://example.com).\n\n| a | b |\n| - | - |\n| 1 | 2 |'
+    );
+
+    expect(plain).toBe('Title\nSome bold & code with a link.\na b\n1 2');
+  });
+
+  it('should count words from the plain text', () => {
+    const result = normalizeNoteContent('<h1>Cells</h1><p>The <em>mitochondria</em> is here.</p>');
+
+    expect(result.markdown).toBe('# Cells\n\nThe _mitochondria_ is here.');
+    expect(result.plain).toBe('Cells\nThe mitochondria is here.');
+    expect(result.wordCount).toBe(5);
+  });
+
+  it('should decode entities and replace out-of-range code points', () => {
+    expect(normalizeNoteContent('hi <b>&#x110000;</b>').plain).toBe('hi \uFFFD');
+    expect(normalizeNoteContent('hello\n\n<div>&#9999999999;</div>').plain).toBe('hello\n\uFFFD');
+    expect(markdownToPlainText('&#xD800; &#0; &#x1F600; &amp;')).toBe('\uFFFD \uFFFD \u{1F600} &');
+  });
+});
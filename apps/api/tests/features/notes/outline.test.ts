@@ -0,0 +1,80 @@
+/**
+ * Unit tests for note outlines and section extraction
+ */
+
+import { buildOutline, extractSection, slugifyHeading } from '../../../src/features/notes/outline';
+
+const lecture = `Intro words here.
+
+# Limits
+
+Limits describe behaviour near a point.
+
+## One-sided limits
+
+Approach from the left or right.
+
+## Examples
+
+### Examples
+
+A repeated heading.
+
+\`\`\`python
+# not a heading
+\`\`\`
+
+# Derivatives
+
+Rates of change.`;
+
+describe('Note Outline', () => {
+  it('should slugify headings', () => {
+    expect(slugifyHeading('One-sided **limits**!')).toBe('one-sided-limits');
+    expect(slugifyHeading('Größe und Maß')).toBe('größe-und-maß');
+    expect(slugifyHeading('???')).toBe('section');
+  });
+
+  it('should nest headings and ignore headings in code blocks', () => {
+    const { sections, introWordCount } = buildOutline(lecture);
+
+    expect(introWordCount).toBe(3);
+    expect(sections.map((section) => section.title)).toEqual(['Limits', 'Derivatives']);
+    expect(sections[0].children.map((child) => child.anchor)).toEqual([
+      'one-sided-limits',
+      'examples',
+    ]);
+    expect(sections[0].children[1].children[0]).toMatchObject({
+      anchor: 'examples-1',
+      level: 3,
+      path: ['Limits', 'Examples', 'Examples'],
+    });
+  });
+
+  it('should roll word counts up to parent headings', () => {
+    const [limits, derivatives] = buildOutline(lecture).sections;
+
+    // Code blocks count towards the section they are in
+    expect(limits.wordCount).toBe(6);
+    expect(limits.totalWordCount).toBe(6 + 6 + 0 + 7);
+    expect(derivatives.totalWordCount).toBe(3);
+  });
+
+  it('should extract a section with or without its subsections', () => {
+    const full = extractSection(lecture, 'limits', true);
+    const own = extractSection(lecture, 'limits', false);
+
+    expect(full?.content.startsWith('# Limits')).toBe(true);
+    expect(full?.content).toContain('# not a heading');
+    expect(full?.content).not.toContain('# Derivatives');
+    expect(full?.wordCount).toBe(19);
+
+    expect(own?.content).toBe('# Limits\n\nLimits describe behaviour near a point.');
+    expect(own?.previousAnchor).toBeNull();
+    expect(own?.nextAnchor).toBe('one-sided-limits');
+  });
+
+  it('should return null for an unknown anchor', () => {
+    expect(extractSection(lecture, 'integrals', true)).toBeNull();
+  });
+});
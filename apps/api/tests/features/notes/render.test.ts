@@ -0,0 +1,53 @@
+/**
+ * Unit tests for shared note rendering
+ */
+
+import {
+  flattenWikiLinks,
+  renderNoteHtml,
+  renderNoteMarkdown,
+  renderSharedNotePage,
+} from '../../../src/features/notes/render';
+
+describe('Note Rendering', () => {
+  it('should flatten wiki links to their display text', () => {
+    expect(flattenWikiLinks('See [[Lecture 4]] and ![[Graphs#^b1|the graph]].')).toBe(
+      'See Lecture 4 and the graph.'
+    );
+  });
+
+  it('should render Markdown to HTML', () => {
+    const html = renderNoteHtml('## Limits\n\n- **one**\n- two');
+
+    expect(html).toContain('<h2>Limits</h2>');
+    expect(html).toContain('<strong>one</strong>');
+  });
+
+  it('should strip scripts, event handlers and unsafe links', () => {
+    const html = renderNoteHtml(
+      '<p onclick="steal()">Hi</p><script>alert(1)</script>\n\n[x](javascript:alert(1))'
+    );
+
+    expect(html).not.toContain('<script');
+    expect(html).not.toContain('onclick');
+    expect(html).not.toContain('javascript:');
+    expect(html).toContain('<p>Hi</p>');
+  });
+
+  it('should escape the title in the page', () => {
+    const page = renderSharedNotePage({
+      title: '<img src=x onerror=alert(1)>',
+      content: 'Body',
+      updatedAt: new Date('2024-03-01T12:00:00.000Z'),
+    });
+
+    expect(page).toContain('<title>&lt;img src=x onerror=alert(1)&gt;</title>');
+    expect(page).toContain('Last updated 2024-03-01');
+  });
+
+  it('should render Markdown with the title as a heading', () => {
+    expect(
+      renderNoteMarkdown({ title: 'Graphs', content: 'See [[Trees]]\n', updatedAt: new Date() })
+    ).toBe('# Graphs\n\nSee Trees\n');
+  });
+});
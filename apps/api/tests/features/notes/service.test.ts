@@ -0,0 +1,82 @@
+/**
+ * Unit tests for note updates and the events they publish
+ */
+
+import { applyNoteUpdate } from '../../../src/features/notes/service';
+import type { PendingNoteEvent } from '../../../src/features/notes/service';
+import { inngest } from '../../../src/lib/inngest';
+import { publishNoteChange } from '../../../src/lib/realtime';
+
+jest.mock('../../../src/lib/inngest', () => ({
+  inngest: { send: jest.fn().mockResolvedValue(undefined) },
+}));
+
+jest.mock('../../../src/lib/realtime', () => ({
+  publishNoteChange: jest.fn(),
+}));
+
+jest.mock('../../../src/features/notes/links', () => ({
+  syncNoteLinks: jest.fn(),
+  resolvePendingLinks: jest.fn(),
+}));
+
+jest.mock('../../../src/features/notes/blocks', () => ({
+  syncNoteBlocks: jest.fn(),
+}));
+
+const TEST_USER_ID = 'test-user-id';
+
+const note = {
+  id: 'note-1',
+  userId: TEST_USER_ID,
+  title: 'Lecture 1',
+  content: '# Lecture 1',
+  courseId: null,
+  version: 2,
+};
+
+function createDb() {
+  return {
+    insert: jest.fn().mockReturnValue({
+      values: jest.fn().mockReturnValue({ onConflictDoNothing: jest.fn() }),
+    }),
+    update: jest.fn().mockReturnValue({
+      set: jest.fn((values: any) => ({
+        where: jest.fn().mockReturnValue({
+          returning: jest.fn().mockResolvedValue([{ ...note, ...values }]),
+        }),
+      })),
+    }),
+  };
+}
+
+describe('Note Updates', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should publish a rename without re-embedding the note', async () => {
+    await applyNoteUpdate(TEST_USER_ID, note, { title: 'Lecture 1: Limits' }, createDb());
+
+    expect(publishNoteChange).toHaveBeenCalledWith(TEST_USER_ID, 'updated', note.id, 3);
+    expect(inngest.send).not.toHaveBeenCalled();
+  });
+
+  it('should publish and re-embed content changes', async () => {
+    await applyNoteUpdate(TEST_USER_ID, note, { content: '# Limits' }, createDb());
+
+    expect(publishNoteChange).toHaveBeenCalledWith(TEST_USER_ID, 'updated', note.id, 3);
+    expect(inngest.send).toHaveBeenCalledWith(expect.objectContaining({ name: 'notes/updated' }));
+  });
+
+  it('should queue events for callers inside a transaction', async () => {
+    const pendingEvents: PendingNoteEvent[] = [];
+
+    await applyNoteUpdate(TEST_USER_ID, note, { title: 'Limits' }, createDb(), pendingEvents);
+
+    expect(publishNoteChange).not.toHaveBeenCalled();
+    expect(pendingEvents).toEqual([
+      expect.objectContaining({ name: 'notes/updated', reembed: false }),
+    ]);
+  });
+});
@@ -0,0 +1,356 @@
+/**
+ * Unit tests for delta sync pulls and pushes
+ */
+
+import { pullChanges, pushChanges } from '../../../src/features/notes/sync';
+import { createNote, updateNote } from '../../../src/features/notes/service';
+import { encodeCursor } from '../../../src/utils/cursor';
+import { ConflictError, ValidationError } from '../../../src/utils/errors';
+
+jest.mock('../../../src/features/notes/service', () => ({
+  attachTags: jest.fn(async (notes: any[]) => notes.map((note) => ({ ...note, tags: [] }))),
+  createNote: jest.fn(),
+  updateNote: jest.fn(),
+  deleteNote: jest.fn(),
+}));
+
+const TEST_USER_ID = 'test-user-id';
+const NOTE_ID = '6a1f3c9e-2b4d-4e8f-9a7b-1c2d3e4f5a6b';
+
+const mockCreateNote = createNote as jest.MockedFunction<typeof createNote>;
+const mockUpdateNote = updateNote as jest.MockedFunction<typeof updateNote>;
+
+// Notes are queried first, then tombstones of purged notes
+function createPullDb(rows: any[], tombstones: any[] = []) {
+  const chain: any = {
+    select: jest.fn().mockReturnThis(),
+    from: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    orderBy: jest.fn().mockReturnThis(),
+    limit: jest.fn().mockResolvedValueOnce(rows).mockResolvedValueOnce(tombstones),
+  };
+  return chain;
+}
+
+function createPushDb(existing: any, recordedConflict?: any) {
+  return {
+    query: {
+      notes: { findFirst: jest.fn().mockResolvedValue(existing) },
+      noteConflicts: { findFirst: jest.fn().mockResolvedValue(recordedConflict) },
+    },
+    update: jest.fn().mockReturnValue({
+      set: jest.fn().mockReturnValue({ where: jest.fn().mockResolvedValue(undefined) }),
+    }),
+  };
+}
+
+const existingNote = {
+  id: NOTE_ID,
+  clientId: 'client-1',
+  version: 3,
+  clientUpdatedAt: new Date('2024-03-01T10:00:00Z'),
+};
+
+describe('Delta Sync', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('pullChanges', () => {
+    it('should split a page into created, updated and deleted notes', async () => {
+      const since = new Date('2024-03-01T00:00:00Z');
+      const db = createPullDb([
+        {
+          id: 'a',
+          createdAt: new Date('2024-03-02'),
+          updatedAt: new Date('2024-03-02'),
+          deletedAt: null,
+        },
+        {
+          id: 'b',
+          createdAt: new Date('2024-02-01'),
+          updatedAt: new Date('2024-03-03'),
+          deletedAt: null,
+        },
+        {
+          id: 'c',
+          clientId: 'client-c',
+          createdAt: new Date('2024-02-01'),
+          updatedAt: new Date('2024-03-04'),
+          deletedAt: new Date('2024-03-04'),
+        },
+      ]);
+
+      const result = await pullChanges(
+        TEST_USER_ID,
+        { sinceCursor: encodeCursor({ updatedAt: since.toISOString(), id: NOTE_ID }), limit: 2 },
+        db
+      );
+
+      expect(result.created.map((note: any) => note.id)).toEqual(['a']);
+      expect(result.updated.map((note: any) => note.id)).toEqual(['b']);
+      expect(result.deleted).toEqual([]);
+      expect(result.hasMore).toBe(true);
+      expect(result.nextCursor).toBe(
+        encodeCursor({ updatedAt: new Date('2024-03-03').toISOString(), id: 'b' })
+      );
+    });
+
+    it('should report purged notes from their tombstones in cursor order', async () => {
+      const db = createPullDb(
+        [
+          {
+            id: 'a',
+            createdAt: new Date('2024-03-02'),
+            updatedAt: new Date('2024-03-02'),
+            deletedAt: null,
+          },
+          {
+            id: 'c',
+            createdAt: new Date('2024-03-04'),
+            updatedAt: new Date('2024-03-04'),
+            deletedAt: null,
+          },
+        ],
+        [
+          {
+            noteId: 'b',
+            clientId: 'client-b',
+            deletedAt: new Date('2024-02-01'),
+            purgedAt: new Date('2024-03-03'),
+          },
+        ]
+      );
+
+      const result = await pullChanges(TEST_USER_ID, { limit: 2 }, db);
+
+      expect(result.created.map((note: any) => note.id)).toEqual(['a']);
+      expect(result.deleted).toEqual([
+        { id: 'b', clientId: 'client-b', deletedAt: new Date('2024-02-01') },
+      ]);
+      expect(result.hasMore).toBe(true);
+      expect(result.nextCursor).toBe(
+        encodeCursor({ updatedAt: new Date('2024-03-03').toISOString(), id: 'b' })
+      );
+    });
+
+    it('should keep the caller cursor when nothing changed', async () => {
+      const cursor = encodeCursor({ updatedAt: new Date().toISOString(), id: NOTE_ID });
+
+      const result = await pullChanges(
+        TEST_USER_ID,
+        { sinceCursor: cursor, limit: 100 },
+        createPullDb([])
+      );
+
+      expect(result.nextCursor).toBe(cursor);
+      expect(result.hasMore).toBe(false);
+    });
+
+    it.each([
+      ['a cursor that is not base64 JSON', 'not-a-cursor'],
+      ['a cursor without an id', encodeCursor({ updatedAt: '2024-03-01T00:00:00Z' })],
+      [
+        'a cursor with a non-uuid id',
+        encodeCursor({ updatedAt: '2024-03-01T00:00:00Z', id: "1' OR 1=1" }),
+      ],
+      ['a cursor with an invalid timestamp', encodeCursor({ updatedAt: 'yesterday', id: NOTE_ID })],
+      [
+        'a cursor with a numeric timestamp',
+        encodeCursor({ updatedAt: 1709251200000, id: NOTE_ID }),
+      ],
+    ])('should reject %s before querying', async (_name, sinceCursor) => {
+      const db = createPullDb([]);
+
+      await expect(pullChanges(TEST_USER_ID, { sinceCursor, limit: 100 }, db)).rejects.toThrow(
+        ValidationError
+      );
+      expect(db.select).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('pushChanges', () => {
+    it('should create notes the server has not seen', async () => {
+      mockCreateNote.mockResolvedValue({ id: NOTE_ID, version: 1 } as any);
+      const db = createPushDb(undefined);
+
+      const { results } = await pushChanges(
+        TEST_USER_ID,
+        {
+          items: [
+            {
+              clientId: 'client-1',
+              op: 'upsert',
+              content: 'Offline note',
+              clientUpdatedAt: new Date(),
+            },
+          ],
+        },
+        db
+      );
+
+      expect(results).toEqual([
+        { clientId: 'client-1', status: 'created', noteId: NOTE_ID, version: 1 },
+      ]);
+    });
+
+    it('should report a note created by a concurrent push as unchanged', async () => {
+      mockCreateNote.mockRejectedValue(
+        Object.assign(new Error('duplicate key value violates unique constraint'), {
+          code: '23505',
+        })
+      );
+      const db = createPushDb(undefined);
+      db.query.notes.findFirst.mockResolvedValueOnce(undefined).mockResolvedValueOnce(existingNote);
+
+      const { results } = await pushChanges(
+        TEST_USER_ID,
+        {
+          items: [
+            {
+              clientId: 'client-1',
+              op: 'upsert',
+              content: 'Offline note',
+              clientUpdatedAt: new Date(),
+            },
+          ],
+        },
+        db
+      );
+
+      expect(results).toEqual([
+        { clientId: 'client-1', status: 'unchanged', noteId: NOTE_ID, version: 3 },
+      ]);
+    });
+
+    it('should apply updates against the version they were based on', async () => {
+      mockUpdateNote.mockResolvedValue({ id: NOTE_ID, version: 4 } as any);
+      const db = createPushDb(existingNote);
+
+      const { results } = await pushChanges(
+        TEST_USER_ID,
+        {
+          items: [
+            {
+              clientId: 'client-1',
+              op: 'upsert',
+              baseVersion: 2,
+              content: 'Edited offline',
+              clientUpdatedAt: new Date('2024-03-02T10:00:00Z'),
+            },
+          ],
+        },
+        db
+      );
+
+      expect(mockUpdateNote).toHaveBeenCalledWith(
+        TEST_USER_ID,
+        expect.objectContaining({ id: NOTE_ID, version: 2, autoMerge: true }),
+        db
+      );
+      expect(results[0]).toMatchObject({ status: 'updated', version: 4 });
+    });
+
+    it('should refuse updates to existing notes without a base version', async () => {
+      const db = createPushDb(existingNote);
+
+      const { results } = await pushChanges(
+        TEST_USER_ID,
+        {
+          items: [
+            {
+              clientId: 'client-1',
+              op: 'upsert',
+              content: 'Edited offline',
+              clientUpdatedAt: new Date('2024-03-02T10:00:00Z'),
+            },
+          ],
+        },
+        db
+      );
+
+      expect(mockUpdateNote).not.toHaveBeenCalled();
+      expect(results[0]).toMatchObject({
+        clientId: 'client-1',
+        status: 'error',
+        noteId: NOTE_ID,
+        error: 'baseVersion is required to update an existing note',
+      });
+    });
+
+    it('should skip replays of edits that were already applied', async () => {
+      const db = createPushDb(existingNote);
+
+      const { results } = await pushChanges(
+        TEST_USER_ID,
+        {
+          items: [
+            {
+              clientId: 'client-1',
+              op: 'upsert',
+              baseVersion: 2,
+              content: 'Edited offline',
+              clientUpdatedAt: existingNote.clientUpdatedAt,
+            },
+          ],
+        },
+        db
+      );
+
+      expect(mockUpdateNote).not.toHaveBeenCalled();
+      expect(results[0]).toMatchObject({ status: 'unchanged', version: 3 });
+    });
+
+    it('should report conflicts with the recorded conflict id', async () => {
+      mockUpdateNote.mockRejectedValue(
+        new ConflictError('Note has been modified', { conflictId: 'conflict-1' })
+      );
+      const db = createPushDb(existingNote);
+
+      const { results } = await pushChanges(
+        TEST_USER_ID,
+        {
+          items: [
+            {
+              clientId: 'client-1',
+              op: 'upsert',
+              baseVersion: 1,
+              content: 'Edited offline',
+              clientUpdatedAt: new Date('2024-03-02T10:00:00Z'),
+            },
+          ],
+        },
+        db
+      );
+
+      expect(results[0]).toMatchObject({ status: 'conflict', conflictId: 'conflict-1' });
+    });
+
+    it('should return the recorded conflict when a conflicting edit is retried', async () => {
+      const db = createPushDb(existingNote, { id: 'conflict-1' });
+
+      const { results } = await pushChanges(
+        TEST_USER_ID,
+        {
+          items: [
+            {
+              clientId: 'client-1',
+              op: 'upsert',
+              baseVersion: 1,
+              content: 'Edited offline',
+              clientUpdatedAt: new Date('2024-03-02T10:00:00Z'),
+            },
+          ],
+        },
+        db
+      );
+
+      expect(mockUpdateNote).not.toHaveBeenCalled();
+      expect(results[0]).toMatchObject({
+        status: 'conflict',
+        noteId: NOTE_ID,
+        conflictId: 'conflict-1',
+      });
+    });
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Unit tests for purging notes from the trash
+ */
+
+import { PgDialect } from 'drizzle-orm/pg-core';
+import { purgeNotes, purgeExpiredTrash } from '../../../src/features/notes/trash';
+import { deleteFiles } from '../../../src/lib/storage';
+import { publishNoteChange } from '../../../src/lib/realtime';
+
+jest.mock('../../../src/lib/storage', () => ({
+  deleteFiles: jest.fn(),
+}));
+
+jest.mock('../../../src/lib/realtime', () => ({
+  publishNoteChange: jest.fn(),
+}));
+
+jest.mock('../../../src/features/tags/service', () => ({
+  recountTags: jest.fn(),
+}));
+
+const TEST_USER_ID = 'test-user-id';
+
+const dialect = new PgDialect();
+
+const trashedNote = {
+  id: 'note-1',
+  userId: TEST_USER_ID,
+  clientId: 'client-1',
+  deletedAt: new Date('2024-01-01'),
+};
+
+/**
+ * A query builder stand-in: every method chains and awaiting it yields `result`
+ */
+function query(result: any) {
+  const rows = Promise.resolve(result);
+  const chain: any = {
+    then: (resolve: any, reject: any) => rows.then(resolve, reject),
+  };
+  for (const method of [
+    'from',
+    'innerJoin',
+    'where',
+    'limit',
+    'values',
+    'returning',
+    'onConflictDoNothing',
+  ]) {
+    chain[method] = jest.fn(() => chain);
+  }
+  return chain;
+}
+
+function createDb(options: { attachments?: any[]; deleted?: any[] } = {}) {
+  const db: any = {
+    selectDistinct: jest.fn(() => query([])),
+    select: jest.fn(() => query(options.attachments ?? [])),
+    delete: jest.fn(() => query(options.deleted ?? [])),
+    insert: jest.fn(() => query(undefined)),
+    transaction: jest.fn((callback: (tx: any) => any) => callback(db)),
+  };
+  return db;
+}
+
+describe('Note Trash', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('purgeNotes', () => {
+    it('should delete the notes and write their tombstones in one transaction', async () => {
+      const db = createDb({ deleted: [trashedNote] });
+
+      const purged = await purgeNotes([trashedNote.id], db);
+
+      expect(purged).toBe(1);
+      expect(db.transaction).toHaveBeenCalledTimes(1);
+      expect(db.insert.mock.results[0].value.values).toHaveBeenCalledWith([
+        {
+          noteId: trashedNote.id,
+          userId: TEST_USER_ID,
+          clientId: 'client-1',
+          deletedAt: trashedNote.deletedAt,
+        },
+      ]);
+      expect(publishNoteChange).toHaveBeenCalledWith(TEST_USER_ID, 'purged', trashedNote.id);
+    });
+
+    it('should still report the purge when attachment files cannot be removed', async () => {
+      (deleteFiles as jest.Mock).mockRejectedValueOnce(new Error('storage down'));
+      const db = createDb({
+        attachments: [{ storagePath: 'attachments/page.png' }],
+        deleted: [trashedNote],
+      });
+
+      await expect(purgeNotes([trashedNote.id], db)).resolves.toBe(1);
+      expect(deleteFiles).toHaveBeenCalledWith(['attachments/page.png']);
+      expect(publishNoteChange).toHaveBeenCalledWith(TEST_USER_ID, 'purged', trashedNote.id);
+    });
+  });
+
+  describe('purgeExpiredTrash', () => {
+    it('should purge users on unlisted tiers with the free retention', async () => {
+      const db = createDb();
+      db.delete.mockReturnValue(query(undefined));
+
+      await purgeExpiredTrash(db, new Date('2024-06-01'));
+
+      const freeQuery = db.select.mock.results[0].value;
+      const condition = dialect.sqlToQuery(freeQuery.where.mock.calls[0][0]);
+      expect(condition.sql).toContain('"users"."subscription_tier" not in');
+      expect(condition.params).toEqual(expect.arrayContaining(['basic', 'pro']));
+    });
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Unit tests for the wiki link parser
+ */
+
+import {
+  parseWikiLinks,
+  isNoteIdRef,
+  normalizeLinkTitle,
+} from '../../../src/features/notes/wikilinks';
+
+describe('Wiki Link Parser', () => {
+  it('should parse title links with and without aliases', () => {
+    const links = parseWikiLinks('See [[Lecture 4]] and [[Lecture 5|last week]].');
+
+    expect(links).toHaveLength(2);
+    expect(links[0]).toMatchObject({
+      targetRef: 'Lecture 4',
+      alias: null,
+      anchor: null,
+      embed: false,
+      position: 4,
+    });
+    expect(links[1]).toMatchObject({ targetRef: 'Lecture 5', alias: 'last week' });
+  });
+
+  it('should parse note id links', () => {
+    const id = '3f2b8c1e-4d5a-4b6c-8d7e-9f0a1b2c3d4e';
+    const [link] = parseWikiLinks(`[[${id}|Graph theory]]`);
+
+    expect(link.targetRef).toBe(id);
+    expect(link.alias).toBe('Graph theory');
+    expect(isNoteIdRef(link.targetRef)).toBe(true);
+    expect(isNoteIdRef('Graph theory')).toBe(false);
+  });
+
+  it('should split anchors and detect embeds', () => {
+    const [heading, block] = parseWikiLinks('[[Calculus#Limits]] ![[Calculus#^a1b2c3]]');
+
+    expect(heading).toMatchObject({ targetRef: 'Calculus', anchor: 'Limits', embed: false });
+    expect(block).toMatchObject({ targetRef: 'Calculus', anchor: '^a1b2c3', embed: true });
+  });
+
+  it('should ignore same-note anchors and empty links', () => {
+    expect(parseWikiLinks('[[#Summary]] [[ ]] [[]]')).toEqual([]);
+  });
+
+  it('should normalize titles for matching', () => {
+    expect(normalizeLinkTitle('  Lecture   4 ')).toBe('lecture 4');
+  });
+});
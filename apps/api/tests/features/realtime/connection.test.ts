@@ -0,0 +1,79 @@
+/**
+ * Unit tests for authenticating WebSocket connections with connectionParams
+ */
+
+import { EventEmitter } from 'events';
+import { createWSContext, readConnectionParams } from '../../../src/trpc/context';
+import { supabase } from '../../../src/lib/supabase';
+import { ValidationError } from '../../../src/utils/errors';
+
+jest.mock('../../../src/lib/supabase', () => ({
+  supabase: { auth: { getUser: jest.fn() } },
+}));
+
+jest.mock('../../../src/db', () => ({
+  db: {},
+}));
+
+const user = { id: 'test-user-id' };
+
+function createRequest(url: string): any {
+  return { url, headers: {} };
+}
+
+function createSocket(): any {
+  return new EventEmitter();
+}
+
+describe('WebSocket connectionParams', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (supabase.auth.getUser as jest.Mock).mockResolvedValue({ data: { user }, error: null });
+  });
+
+  it('should authenticate with the token sent in connectionParams', async () => {
+    const req = createRequest('/api/v1/trpc?connectionParams=1');
+    const socket = createSocket();
+
+    const ready = readConnectionParams(socket, req);
+    socket.emit(
+      'message',
+      Buffer.from(JSON.stringify({ method: 'connectionParams', data: { token: 'jwt' } }))
+    );
+    await ready;
+    const ctx = await createWSContext({ req, res: socket });
+
+    expect(supabase.auth.getUser).toHaveBeenCalledWith('jwt');
+    expect(ctx.user).toEqual(user);
+  });
+
+  it('should not wait for clients that do not send connectionParams', async () => {
+    const req = createRequest('/api/v1/trpc');
+    const socket = createSocket();
+
+    await readConnectionParams(socket, req);
+    const ctx = await createWSContext({ req, res: socket });
+
+    expect(supabase.auth.getUser).not.toHaveBeenCalled();
+    expect(ctx.user).toBeNull();
+  });
+
+  it('should ignore a token in the query string', async () => {
+    const req = createRequest('/api/v1/trpc?token=jwt');
+
+    const ctx = await createWSContext({ req, res: createSocket() });
+
+    expect(supabase.auth.getUser).not.toHaveBeenCalled();
+    expect(ctx.user).toBeNull();
+  });
+
+  it('should reject a first message that is not connectionParams', async () => {
+    const req = createRequest('/api/v1/trpc?connectionParams=1');
+    const socket = createSocket();
+
+    const ready = readConnectionParams(socket, req);
+    socket.emit('message', Buffer.from(JSON.stringify({ id: 1, method: 'subscription' })));
+
+    await expect(ready).rejects.toThrow(ValidationError);
+  });
+});
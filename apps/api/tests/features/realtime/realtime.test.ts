@@ -0,0 +1,62 @@
+/**
+ * Unit tests for realtime event delivery and the subscription procedures
+ */
+
+import { publishNoteChange, publishScheduleChange, subscribe } from '../../../src/lib/realtime';
+import { realtimeRouter } from '../../../src/features/realtime/router';
+
+const userId = '11111111-1111-1111-1111-111111111111';
+const otherUserId = '22222222-2222-2222-2222-222222222222';
+const noteId = '33333333-3333-3333-3333-333333333333';
+
+describe('Realtime Events', () => {
+  it("should only deliver events to the user's own listeners", () => {
+    const received: string[] = [];
+    const unsubscribe = subscribe('notes', userId, (event) => received.push(event.noteId));
+
+    publishNoteChange(otherUserId, 'updated', 'other-note', 2);
+    publishNoteChange(userId, 'updated', noteId, 3);
+
+    expect(received).toEqual([noteId]);
+    unsubscribe();
+  });
+
+  it('should stop delivering after unsubscribing', () => {
+    const listener = jest.fn();
+    const unsubscribe = subscribe('schedule', userId, listener);
+
+    publishScheduleChange(userId, 'assignment', noteId, 'created');
+    unsubscribe();
+    publishScheduleChange(userId, 'assignment', noteId, 'deleted');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0]).toMatchObject({ source: 'assignment', action: 'created' });
+  });
+
+  it('should not let a failing listener throw into the publisher', () => {
+    const unsubscribe = subscribe('notes', userId, () => {
+      throw new Error('listener failed');
+    });
+
+    expect(() => publishNoteChange(userId, 'deleted', noteId)).not.toThrow();
+    unsubscribe();
+  });
+
+  it('should stream published events to a subscription until it is closed', async () => {
+    const caller = realtimeRouter.createCaller({
+      user: { id: userId },
+      session: { user: { id: userId } },
+    } as any);
+
+    const subscription = await caller.onNoteChange();
+    const events: any[] = [];
+    const unsubscribable = subscription.subscribe({ next: (event) => events.push(event) });
+
+    publishNoteChange(userId, 'created', noteId, 1);
+    unsubscribable.unsubscribe();
+    publishNoteChange(userId, 'updated', noteId, 2);
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ type: 'created', noteId, version: 1 });
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Unit tests for the search procedures passing tag and course filters through
+ */
+
+import { searchRouter } from '../../../src/features/search/router';
+import { retrieveChunks, fullTextSearch, hybridSearch } from '../../../src/features/search/service';
+
+jest.mock('../../../src/features/search/service', () => ({
+  retrieveChunks: jest.fn().mockResolvedValue({ chunks: [] }),
+  fullTextSearch: jest.fn().mockResolvedValue([]),
+  hybridSearch: jest.fn().mockResolvedValue({ chunks: [] }),
+}));
+
+const userId = '11111111-1111-1111-1111-111111111111';
+const tagId = '22222222-2222-2222-2222-222222222222';
+const courseId = '33333333-3333-3333-3333-333333333333';
+
+const caller = searchRouter.createCaller({
+  user: { id: userId },
+  session: { user: { id: userId } },
+} as any);
+
+describe('Search Filters', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should filter semantic search by tags and course separately', async () => {
+    await caller.semantic({ query: 'graphs', tagIds: [tagId], courseId });
+
+    expect(retrieveChunks).toHaveBeenCalledWith(
+      expect.objectContaining({
+        filters: expect.objectContaining({ courseId, tagIds: [tagId] }),
+      })
+    );
+  });
+
+  it('should filter full-text search by tags', async () => {
+    await caller.fullText({ query: 'graphs', tagIds: [tagId], includeDescendantTags: true });
+
+    expect(fullTextSearch).toHaveBeenCalledWith(userId, 'graphs', 10, undefined, false, {
+      tagIds: [tagId],
+      includeDescendantTags: true,
+    });
+  });
+
+  it('should filter hybrid search by tags', async () => {
+    await caller.hybrid({ query: 'graphs', tagIds: [tagId] });
+
+    expect(hybridSearch).toHaveBeenCalledWith(
+      expect.objectContaining({
+        filters: expect.objectContaining({ courseId: undefined, tagIds: [tagId] }),
+      })
+    );
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Unit tests for merging tags and resolving the aliases merges leave behind
+ */
+
+import { mergeTags, findOrCreateTags } from '../../../src/features/tags/service';
+import { publishNoteChange } from '../../../src/lib/realtime';
+import { ValidationError } from '../../../src/utils/errors';
+
+jest.mock('../../../src/lib/realtime', () => ({
+  publishNoteChange: jest.fn(),
+}));
+
+const TEST_USER_ID = 'test-user-id';
+
+const target = { id: 'tag-target', name: 'graphs' };
+const source = { id: 'tag-source', name: 'graph-theory' };
+
+const mockPublishNoteChange = publishNoteChange as jest.MockedFunction<typeof publishNoteChange>;
+
+/**
+ * A query builder stand-in: every method chains and awaiting it yields `result`
+ */
+function query(result: any) {
+  const rows = Promise.resolve(result);
+  const chain: any = {
+    then: (resolve: any, reject: any) => rows.then(resolve, reject),
+  };
+  for (const method of [
+    'from',
+    'innerJoin',
+    'where',
+    'set',
+    'values',
+    'returning',
+    'onConflictDoNothing',
+    'onConflictDoUpdate',
+  ]) {
+    chain[method] = jest.fn(() => chain);
+  }
+  return chain;
+}
+
+function createDb(
+  options: {
+    selectRows?: any[][];
+    taggedNoteIds?: string[];
+    subtreeIds?: string[];
+    insertedRows?: any[];
+    commit?: () => void;
+  } = {}
+) {
+  const selectRows = [...(options.selectRows ?? [])];
+
+  const db: any = {
+    query: { tags: { findFirst: jest.fn().mockResolvedValue(target) } },
+    select: jest.fn(() => query(selectRows.shift() ?? [])),
+    selectDistinct: jest.fn(() =>
+      query((options.taggedNoteIds ?? []).map((noteId) => ({ noteId })))
+    ),
+    execute: jest.fn().mockResolvedValue((options.subtreeIds ?? []).map((id) => ({ id }))),
+    insert: jest.fn(() => query(options.insertedRows ?? [])),
+    update: jest.fn(() => query(undefined)),
+    delete: jest.fn(() => query(undefined)),
+    transaction: jest.fn(async (callback: (tx: any) => any) => {
+      const result = await callback(db);
+      options.commit?.();
+      return result;
+    }),
+  };
+
+  return db;
+}
+
+describe('Tags', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('mergeTags', () => {
+    it('should not merge a tag into itself', async () => {
+      const db = createDb();
+
+      await expect(
+        mergeTags(TEST_USER_ID, { targetId: target.id, sourceIds: [source.id, target.id] }, db)
+      ).rejects.toThrow(ValidationError);
+      expect(db.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should not merge a tag into one of its own children', async () => {
+      const db = createDb({ selectRows: [[source]], subtreeIds: [source.id, target.id] });
+
+      await expect(
+        mergeTags(TEST_USER_ID, { targetId: target.id, sourceIds: [source.id] }, db)
+      ).rejects.toThrow(ValidationError);
+      expect(db.insert).not.toHaveBeenCalled();
+    });
+
+    it('should publish retagged notes only after the merge has committed', async () => {
+      const events: string[] = [];
+      mockPublishNoteChange.mockImplementation((_userId, _type, noteId) => {
+        events.push(`publish ${noteId}`);
+      });
+      const db = createDb({
+        selectRows: [[source]],
+        subtreeIds: [source.id],
+        taggedNoteIds: ['note-1', 'note-2'],
+        commit: () => events.push('commit'),
+      });
+
+      const result = await mergeTags(
+        TEST_USER_ID,
+        { targetId: target.id, sourceIds: [source.id] },
+        db
+      );
+
+      expect(events).toEqual(['commit', 'publish note-1', 'publish note-2']);
+      expect(result).toEqual({ success: true, tag: target, mergedCount: 1, notesRetagged: 2 });
+    });
+
+    it('should keep the merged names as aliases of the target', async () => {
+      const db = createDb({ selectRows: [[source]], subtreeIds: [source.id] });
+
+      await mergeTags(TEST_USER_ID, { targetId: target.id, sourceIds: [source.id] }, db);
+
+      const aliasInsert = db.insert.mock.results[0].value;
+      expect(aliasInsert.values).toHaveBeenCalledWith([
+        { userId: TEST_USER_ID, alias: source.name, tagId: target.id },
+      ]);
+      expect(aliasInsert.onConflictDoUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({ set: { tagId: target.id } })
+      );
+    });
+
+    it('should not publish anything when the merge fails to commit', async () => {
+      const db = createDb({
+        selectRows: [[source]],
+        subtreeIds: [source.id],
+        taggedNoteIds: ['note-1'],
+      });
+      db.transaction.mockImplementation(async (callback: (tx: any) => any) => {
+        await callback(db);
+        throw new Error('could not serialize access');
+      });
+
+      await expect(
+        mergeTags(TEST_USER_ID, { targetId: target.id, sourceIds: [source.id] }, db)
+      ).rejects.toThrow('could not serialize access');
+      expect(mockPublishNoteChange).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findOrCreateTags', () => {
+    it('should resolve names of merged tags to the tag they were merged into', async () => {
+      const db = createDb({
+        selectRows: [[target], [{ alias: source.name, tagId: target.id }]],
+        insertedRows: [{ id: 'tag-new', name: 'trees' }],
+      });
+
+      const ids = await findOrCreateTags(
+        TEST_USER_ID,
+        ['graphs', ' graph-theory ', 'trees', 'graphs'],
+        db
+      );
+
+      expect(ids).toEqual([target.id, target.id, 'tag-new']);
+      expect(db.insert.mock.results[0].value.values).toHaveBeenCalledWith([
+        { userId: TEST_USER_ID, name: 'trees' },
+      ]);
+    });
+
+    it('should not look up aliases when every name matches a tag', async () => {
+      const db = createDb({ selectRows: [[target]] });
+
+      const ids = await findOrCreateTags(TEST_USER_ID, ['graphs'], db);
+
+      expect(ids).toEqual([target.id]);
+      expect(db.select).toHaveBeenCalledTimes(1);
+      expect(db.insert).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,35 @@
+/**
+ * Unit tests for validating createFromTemplate input
+ */
+
+import { CreateNoteFromTemplateInputSchema } from '@loqi-notes/shared-types';
+
+describe('Template Input', () => {
+  it.each(['2024-02-29', '2026-10-19', '2026-12-31'])('should accept %s', (date) => {
+    expect(
+      CreateNoteFromTemplateInputSchema.safeParse({ templateId: 'cornell', date }).success
+    ).toBe(true);
+  });
+
+  it.each(['2024-13-45', '2023-02-29', '2026-04-31', '2026-00-10', '19-10-2026'])(
+    'should reject %s',
+    (date) => {
+      expect(
+        CreateNoteFromTemplateInputSchema.safeParse({ templateId: 'cornell', date }).success
+      ).toBe(false);
+    }
+  );
+
+  it('should only accept IANA time zones', () => {
+    expect(
+      CreateNoteFromTemplateInputSchema.safeParse({
+        templateId: 'cornell',
+        timeZone: 'Europe/Berlin',
+      }).success
+    ).toBe(true);
+    expect(
+      CreateNoteFromTemplateInputSchema.safeParse({ templateId: 'cornell', timeZone: 'Mars/Base' })
+        .success
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Unit tests for template rendering
+ */
+
+import {
+  renderTemplate,
+  renderTemplateLine,
+  extractTemplateVariables,
+} from '../../../src/features/templates/render';
+
+describe('Template Rendering', () => {
+  const variables = {
+    date: '2026-10-19',
+    course: { name: 'Linear Algebra', code: 'MATH 221', instructor: null },
+    classSchedule: { location: 'Hall B', startTime: '09:00' },
+  };
+
+  it('should fill nested variables', () => {
+    expect(
+      renderTemplate('# {{course.name}} - {{ date }}\nRoom: {{classSchedule.location}}', variables)
+    ).toBe('# Linear Algebra - 2026-10-19\nRoom: Hall B');
+  });
+
+  it('should render missing and null values as empty strings', () => {
+    expect(renderTemplate('By {{course.instructor}} at {{course.missing.deep}}.', variables)).toBe(
+      'By  at .'
+    );
+  });
+
+  it('should not read inherited properties', () => {
+    expect(
+      renderTemplate(
+        '{{toString}}{{constructor}}{{course.constructor.name}}{{date.length}}',
+        variables
+      )
+    ).toBe('');
+  });
+
+  it('should tidy single-line templates with empty variables', () => {
+    expect(renderTemplateLine('{{course.code}} Lecture - {{date}}', variables)).toBe(
+      'MATH 221 Lecture - 2026-10-19'
+    );
+    expect(renderTemplateLine('{{course.code}} - Lab {{section}}', { course: {} })).toBe('Lab');
+  });
+
+  it('should list distinct template variables', () => {
+    expect(extractTemplateVariables('{{date}} {{course.name}} {{ date }}')).toEqual([
+      'date',
+      'course.name',
+    ]);
+  });
+});
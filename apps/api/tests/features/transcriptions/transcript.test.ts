@@ -0,0 +1,64 @@
+/**
+ * Unit tests for transcript formatting
+ */
+
+import {
+  formatTimestamp,
+  groupSegments,
+  renderTranscriptMarkdown,
+  appendTranscript,
+} from '../../../src/features/transcriptions/transcript';
+import { chunkMarkdown } from '../../../src/features/embeddings/chunker';
+
+const segments = [
+  { start: 0, end: 4.2, text: 'Welcome back.' },
+  { start: 4.2, end: 250, text: 'Today we cover limits.' },
+  { start: 301, end: 330, text: ' Continuity next. ' },
+  { start: 3700, end: 3712, text: 'Questions?' },
+];
+
+describe('Transcript Formatting', () => {
+  it('should format timestamps as mm:ss or h:mm:ss', () => {
+    expect(formatTimestamp(0)).toBe('00:00');
+    expect(formatTimestamp(125.9)).toBe('02:05');
+    expect(formatTimestamp(3725)).toBe('1:02:05');
+  });
+
+  it('should group segments into time windows', () => {
+    const sections = groupSegments(segments, 300);
+
+    expect(sections).toEqual([
+      { start: 0, end: 250, text: 'Welcome back. Today we cover limits.' },
+      { start: 301, end: 330, text: 'Continuity next.' },
+      { start: 3700, end: 3712, text: 'Questions?' },
+    ]);
+  });
+
+  it('should render one heading per time window', () => {
+    const markdown = renderTranscriptMarkdown(segments);
+
+    expect(markdown).toBe(
+      '## 00:00–04:10\n\nWelcome back. Today we cover limits.\n\n' +
+        '## 05:01–05:30\n\nContinuity next.\n\n' +
+        '## 1:01:40–1:01:52\n\nQuestions?'
+    );
+  });
+
+  it('should give chunks a timestamped section path', () => {
+    const content = appendTranscript('# Limits\n\nMy own notes.', 'Lecture 5', segments);
+    const chunks = chunkMarkdown({ noteId: 'note-1', noteTitle: 'Limits', content });
+
+    expect(chunks.map((chunk) => chunk.metadata.sectionPath)).toContainEqual([
+      'Limits',
+      'Lecture 5',
+      '05:01–05:30',
+    ]);
+  });
+
+  it('should append to editor HTML as HTML', () => {
+    const content = appendTranscript('<p>Before class</p>', 'Lecture 5', segments.slice(0, 1));
+
+    expect(content).toContain('<p>Before class</p><h2>Lecture 5</h2>');
+    expect(content).toContain('<h3>00:00–00:04</h3>');
+  });
+});
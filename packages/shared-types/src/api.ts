@@ -17,6 +17,10 @@ export const SemanticSearchInputSchema = z.object({
   limit: z.number().int().min(1).max(50).optional().default(10),
   minSimilarity: z.number().min(0).max(1).optional().default(0.7),
   tagIds: z.array(z.string().uuid()).optional(),
+  // Also match notes tagged with tags nested under tagIds
+  includeDescendantTags: z.boolean().optional().default(false),
+  courseId: z.string().uuid().optional(),
+  includeArchived: z.boolean().optional().default(false),
 });
 export type SemanticSearchInput = z.infer<typeof SemanticSearchInputSchema>;
 
@@ -61,18 +65,22 @@ export type AIUsage = z.infer<typeof AIUsageSchema>;
 export const PaginatedResponseSchema = <T extends z.ZodTypeAny>(dataSchema: T) =>
   z.object({
     data: z.array(dataSchema),
-    total: z.number().int().min(0),
+    // Only counted when the request sets includeTotal
+    total: z.number().int().min(0).optional(),
     limit: z.number().int().min(1),
     offset: z.number().int().min(0),
     hasMore: z.boolean(),
+    // Pass back as `cursor` to fetch the next page; null on the last page
+    nextCursor: z.string().nullable(),
   });
 
 export type PaginatedResponse<T> = {
   data: T[];
-  total: number;
+  total?: number;
   limit: number;
   offset: number;
   hasMore: boolean;
+  nextCursor: string | null;
 };
 
 export const APIErrorSchema = z.object({
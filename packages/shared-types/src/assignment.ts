@@ -133,6 +133,11 @@ export const ListAssignmentsInputSchema = z.object({
   includeDeleted: z.boolean().optional().default(false),
   limit: z.number().int().min(1).max(100).optional().default(50),
   offset: z.number().int().min(0).optional().default(0),
+  // Opaque keyset cursor from a previous page's nextCursor; takes precedence over offset.
+  // Passing a cursor (null for the first page) returns a PaginatedResponse instead of an array
+  cursor: z.string().nullable().optional(),
+  // Counting every match is slow on large accounts, so total is opt-in
+  includeTotal: z.boolean().optional().default(false),
 });
 export type ListAssignmentsInput = z.infer<typeof ListAssignmentsInputSchema>;
 
@@ -0,0 +1,35 @@
+import { z } from 'zod';
+
+export const NoteExportStatusSchema = z.enum(['pending', 'processing', 'completed', 'failed']);
+export type NoteExportStatus = z.infer<typeof NoteExportStatusSchema>;
+
+export const ExportNotesInputSchema = z.object({
+  tagIds: z.array(z.string().uuid()).optional(),
+  courseId: z.string().uuid().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  // Which timestamp the from/to range applies to
+  dateField: z.enum(['createdAt', 'updatedAt']).optional().default('updatedAt'),
+});
+export type ExportNotesInput = z.infer<typeof ExportNotesInputSchema>;
+
+export const NoteExportSchema = z.object({
+  id: z.string().uuid(),
+  userId: z.string().uuid(),
+  filters: z.record(z.unknown()),
+  status: NoteExportStatusSchema,
+  error: z.string().nullable(),
+  noteCount: z.number().int().min(0),
+  downloadToken: z.string(),
+  downloadUrl: z.string().nullable(), // Set once the archive is ready
+  expiresAt: z.date(),
+  completedAt: z.date().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+export type NoteExport = z.infer<typeof NoteExportSchema>;
+
+export const GetNoteExportInputSchema = z.object({
+  id: z.string().uuid(),
+});
+export type GetNoteExportInput = z.infer<typeof GetNoteExportInputSchema>;
@@ -0,0 +1,38 @@
+import { z } from 'zod';
+
+export const NoteImportStatusSchema = z.enum(['pending', 'processing', 'completed', 'failed']);
+export type NoteImportStatus = z.infer<typeof NoteImportStatusSchema>;
+
+export const NoteImportFileErrorSchema = z.object({
+  path: z.string(),
+  message: z.string(),
+});
+export type NoteImportFileError = z.infer<typeof NoteImportFileErrorSchema>;
+
+export const NoteImportSchema = z.object({
+  id: z.string().uuid(),
+  userId: z.string().uuid(),
+  fileName: z.string(),
+  status: NoteImportStatusSchema,
+  error: z.string().nullable(),
+  totalFiles: z.number().int().min(0),
+  processedFiles: z.number().int().min(0),
+  createdNotes: z.number().int().min(0),
+  skippedFiles: z.number().int().min(0),
+  fileErrors: z.array(NoteImportFileErrorSchema),
+  startedAt: z.date().nullable(),
+  completedAt: z.date().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+export type NoteImport = z.infer<typeof NoteImportSchema>;
+
+export const GetNoteImportInputSchema = z.object({
+  id: z.string().uuid(),
+});
+export type GetNoteImportInput = z.infer<typeof GetNoteImportInputSchema>;
+
+export const ListNoteImportsInputSchema = z.object({
+  limit: z.number().int().min(1).max(50).optional().default(20),
+});
+export type ListNoteImportsInput = z.infer<typeof ListNoteImportsInputSchema>;
@@ -1,6 +1,11 @@
 export * from './user';
 export * from './note';
 export * from './tag';
+export * from './notebook';
+export * from './template';
+export * from './import';
+export * from './export';
+export * from './transcription';
 export * from './embedding';
 export * from './quiz';
 export * from './study';
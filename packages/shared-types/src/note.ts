@@ -6,6 +6,8 @@ export type EmbeddingStatus = z.infer<typeof EmbeddingStatusSchema>;
 export const NoteSchema = z.object({
   id: z.string().uuid(),
   userId: z.string().uuid(),
+  notebookId: z.string().uuid().nullable(),
+  courseId: z.string().uuid().nullable(),
   title: z.string(),
   content: z.string(),
   contentPlain: z.string().nullable(),
@@ -13,6 +15,9 @@ export const NoteSchema = z.object({
   hasHandwriting: z.boolean(),
   wordCount: z.number().int().min(0),
   readingTimeMinutes: z.number().int().min(0),
+  isPinned: z.boolean(),
+  isFavorite: z.boolean(),
+  archivedAt: z.date().nullable(),
   version: z.number().int().min(1),
   clientId: z.string().nullable(),
   clientUpdatedAt: z.date().nullable(),
@@ -37,6 +42,8 @@ export const CreateNoteInputSchema = z.object({
   clientId: z.string().optional(),
   clientUpdatedAt: z.date().optional(),
   tagIds: z.array(z.string().uuid()).optional(),
+  notebookId: z.string().uuid().optional(),
+  courseId: z.string().uuid().optional(),
 });
 export type CreateNoteInput = z.infer<typeof CreateNoteInputSchema>;
 
@@ -48,17 +55,40 @@ export const UpdateNoteInputSchema = z.object({
   hasHandwriting: z.boolean().optional(),
   clientId: z.string().optional(),
   clientUpdatedAt: z.date().optional(),
+  // null removes the note from its course
+  courseId: z.string().uuid().nullable().optional(),
   version: z.number().int().min(1),
+  // Try a three-way merge against the base revision when `version` is stale
+  autoMerge: z.boolean().optional().default(true),
 });
 export type UpdateNoteInput = z.infer<typeof UpdateNoteInputSchema>;
 
 export const ListNotesInputSchema = z.object({
   limit: z.number().int().min(1).max(100).optional().default(20),
   offset: z.number().int().min(0).optional().default(0),
+  // Opaque keyset cursor from a previous page's nextCursor; takes precedence over offset
+  cursor: z.string().optional(),
+  // Counting every match is slow on large accounts, so total is opt-in
+  includeTotal: z.boolean().optional().default(false),
   tagIds: z.array(z.string().uuid()).optional(),
+  // Also match notes tagged with tags nested under tagIds
+  includeDescendantTags: z.boolean().optional().default(false),
+  // null lists notes that aren't in any notebook
+  notebookId: z.string().uuid().nullable().optional(),
+  // Include notes from nested notebooks as well
+  recursive: z.boolean().optional().default(false),
+  // null lists notes that aren't linked to a course
+  courseId: z.string().uuid().nullable().optional(),
+  isPinned: z.boolean().optional(),
+  isFavorite: z.boolean().optional(),
+  // Archived notes are hidden unless asked for
+  archived: z.enum(['exclude', 'include', 'only']).optional().default('exclude'),
+  // owned: your notes, shared: notes other users shared with you
+  scope: z.enum(['all', 'owned', 'shared']).optional().default('all'),
   searchQuery: z.string().optional(),
   includeDeleted: z.boolean().optional().default(false),
-  sortBy: z.enum(['createdAt', 'updatedAt', 'title']).optional().default('updatedAt'),
+  // 'relevance' ranks by full-text match and requires searchQuery (falls back to updatedAt)
+  sortBy: z.enum(['createdAt', 'updatedAt', 'title', 'relevance']).optional().default('updatedAt'),
   sortOrder: z.enum(['asc', 'desc']).optional().default('desc'),
 });
 export type ListNotesInput = z.infer<typeof ListNotesInputSchema>;
@@ -72,3 +102,336 @@ export const NoteWithTagsSchema = NoteSchema.extend({
   })),
 });
 export type NoteWithTags = z.infer<typeof NoteWithTagsSchema>;
+
+export const UpdateNoteStateInputSchema = z.object({
+  id: z.string().uuid(),
+  isPinned: z.boolean().optional(),
+  isFavorite: z.boolean().optional(),
+  archived: z.boolean().optional(),
+});
+export type UpdateNoteStateInput = z.infer<typeof UpdateNoteStateInputSchema>;
+
+// Revision history
+export const NoteRevisionSchema = z.object({
+  noteId: z.string().uuid(),
+  userId: z.string().uuid(),
+  version: z.number().int().min(1),
+  title: z.string(),
+  content: z.string(),
+  ocrText: z.string().nullable(),
+  createdAt: z.date(),
+});
+export type NoteRevision = z.infer<typeof NoteRevisionSchema>;
+
+export const NoteHistoryInputSchema = z.object({
+  id: z.string().uuid(),
+  limit: z.number().int().min(1).max(100).optional().default(20),
+  offset: z.number().int().min(0).optional().default(0),
+});
+export type NoteHistoryInput = z.infer<typeof NoteHistoryInputSchema>;
+
+export const GetNoteRevisionInputSchema = z.object({
+  id: z.string().uuid(),
+  version: z.number().int().min(1),
+});
+export type GetNoteRevisionInput = z.infer<typeof GetNoteRevisionInputSchema>;
+
+export const DiffNoteVersionsInputSchema = z.object({
+  id: z.string().uuid(),
+  fromVersion: z.number().int().min(1),
+  toVersion: z.number().int().min(1),
+});
+export type DiffNoteVersionsInput = z.infer<typeof DiffNoteVersionsInputSchema>;
+
+export const RevertNoteInputSchema = z.object({
+  id: z.string().uuid(),
+  toVersion: z.number().int().min(1),
+});
+export type RevertNoteInput = z.infer<typeof RevertNoteInputSchema>;
+
+// Sync conflicts
+export const ConflictResolutionStrategySchema = z.enum(['keep_server', 'keep_client', 'merged']);
+export type ConflictResolutionStrategy = z.infer<typeof ConflictResolutionStrategySchema>;
+
+export const NoteConflictSchema = z.object({
+  id: z.string().uuid(),
+  noteId: z.string().uuid(),
+  userId: z.string().uuid(),
+  conflictingContent: z.string().nullable(),
+  conflictingTitle: z.string().nullable(),
+  conflictingClientId: z.string().nullable(),
+  conflictingClientUpdatedAt: z.date().nullable(),
+  conflictingVersion: z.number().int().nullable(),
+  resolutionStrategy: ConflictResolutionStrategySchema.nullable(),
+  resolved: z.boolean(),
+  resolvedAt: z.date().nullable(),
+  resolvedBy: z.string().nullable(),
+  createdAt: z.date(),
+});
+export type NoteConflict = z.infer<typeof NoteConflictSchema>;
+
+export const ListNoteConflictsInputSchema = z.object({
+  noteId: z.string().uuid().optional(),
+  includeResolved: z.boolean().optional().default(false),
+});
+export type ListNoteConflictsInput = z.infer<typeof ListNoteConflictsInputSchema>;
+
+export const ResolveNoteConflictInputSchema = z
+  .object({
+    conflictId: z.string().uuid(),
+    strategy: ConflictResolutionStrategySchema,
+    title: z.string().min(1).max(500).optional(),
+    content: z.string().min(1).optional(),
+  })
+  .refine((input) => input.strategy !== 'merged' || input.content !== undefined, {
+    message: 'content is required for the merged strategy',
+    path: ['content'],
+  });
+export type ResolveNoteConflictInput = z.infer<typeof ResolveNoteConflictInputSchema>;
+
+// Delta sync
+export const SyncPullInputSchema = z.object({
+  sinceCursor: z.string().optional(),
+  limit: z.number().int().min(1).max(500).optional().default(100),
+});
+export type SyncPullInput = z.infer<typeof SyncPullInputSchema>;
+
+export const SyncPushItemSchema = z.object({
+  clientId: z.string().min(1),
+  op: z.enum(['upsert', 'delete']),
+  // Server version the offline edit was based on (required unless the note was created offline)
+  baseVersion: z.number().int().min(1).optional(),
+  title: z.string().min(1).max(500).optional(),
+  content: z.string().min(1).optional(),
+  ocrText: z.string().optional(),
+  hasHandwriting: z.boolean().optional(),
+  tagIds: z.array(z.string().uuid()).optional(),
+  clientUpdatedAt: z.date(),
+});
+export type SyncPushItem = z.infer<typeof SyncPushItemSchema>;
+
+export const SyncPushInputSchema = z.object({
+  items: z.array(SyncPushItemSchema).min(1).max(100),
+});
+export type SyncPushInput = z.infer<typeof SyncPushInputSchema>;
+
+export const SyncPushStatusSchema = z.enum([
+  'created',
+  'updated',
+  'merged',
+  'deleted',
+  'unchanged',
+  'conflict',
+  'error',
+]);
+export type SyncPushStatus = z.infer<typeof SyncPushStatusSchema>;
+
+export const SyncPushResultSchema = z.object({
+  clientId: z.string(),
+  status: SyncPushStatusSchema,
+  noteId: z.string().uuid().optional(),
+  version: z.number().int().optional(),
+  conflictId: z.string().uuid().optional(),
+  error: z.string().optional(),
+});
+export type SyncPushResult = z.infer<typeof SyncPushResultSchema>;
+
+// Trash
+export const ListTrashInputSchema = z.object({
+  limit: z.number().int().min(1).max(100).optional().default(20),
+  offset: z.number().int().min(0).optional().default(0),
+});
+export type ListTrashInput = z.infer<typeof ListTrashInputSchema>;
+
+// Bulk operations
+export const BulkNoteIdsInputSchema = z.object({
+  ids: z.array(z.string().uuid()).min(1).max(500),
+});
+export type BulkNoteIdsInput = z.infer<typeof BulkNoteIdsInputSchema>;
+
+export const BulkNoteTagsInputSchema = BulkNoteIdsInputSchema.extend({
+  tagIds: z.array(z.string().uuid()).min(1).max(50),
+});
+export type BulkNoteTagsInput = z.infer<typeof BulkNoteTagsInputSchema>;
+
+export const BulkLinkToAssignmentInputSchema = BulkNoteIdsInputSchema.extend({
+  assignmentId: z.string().uuid(),
+});
+export type BulkLinkToAssignmentInput = z.infer<typeof BulkLinkToAssignmentInputSchema>;
+
+export const BulkNoteStatusSchema = z.enum(['success', 'not_found', 'skipped']);
+export type BulkNoteStatus = z.infer<typeof BulkNoteStatusSchema>;
+
+export const BulkNoteResultSchema = z.object({
+  id: z.string().uuid(),
+  status: BulkNoteStatusSchema,
+  message: z.string().optional(), // Why the note was skipped
+});
+export type BulkNoteResult = z.infer<typeof BulkNoteResultSchema>;
+
+export const BulkOperationResultSchema = z.object({
+  results: z.array(BulkNoteResultSchema),
+  succeeded: z.number().int().min(0),
+  skipped: z.number().int().min(0),
+  notFound: z.number().int().min(0),
+});
+export type BulkOperationResult = z.infer<typeof BulkOperationResultSchema>;
+
+// Public share links
+export const NoteShareSchema = z.object({
+  id: z.string().uuid(),
+  noteId: z.string().uuid(),
+  userId: z.string().uuid(),
+  token: z.string(),
+  url: z.string(),
+  expiresAt: z.date().nullable(),
+  revokedAt: z.date().nullable(),
+  viewCount: z.number().int().min(0),
+  lastViewedAt: z.date().nullable(),
+  createdAt: z.date(),
+});
+export type NoteShare = z.infer<typeof NoteShareSchema>;
+
+export const CreateNoteShareInputSchema = z.object({
+  noteId: z.string().uuid(),
+  expiresAt: z.coerce.date().optional(), // Omit for a link that never expires
+});
+export type CreateNoteShareInput = z.infer<typeof CreateNoteShareInputSchema>;
+
+export const ListNoteSharesInputSchema = z.object({
+  noteId: z.string().uuid().optional(),
+  includeInactive: z.boolean().optional().default(false), // Revoked and expired links
+});
+export type ListNoteSharesInput = z.infer<typeof ListNoteSharesInputSchema>;
+
+export const RevokeNoteShareInputSchema = z.object({
+  id: z.string().uuid(),
+});
+export type RevokeNoteShareInput = z.infer<typeof RevokeNoteShareInputSchema>;
+
+// Collaboration
+export const NoteRoleSchema = z.enum(['viewer', 'commenter', 'editor']);
+export type NoteRole = z.infer<typeof NoteRoleSchema>;
+
+const SharedResourceSchema = z.object({
+  noteId: z.string().uuid().optional(),
+  notebookId: z.string().uuid().optional(),
+});
+
+const exactlyOneResource = (input: { noteId?: string; notebookId?: string }) =>
+  Boolean(input.noteId) !== Boolean(input.notebookId);
+
+export const AddCollaboratorInputSchema = SharedResourceSchema.extend({
+  email: z.string().email(),
+  role: NoteRoleSchema.optional().default('viewer'),
+}).refine(exactlyOneResource, { message: 'Provide either noteId or notebookId' });
+export type AddCollaboratorInput = z.infer<typeof AddCollaboratorInputSchema>;
+
+export const ListCollaboratorsInputSchema = SharedResourceSchema.refine(exactlyOneResource, {
+  message: 'Provide either noteId or notebookId',
+});
+export type ListCollaboratorsInput = z.infer<typeof ListCollaboratorsInputSchema>;
+
+export const UpdateCollaboratorInputSchema = z.object({
+  id: z.string().uuid(),
+  role: NoteRoleSchema,
+});
+export type UpdateCollaboratorInput = z.infer<typeof UpdateCollaboratorInputSchema>;
+
+export const SetSharedSearchInputSchema = z.object({
+  id: z.string().uuid(),
+  includeInSearch: z.boolean(),
+});
+export type SetSharedSearchInput = z.infer<typeof SetSharedSearchInputSchema>;
+
+export const NoteCommentSchema = z.object({
+  id: z.string().uuid(),
+  noteId: z.string().uuid(),
+  userId: z.string().uuid(),
+  authorName: z.string().nullable(),
+  body: z.string(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+export type NoteComment = z.infer<typeof NoteCommentSchema>;
+
+export const AddNoteCommentInputSchema = z.object({
+  noteId: z.string().uuid(),
+  body: z.string().min(1).max(5000),
+});
+export type AddNoteCommentInput = z.infer<typeof AddNoteCommentInputSchema>;
+
+// Image attachments and OCR
+export const OcrStatusSchema = z.enum(['pending', 'processing', 'completed', 'failed']);
+export type OcrStatus = z.infer<typeof OcrStatusSchema>;
+
+export const NoteAttachmentSchema = z.object({
+  id: z.string().uuid(),
+  noteId: z.string().uuid(),
+  uploadedBy: z.string().uuid(),
+  fileName: z.string(),
+  mimeType: z.string(),
+  sizeBytes: z.number().int().min(0),
+  ocrStatus: OcrStatusSchema,
+  ocrText: z.string().nullable(),
+  ocrConfidence: z.number().nullable(),
+  ocrError: z.string().nullable(),
+  processedAt: z.date().nullable(),
+  createdAt: z.date(),
+});
+export type NoteAttachment = z.infer<typeof NoteAttachmentSchema>;
+
+// Outline (table of contents)
+export interface NoteOutlineSection {
+  // Slug of the heading, suffixed with -1, -2... for repeated headings
+  anchor: string;
+  level: number;
+  title: string;
+  path: string[];
+  // Words under this heading, before its first subsection
+  wordCount: number;
+  // Words under this heading including all subsections
+  totalWordCount: number;
+  children: NoteOutlineSection[];
+}
+
+export const NoteOutlineSectionSchema: z.ZodType<NoteOutlineSection> = z.lazy(() =>
+  z.object({
+    anchor: z.string(),
+    level: z.number().int().min(1).max(6),
+    title: z.string(),
+    path: z.array(z.string()),
+    wordCount: z.number().int().min(0),
+    totalWordCount: z.number().int().min(0),
+    children: z.array(NoteOutlineSectionSchema),
+  })
+);
+
+export const GetNoteSectionInputSchema = z.object({
+  id: z.string().uuid(),
+  anchor: z.string().min(1).max(200),
+  // Include nested subsections in the content, not just the text before the first one
+  includeSubsections: z.boolean().optional().default(true),
+});
+export type GetNoteSectionInput = z.infer<typeof GetNoteSectionInputSchema>;
+
+// Blocks (paragraphs, list items and headings with persistent ids)
+export const NoteBlockTypeSchema = z.enum(['heading', 'paragraph', 'listItem']);
+export type NoteBlockType = z.infer<typeof NoteBlockTypeSchema>;
+
+export const NoteBlockSchema = z.object({
+  blockId: z.string(),
+  noteId: z.string().uuid(),
+  type: NoteBlockTypeSchema,
+  markdown: z.string(),
+  text: z.string(),
+  position: z.number().int().min(0),
+});
+export type NoteBlock = z.infer<typeof NoteBlockSchema>;
+
+export const GetNoteBlockInputSchema = z.object({
+  id: z.string().uuid(),
+  // Without the leading ^ of `[[note#^blockId]]`
+  blockId: z.string().regex(/^[A-Za-z0-9-]{1,64}$/),
+});
+export type GetNoteBlockInput = z.infer<typeof GetNoteBlockInputSchema>;
@@ -0,0 +1,58 @@
+import { z } from 'zod';
+
+export const NotebookSchema = z.object({
+  id: z.string().uuid(),
+  userId: z.string().uuid(),
+  parentId: z.string().uuid().nullable(),
+  name: z.string(),
+  color: z.string().nullable(),
+  icon: z.string().nullable(),
+  position: z.number().int().min(0),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+  deletedAt: z.date().nullable(),
+});
+export type Notebook = z.infer<typeof NotebookSchema>;
+
+export const CreateNotebookInputSchema = z.object({
+  name: z.string().min(1).max(100),
+  parentId: z.string().uuid().optional(),
+  color: z.string().regex(/^#[0-9A-Fa-f]{6}$/).optional(),
+  icon: z.string().max(10).optional(),
+});
+export type CreateNotebookInput = z.infer<typeof CreateNotebookInputSchema>;
+
+export const UpdateNotebookInputSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string().min(1).max(100).optional(),
+  color: z.string().regex(/^#[0-9A-Fa-f]{6}$/).optional().nullable(),
+  icon: z.string().max(10).optional().nullable(),
+});
+export type UpdateNotebookInput = z.infer<typeof UpdateNotebookInputSchema>;
+
+export const MoveNotebookInputSchema = z.object({
+  id: z.string().uuid(),
+  parentId: z.string().uuid().nullable(), // null moves the notebook to the top level
+  position: z.number().int().min(0).optional(), // Defaults to the end of the new parent
+});
+export type MoveNotebookInput = z.infer<typeof MoveNotebookInputSchema>;
+
+export const ReorderNotebooksInputSchema = z.object({
+  parentId: z.string().uuid().nullable(),
+  orderedIds: z.array(z.string().uuid()).min(1),
+});
+export type ReorderNotebooksInput = z.infer<typeof ReorderNotebooksInputSchema>;
+
+export const DeleteNotebookInputSchema = z.object({
+  id: z.string().uuid(),
+  // cascade: trash nested notebooks and their notes
+  // reparent: move children and notes up to the deleted notebook's parent
+  mode: z.enum(['cascade', 'reparent']).optional().default('reparent'),
+});
+export type DeleteNotebookInput = z.infer<typeof DeleteNotebookInputSchema>;
+
+export const MoveNotesToNotebookInputSchema = z.object({
+  noteIds: z.array(z.string().uuid()).min(1).max(500),
+  notebookId: z.string().uuid().nullable(), // null removes the notes from their notebook
+});
+export type MoveNotesToNotebookInput = z.infer<typeof MoveNotesToNotebookInputSchema>;
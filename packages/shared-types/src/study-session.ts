@@ -118,6 +118,11 @@ export const ListStudySessionsInputSchema = z.object({
   toDate: z.date().optional(),
   limit: z.number().int().min(1).max(100).optional().default(50),
   offset: z.number().int().min(0).optional().default(0),
+  // Opaque keyset cursor from a previous page's nextCursor; takes precedence over offset.
+  // Passing a cursor (null for the first page) returns a PaginatedResponse instead of an array
+  cursor: z.string().nullable().optional(),
+  // Counting every match is slow on large accounts, so total is opt-in
+  includeTotal: z.boolean().optional().default(false),
 });
 export type ListStudySessionsInput = z.infer<typeof ListStudySessionsInputSchema>;
 
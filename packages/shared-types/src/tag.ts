@@ -3,6 +3,7 @@ import { z } from 'zod';
 export const TagSchema = z.object({
   id: z.string().uuid(),
   userId: z.string().uuid(),
+  parentId: z.string().uuid().nullable(),
   name: z.string(),
   color: z.string(),
   icon: z.string().nullable(),
@@ -17,6 +18,7 @@ export const CreateTagInputSchema = z.object({
   name: z.string().min(1).max(50),
   color: z.string().regex(/^#[0-9A-Fa-f]{6}$/).optional().default('#3B82F6'),
   icon: z.string().max(10).optional(),
+  parentId: z.string().uuid().optional(),
 });
 export type CreateTagInput = z.infer<typeof CreateTagInputSchema>;
 
@@ -28,6 +30,35 @@ export const UpdateTagInputSchema = z.object({
 });
 export type UpdateTagInput = z.infer<typeof UpdateTagInputSchema>;
 
+export const ListTagsInputSchema = z
+  .object({
+    // Count each tag's notes together with the notes of its nested tags
+    rollUpCounts: z.boolean().optional().default(false),
+  })
+  .optional()
+  .default({});
+export type ListTagsInput = z.infer<typeof ListTagsInputSchema>;
+
+export const MoveTagInputSchema = z.object({
+  id: z.string().uuid(),
+  parentId: z.string().uuid().nullable(), // null moves the tag to the top level
+});
+export type MoveTagInput = z.infer<typeof MoveTagInputSchema>;
+
+export const ReparentTagChildrenInputSchema = z.object({
+  id: z.string().uuid(),
+  // New parent for every child of `id`; null moves them to the top level
+  parentId: z.string().uuid().nullable(),
+});
+export type ReparentTagChildrenInput = z.infer<typeof ReparentTagChildrenInputSchema>;
+
+export const MergeTagsInputSchema = z.object({
+  // Tags folded into the target; their names become aliases of it
+  sourceIds: z.array(z.string().uuid()).min(1).max(50),
+  targetId: z.string().uuid(),
+});
+export type MergeTagsInput = z.infer<typeof MergeTagsInputSchema>;
+
 export const AddTagToNoteInputSchema = z.object({
   noteId: z.string().uuid(),
   tagId: z.string().uuid(),
@@ -0,0 +1,75 @@
+import { z } from 'zod';
+
+// Built-in templates are addressed by key, user templates by uuid
+export const BuiltInTemplateKeySchema = z.enum(['cornell', 'lecture-outline', 'lab-report']);
+export type BuiltInTemplateKey = z.infer<typeof BuiltInTemplateKeySchema>;
+
+export const TemplateIdSchema = z.union([z.string().uuid(), BuiltInTemplateKeySchema]);
+export type TemplateId = z.infer<typeof TemplateIdSchema>;
+
+// YYYY-MM-DD naming a real calendar day, so 2024-02-30 doesn't roll over into March
+const CalendarDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/)
+  .refine(
+    (value) => {
+      const date = new Date(`${value}T00:00:00Z`);
+      return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+    },
+    { message: 'Invalid calendar date' }
+  );
+
+// IANA time zone such as Europe/Berlin
+const TimeZoneSchema = z.string().refine(
+  (value) => {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: value });
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  { message: 'Invalid time zone' }
+);
+
+export const NoteTemplateSchema = z.object({
+  id: z.string(),
+  userId: z.string().uuid().nullable(), // null for built-in templates
+  name: z.string(),
+  description: z.string().nullable(),
+  title: z.string(),
+  content: z.string(),
+  builtIn: z.boolean(),
+  variables: z.array(z.string()),
+  createdAt: z.date().nullable(),
+  updatedAt: z.date().nullable(),
+});
+export type NoteTemplate = z.infer<typeof NoteTemplateSchema>;
+
+export const CreateTemplateInputSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).optional(),
+  title: z.string().min(1).max(500).optional().default('{{date}}'),
+  content: z.string().min(1).max(50000),
+});
+export type CreateTemplateInput = z.infer<typeof CreateTemplateInputSchema>;
+
+export const UpdateTemplateInputSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().max(500).optional().nullable(),
+  title: z.string().min(1).max(500).optional(),
+  content: z.string().min(1).max(50000).optional(),
+});
+export type UpdateTemplateInput = z.infer<typeof UpdateTemplateInputSchema>;
+
+export const CreateNoteFromTemplateInputSchema = z.object({
+  templateId: TemplateIdSchema,
+  courseId: z.string().uuid().optional(),
+  classScheduleId: z.string().uuid().optional(),
+  date: CalendarDateSchema.optional(), // Defaults to today in timeZone
+  timeZone: TimeZoneSchema.optional(), // Defaults to UTC
+  title: z.string().min(1).max(500).optional(), // Overrides the rendered title
+  tagIds: z.array(z.string().uuid()).optional(),
+});
+export type CreateNoteFromTemplateInput = z.infer<typeof CreateNoteFromTemplateInputSchema>;
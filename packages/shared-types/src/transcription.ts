@@ -0,0 +1,46 @@
+import { z } from 'zod';
+
+export const TranscriptionStatusSchema = z.enum(['pending', 'processing', 'completed', 'failed']);
+export type TranscriptionStatus = z.infer<typeof TranscriptionStatusSchema>;
+
+export const TranscriptionSchema = z.object({
+  id: z.string().uuid(),
+  userId: z.string().uuid(),
+  // Note the transcript was appended to, or the note created for it once done
+  noteId: z.string().uuid().nullable(),
+  courseId: z.string().uuid().nullable(),
+  title: z.string().nullable(),
+  fileName: z.string(),
+  mimeType: z.string(),
+  sizeBytes: z.number().int().min(0),
+  status: TranscriptionStatusSchema,
+  progress: z.number().int().min(0).max(100),
+  error: z.string().nullable(),
+  engine: z.string().nullable(),
+  durationSeconds: z.number().nullable(),
+  segmentCount: z.number().int().min(0),
+  startedAt: z.date().nullable(),
+  completedAt: z.date().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+export type Transcription = z.infer<typeof TranscriptionSchema>;
+
+// Sent as query parameters with the audio upload
+export const CreateTranscriptionInputSchema = z.object({
+  // Append to this note instead of creating a new one
+  noteId: z.string().uuid().optional(),
+  title: z.string().min(1).max(500).optional(),
+  courseId: z.string().uuid().optional(),
+});
+export type CreateTranscriptionInput = z.infer<typeof CreateTranscriptionInputSchema>;
+
+export const GetTranscriptionInputSchema = z.object({
+  id: z.string().uuid(),
+});
+export type GetTranscriptionInput = z.infer<typeof GetTranscriptionInputSchema>;
+
+export const ListTranscriptionsInputSchema = z.object({
+  limit: z.number().int().min(1).max(50).optional().default(20),
+});
+export type ListTranscriptionsInput = z.infer<typeof ListTranscriptionsInputSchema>;